@@ -20,6 +20,7 @@ import { ZepMemoryManager } from '../../src/zep/memory.js';
 import { ZepSessionManager } from '../../src/zep/session.js';
 import { ZepRetrieval } from '../../src/zep/retrieval.js';
 import { MemoryType } from '../../src/zep/types.js';
+import { LLMRerankerClient } from '../../src/cross-encoder/llm-reranker.js';
 import { utcNow } from '../../src/utils/datetime.js';
 
 async function main() {
@@ -53,7 +54,7 @@ async function main() {
   // Initialize Zep components
   const memoryManager = new ZepMemoryManager(graphzep, llmClient, embedder, driver);
   const sessionManager = new ZepSessionManager(driver, llmClient, memoryManager);
-  const retrieval = new ZepRetrieval(embedder, driver);
+  const retrieval = new ZepRetrieval(embedder, driver, new LLMRerankerClient(llmClient));
 
   try {
     // Verify connectivity
@@ -440,6 +440,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               episodeType,
               groupId: effectiveGroupId,
               referenceId: uuid,
+              entityTypes: config.useCustomEntities ? ENTITY_TYPES : undefined,
             });
             
             console.log(`Episode '${name}' processed successfully`);
@@ -482,20 +483,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         const effectiveGroupIds = group_ids || (config.groupId ? [config.groupId] : []);
 
-        const results = await graphzepClient.search({
+        const results = await graphzepClient.searchNodes({
           query,
           groupId: effectiveGroupIds[0],
           limit: max_nodes,
+          centerNodeUuid: center_node_uuid,
+          entityTypes: entity ? [entity] : undefined,
         });
 
-        const formattedNodes = results.map((node: any) => ({
+        const formattedNodes = results.map(({ node }: any) => ({
           uuid: node.uuid,
           name: node.name,
           summary: (node as any).summary || '',
           labels: node.labels,
           group_id: node.groupId,
           created_at: node.createdAt.toISOString(),
-          attributes: {},
+          attributes: node.attributes || {},
         }));
 
         return {
@@ -516,18 +519,24 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error('Graphzep client not initialized');
         }
 
-        const { query, group_ids, max_facts = 10 } = args as any;
+        const { query, group_ids, max_facts = 10, center_node_uuid } = args as any;
 
         const effectiveGroupIds = group_ids || (config.groupId ? [config.groupId] : []);
 
-        // For now, return empty facts as the search functionality needs more implementation
+        const results = await graphzepClient.searchFacts({
+          query,
+          groupId: effectiveGroupIds[0],
+          limit: max_facts,
+          centerNodeUuid: center_node_uuid,
+        });
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 message: 'Facts retrieved successfully',
-                facts: [],
+                facts: results.map((result) => result.edge.toFactResult()),
               }),
             },
           ],
@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { serve } from '@hono/node-server';
 import { zValidator } from '@hono/zod-validator';
+import { Graphzep, Neo4jDriver, OpenAIClient, OpenAIEmbedder, EpisodeType } from 'graphzep';
 import { getSettings } from './config/settings.js';
 import { 
   AddMessagesRequestSchema,
@@ -19,8 +20,10 @@ import { type Message } from './dto/common.js';
 
 const app = new Hono();
 
-// Simple in-memory storage for demonstration
-// In production, this would use the actual Neo4j/GraphDB
+// Messages are ingested into the graph, which facts are searched in
+let graphzep: Graphzep;
+
+// Simple in-memory log of the ingested messages, listed by /episodes
 const messages: Array<Message & { group_id: string }> = [];
 const episodes: Array<{ uuid: string; group_id: string; content: string; timestamp: string }> = [];
 
@@ -50,6 +53,20 @@ async function processQueue() {
 // Initialize server
 async function initializeServer() {
   const settings = getSettings();
+  graphzep = new Graphzep({
+    driver: new Neo4jDriver(settings.NEO4J_URI, settings.NEO4J_USER, settings.NEO4J_PASSWORD),
+    llmClient: new OpenAIClient({
+      apiKey: settings.OPENAI_API_KEY,
+      baseURL: settings.OPENAI_BASE_URL,
+      model: settings.MODEL_NAME || 'gpt-4o-mini',
+    }),
+    embedder: new OpenAIEmbedder({
+      apiKey: settings.OPENAI_API_KEY,
+      baseURL: settings.OPENAI_BASE_URL,
+      model: settings.EMBEDDING_MODEL_NAME || 'text-embedding-3-small',
+    }),
+  });
+  await graphzep.createIndexes();
   console.log('Server initialized with settings');
   console.log('Neo4j URI:', settings.NEO4J_URI);
   console.log('OpenAI configured:', !!settings.OPENAI_API_KEY);
@@ -69,10 +86,18 @@ app.post('/messages', zValidator('json', AddMessagesRequestSchema), async (c) =>
     messages.push({ ...m, group_id: request.group_id });
     
     // Create episode
+    const episode = await graphzep.addEpisode({
+      uuid: m.uuid,
+      name: m.name || undefined,
+      content: `${m.role || m.role_type}: ${m.content}`,
+      episodeType: EpisodeType.MESSAGE,
+      groupId: request.group_id,
+      referenceTime: new Date(m.timestamp),
+    });
     episodes.push({
-      uuid: m.uuid || `episode_${Date.now()}_${Math.random()}`,
+      uuid: episode.uuid,
       group_id: request.group_id,
-      content: `${m.role || ''}(${m.role_type}): ${m.content}`,
+      content: episode.content,
       timestamp: m.timestamp,
     });
     
@@ -98,6 +123,7 @@ app.delete('/group/:groupId', async (c) => {
   
   messages.splice(0, messages.length, ...messages.filter(m => m.group_id !== groupId));
   episodes.splice(0, episodes.length, ...episodes.filter(e => e.group_id !== groupId));
+  await graphzep.executeQuery('MATCH (n {groupId: $groupId}) DETACH DELETE n', { groupId });
   
   console.log(`Deleted group ${groupId}: ${messageCount - messages.length} messages, ${episodeCount - episodes.length} episodes`);
   
@@ -107,6 +133,7 @@ app.delete('/group/:groupId', async (c) => {
 app.post('/clear', async (c) => {
   messages.length = 0;
   episodes.length = 0;
+  await graphzep.clearDatabase();
   
   console.log('Cleared all data');
   
@@ -117,23 +144,18 @@ app.post('/clear', async (c) => {
 app.post('/search', zValidator('json', SearchQuerySchema), async (c) => {
   const query: SearchQuery = c.req.valid('json');
 
-  // Simple search implementation - filter episodes by group and content
-  const relevantEpisodes = episodes.filter(episode => {
-    const matchesGroup = !query.group_ids || query.group_ids.includes(episode.group_id);
-    const matchesQuery = episode.content.toLowerCase().includes(query.query.toLowerCase());
-    return matchesGroup && matchesQuery;
-  });
-
-  // Convert episodes to facts
-  const facts: FactResult[] = relevantEpisodes.slice(0, query.max_facts).map(episode => ({
-    uuid: episode.uuid,
-    name: `Episode ${episode.uuid.slice(-6)}`,
-    fact: episode.content,
-    valid_at: episode.timestamp,
-    invalid_at: null,
-    created_at: episode.timestamp,
-    expired_at: null,
-  }));
+  // Each group is searched on its own, and the best facts of all are kept
+  const groupIds = query.group_ids?.length ? query.group_ids : [undefined];
+  const found = await Promise.all(
+    groupIds.map(groupId =>
+      graphzep.searchFacts({ query: query.query, groupId, limit: query.max_facts })
+    )
+  );
+  const facts: FactResult[] = found
+    .flat()
+    .sort((a, b) => b.score - a.score)
+    .slice(0, query.max_facts)
+    .map(result => result.edge.toFactResult());
 
   const results: SearchResults = { facts };
   
@@ -163,27 +185,13 @@ app.post('/get-memory', zValidator('json', GetMemoryRequestSchema), async (c) =>
     `${m.role_type || ''}(${m.role || ''}): ${m.content}`
   ).join(' ');
 
-  // Find relevant episodes
-  const relevantEpisodes = episodes
-    .filter(episode => episode.group_id === request.group_id)
-    .filter(episode => {
-      const content = episode.content.toLowerCase();
-      return request.messages.some(m => 
-        content.includes(m.content.toLowerCase()) ||
-        combinedQuery.toLowerCase().includes(content)
-      );
-    })
-    .slice(0, request.max_facts);
-
-  const facts: FactResult[] = relevantEpisodes.map(episode => ({
-    uuid: episode.uuid,
-    name: `Memory ${episode.uuid.slice(-6)}`,
-    fact: episode.content,
-    valid_at: episode.timestamp,
-    invalid_at: null,
-    created_at: episode.timestamp,
-    expired_at: null,
-  }));
+  const results = await graphzep.searchFacts({
+    query: combinedQuery,
+    groupId: request.group_id,
+    limit: request.max_facts,
+    centerNodeUuid: request.center_node_uuid,
+  });
+  const facts: FactResult[] = results.map(result => result.edge.toFactResult());
 
   const response: GetMemoryResponse = { facts };
   
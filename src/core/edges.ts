@@ -5,9 +5,13 @@ import {
   EntityEdge,
   EpisodicEdge,
   CommunityEdge,
+  EntityAttributeValue,
+  FactResult,
   GraphDriver,
 } from '../types/index.js';
-import { utcNow } from '../utils/datetime.js';
+import { utcNow, parseDbDate } from '../utils/datetime.js';
+import { vectorParam } from '../drivers/driver.js';
+import { EntityAttributeValueSchema } from './nodes.js';
 
 export const BaseEdgeSchema = z.object({
   uuid: z.string().default(() => uuidv4()),
@@ -19,11 +23,16 @@ export const BaseEdgeSchema = z.object({
 
 export const EntityEdgeSchema = BaseEdgeSchema.extend({
   name: z.string(),
+  fact: z.string().optional(),
+  factEmbedding: z.array(z.number()).optional(),
   factIds: z.array(z.string()),
   episodes: z.array(z.string()),
   expiredAt: z.date().optional(),
   validAt: z.date(),
   invalidAt: z.date().optional(),
+  invalidatedBy: z.string().optional(),
+  attributes: z.record(EntityAttributeValueSchema).optional(),
+  episodeQuotes: z.record(z.string()).optional(),
 });
 
 export const EpisodicEdgeSchema = BaseEdgeSchema;
@@ -76,7 +85,7 @@ export abstract class Edge implements BaseEdge {
     const result = await driver.executeQuery<any[]>(
       `
       MATCH (n)-[e {uuid: $uuid}]->(m)
-      RETURN e, type(e) as relType
+      RETURN e, type(e) as relType, n.uuid as sourceNodeUuid, m.uuid as targetNodeUuid
       `,
       { uuid },
     );
@@ -85,7 +94,11 @@ export abstract class Edge implements BaseEdge {
       return null;
     }
 
-    const edgeData = result[0].e;
+    const edgeData = {
+      sourceNodeUuid: result[0].sourceNodeUuid,
+      targetNodeUuid: result[0].targetNodeUuid,
+      ...(result[0].e.properties || result[0].e),
+    };
     const relType = result[0].relType;
 
     switch (relType) {
@@ -103,20 +116,35 @@ export abstract class Edge implements BaseEdge {
 
 export class EntityEdgeImpl extends Edge implements EntityEdge {
   name: string;
+  fact?: string;
+  factEmbedding?: number[];
   factIds: string[];
   episodes: string[];
   expiredAt?: Date;
   validAt: Date;
   invalidAt?: Date;
+  invalidatedBy?: string;
+  attributes: Record<string, EntityAttributeValue>;
+  episodeQuotes: Record<string, string>;
 
   constructor(data: EntityEdge) {
     super(data);
     this.name = data.name;
+    this.fact = data.fact;
+    this.factEmbedding = data.factEmbedding;
     this.factIds = data.factIds;
     this.episodes = data.episodes;
     this.expiredAt = data.expiredAt;
     this.validAt = data.validAt;
     this.invalidAt = data.invalidAt;
+    this.invalidatedBy = data.invalidatedBy;
+    // Stored as a JSON string, like entity attributes
+    this.attributes =
+      typeof data.attributes === 'string' ? JSON.parse(data.attributes) : data.attributes || {};
+    this.episodeQuotes =
+      typeof data.episodeQuotes === 'string'
+        ? JSON.parse(data.episodeQuotes)
+        : data.episodeQuotes || {};
   }
 
   async save(driver: GraphDriver): Promise<void> {
@@ -125,6 +153,8 @@ export class EntityEdgeImpl extends Edge implements EntityEdge {
       sourceUuid: this.sourceNodeUuid,
       targetUuid: this.targetNodeUuid,
       name: this.name,
+      fact: this.fact ?? null,
+      factEmbedding: this.factEmbedding,
       factIds: this.factIds,
       episodes: this.episodes,
       groupId: this.groupId,
@@ -132,6 +162,9 @@ export class EntityEdgeImpl extends Edge implements EntityEdge {
       validAt: this.validAt.toISOString(),
       invalidAt: this.invalidAt?.toISOString(),
       expiredAt: this.expiredAt?.toISOString(),
+      invalidatedBy: this.invalidatedBy ?? null,
+      attributes: JSON.stringify(this.attributes),
+      episodeQuotes: JSON.stringify(this.episodeQuotes),
     };
 
     const query = `
@@ -139,18 +172,37 @@ export class EntityEdgeImpl extends Edge implements EntityEdge {
       MATCH (target:Entity {uuid: $targetUuid})
       MERGE (source)-[e:RELATES_TO {uuid: $uuid}]->(target)
       SET e.name = $name,
+          e.fact = $fact,
           e.factIds = $factIds,
           e.episodes = $episodes,
           e.groupId = $groupId,
           e.createdAt = datetime($createdAt),
           e.validAt = datetime($validAt),
           e.invalidAt = ${this.invalidAt ? 'datetime($invalidAt)' : 'null'},
-          e.expiredAt = ${this.expiredAt ? 'datetime($expiredAt)' : 'null'}
+          e.expiredAt = ${this.expiredAt ? 'datetime($expiredAt)' : 'null'},
+          e.invalidatedBy = $invalidatedBy,
+          e.attributes = $attributes,
+          e.episodeQuotes = $episodeQuotes
+      ${this.factEmbedding ? `SET e.factEmbedding = ${vectorParam(driver, 'factEmbedding')}` : ''}
       RETURN e
     `;
 
     await driver.executeQuery(query, params);
   }
+
+  toFactResult(): FactResult {
+    // Edges read back from the database may carry driver-specific date values
+    const iso = (value?: Date) => parseDbDate(value)?.toISOString() ?? null;
+    return {
+      uuid: this.uuid,
+      name: this.name,
+      fact: this.fact ?? this.name,
+      valid_at: iso(this.validAt),
+      invalid_at: iso(this.invalidAt),
+      created_at: iso(this.createdAt)!,
+      expired_at: iso(this.expiredAt),
+    };
+  }
 }
 
 export class EpisodicEdgeImpl extends Edge implements EpisodicEdge {
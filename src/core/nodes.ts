@@ -3,6 +3,7 @@ import { z } from 'zod';
 import {
   BaseNode,
   EntityNode,
+  EntityAttributeValue,
   EpisodicNode,
   CommunityNode,
   EpisodeType,
@@ -10,6 +11,7 @@ import {
   GraphProvider,
 } from '../types/index.js';
 import { utcNow } from '../utils/datetime.js';
+import { vectorParam } from '../drivers/driver.js';
 
 export const EpisodeTypeSchema = z.nativeEnum(EpisodeType);
 
@@ -21,11 +23,19 @@ export const BaseNodeSchema = z.object({
   createdAt: z.date().default(() => utcNow()),
 });
 
+export const EntityAttributeValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.array(z.string()),
+]);
+
 export const EntityNodeSchema = BaseNodeSchema.extend({
   entityType: z.string(),
   summary: z.string(),
   summaryEmbedding: z.array(z.number()).optional(),
   factIds: z.array(z.string()).optional(),
+  attributes: z.record(EntityAttributeValueSchema).optional(),
 });
 
 export const EpisodicNodeSchema = BaseNodeSchema.extend({
@@ -64,6 +74,7 @@ export abstract class Node implements BaseNode {
   async delete(driver: GraphDriver): Promise<void> {
     switch (driver.provider) {
       case GraphProvider.NEO4J:
+      case GraphProvider.MEMORY:
         await driver.executeQuery(
           `
           MATCH (n:Entity|Episodic|Community {uuid: $uuid})
@@ -128,6 +139,7 @@ export class EntityNodeImpl extends Node implements EntityNode {
   summary: string;
   summaryEmbedding?: number[];
   factIds?: string[];
+  attributes: Record<string, EntityAttributeValue>;
 
   constructor(data: EntityNode) {
     super(data);
@@ -135,6 +147,9 @@ export class EntityNodeImpl extends Node implements EntityNode {
     this.summary = data.summary;
     this.summaryEmbedding = data.summaryEmbedding;
     this.factIds = data.factIds;
+    // Stored as a JSON string, since graph properties cannot hold maps
+    this.attributes =
+      typeof data.attributes === 'string' ? JSON.parse(data.attributes) : data.attributes || {};
     this.labels = ['Entity', ...this.labels];
   }
 
@@ -148,6 +163,7 @@ export class EntityNodeImpl extends Node implements EntityNode {
       groupId: this.groupId,
       createdAt: this.createdAt.toISOString(),
       factIds: this.factIds || [],
+      attributes: JSON.stringify(this.attributes),
     };
 
     const query = `
@@ -157,8 +173,9 @@ export class EntityNodeImpl extends Node implements EntityNode {
           n.summary = $summary,
           n.groupId = $groupId,
           n.createdAt = datetime($createdAt),
-          n.factIds = $factIds
-      ${this.summaryEmbedding ? 'SET n.summaryEmbedding = $summaryEmbedding, n.embedding = $summaryEmbedding' : ''}
+          n.factIds = $factIds,
+          n.attributes = $attributes
+      ${this.summaryEmbedding ? `SET n.summaryEmbedding = $summaryEmbedding, n.embedding = ${vectorParam(driver, 'summaryEmbedding')}` : ''}
       RETURN n
     `;
 
@@ -209,7 +226,7 @@ export class EpisodicNodeImpl extends Node implements EpisodicNode {
           n.validAt = datetime($validAt),
           n.invalidAt = ${this.invalidAt ? 'datetime($invalidAt)' : 'null'},
           n.referenceId = $referenceId
-      ${this.embedding ? 'SET n.embedding = $embedding' : ''}
+      ${this.embedding ? `SET n.embedding = ${vectorParam(driver, 'embedding')}` : ''}
       RETURN n
     `;
 
@@ -253,6 +270,7 @@ export class CommunityNodeImpl extends Node implements CommunityNode {
           n.groupId = $groupId,
           n.createdAt = datetime($createdAt),
           n.factIds = $factIds
+      ${this.summaryEmbedding ? `SET n.embedding = ${vectorParam(driver, 'summaryEmbedding')}` : ''}
       RETURN n
     `;
 
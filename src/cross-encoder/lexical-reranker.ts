@@ -0,0 +1,30 @@
+import { CrossEncoderClient } from '../types/index.js';
+import { nameTokens } from '../utils/similarity.js';
+import { bm25Scores } from '../utils/ranking.js';
+
+/**
+ * Deterministic reranker that needs no model: a passage scores half the share
+ * of distinct query terms it contains and half its BM25 score relative to the
+ * best passage, so scores fall in [0, 1]. Used offline and as the fallback of
+ * the LLM reranker.
+ */
+export class LexicalRerankerClient implements CrossEncoderClient {
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const queryTerms = new Set(nameTokens(query));
+    if (queryTerms.size === 0) return documents.map(() => 0);
+
+    const bm25 = new Map(
+      bm25Scores(
+        query,
+        documents.map((text, i) => ({ uuid: String(i), text })),
+      ).map(({ uuid, score }) => [Number(uuid), score]),
+    );
+    const best = Math.max(0, ...bm25.values());
+
+    return documents.map((text, i) => {
+      const tokens = new Set(nameTokens(text));
+      const coverage = [...queryTerms].filter((term) => tokens.has(term)).length / queryTerms.size;
+      return coverage / 2 + (best > 0 ? (bm25.get(i) ?? 0) / best / 2 : 0);
+    });
+  }
+}
@@ -0,0 +1,127 @@
+import { CrossEncoderClient } from '../types/index.js';
+import { BaseLLMClient } from '../llm/client.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { LexicalRerankerClient } from './lexical-reranker.js';
+
+export interface LLMRerankerConfig {
+  /** Passages scored by one prompt; defaults to 10 */
+  batchSize?: number;
+  /** Prompts in flight at once; defaults to 3 */
+  concurrency?: number;
+  /** Characters of each passage shown to the LLM; defaults to 1000 */
+  maxPassageLength?: number;
+  /**
+   * Scores the passages the LLM failed to score, when a prompt fails or its
+   * reply cannot be parsed; defaults to a LexicalRerankerClient
+   */
+  fallback?: CrossEncoderClient;
+}
+
+/**
+ * Reranker that asks an LLM to rate the relevance of batches of passages to
+ * the query. Scores are in [0, 1], in the order of the passages.
+ */
+export class LLMRerankerClient implements CrossEncoderClient {
+  private llmClient: BaseLLMClient;
+  private batchSize: number;
+  private concurrency: number;
+  private maxPassageLength: number;
+  private fallback: CrossEncoderClient;
+
+  constructor(llmClient: BaseLLMClient, config: LLMRerankerConfig = {}) {
+    this.llmClient = llmClient;
+    this.batchSize = config.batchSize ?? 10;
+    this.concurrency = config.concurrency ?? 3;
+    this.maxPassageLength = config.maxPassageLength ?? 1000;
+    this.fallback = config.fallback ?? new LexicalRerankerClient();
+  }
+
+  async rerank(query: string, documents: string[]): Promise<number[]> {
+    const batches: string[][] = [];
+    for (let i = 0; i < documents.length; i += this.batchSize) {
+      batches.push(documents.slice(i, i + this.batchSize));
+    }
+
+    const results = await mapWithConcurrency(batches, this.concurrency, async (batch) => {
+      const response = await this.llmClient.generateResponse(this.scorePrompt(query, batch));
+      return parseRelevanceScores(String(response.content), batch.length);
+    });
+
+    const scores = results.flatMap((result, i) => {
+      if (result.status === 'fulfilled') return result.value;
+      console.warn('Failed to score passages with the LLM:', result.reason);
+      return batches[i].map(() => null);
+    });
+
+    if (scores.every((score) => score !== null)) return scores as number[];
+    const fallbackScores = await this.fallback.rerank(query, documents);
+    return scores.map((score, i) => score ?? fallbackScores[i]);
+  }
+
+  private scorePrompt(query: string, passages: string[]): string {
+    const listed = passages
+      .map((passage) => passage.replace(/\s+/g, ' ').trim().slice(0, this.maxPassageLength))
+      .map((passage, i) => `[${i}] ${passage}`)
+      .join('\n');
+
+    return `
+Rate how relevant each passage is to the query, from 0 (unrelated) to 10 (answers it directly).
+Judge each passage on its own.
+
+Query: ${query}
+
+Passages:
+${listed}
+
+Respond with only a JSON object mapping each passage number to its score, such as {"0": 7, "1": 0}.
+`;
+  }
+}
+
+/**
+ * Scores out of 10 from an LLM reply, scaled to [0, 1] and indexed by passage;
+ * null for passages the reply does not score. Accepts a JSON object keyed by
+ * passage number, a JSON array of scores or of `{id, score}` objects, either
+ * one wrapped in a `scores` field, and falls back to `[0]: 7` style lines.
+ */
+function parseRelevanceScores(text: string, count: number): (number | null)[] {
+  const scores: (number | null)[] = new Array(count).fill(null);
+  const set = (id: unknown, value: unknown) => {
+    const index = Number(id);
+    const score = typeof value === 'string' ? parseFloat(value) : value;
+    if (!Number.isInteger(index) || index < 0 || index >= count) return;
+    if (typeof score !== 'number' || !Number.isFinite(score)) return;
+    scores[index] = Math.min(Math.max(score, 0), 10) / 10;
+  };
+
+  const visit = (json: unknown) => {
+    if (Array.isArray(json)) {
+      json.forEach((item, i) => {
+        if (item && typeof item === 'object') {
+          set(item.id ?? item.index ?? item.passage ?? i, item.score ?? item.relevance);
+        } else {
+          set(i, item);
+        }
+      });
+    } else if (json && typeof json === 'object') {
+      if ('scores' in json) return visit(json.scores);
+      Object.entries(json).forEach(([key, value]) => set(key.match(/\d+/)?.[0], value));
+    }
+  };
+
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  try {
+    if (start >= 0 && end > start) visit(JSON.parse(text.slice(start, end + 1)));
+  } catch {
+    // Not JSON; read the scores line by line below
+  }
+
+  if (scores.every((score) => score === null)) {
+    for (const match of text.matchAll(/\[?(\d+)\]?\s*[:=)-]\s*(\d+(?:\.\d+)?)/g)) {
+      set(match[1], match[2]);
+    }
+  }
+
+  return scores;
+}
@@ -0,0 +1,1279 @@
+import { randomUUID } from 'crypto';
+import {
+  Clause,
+  CypherQuery,
+  Expr,
+  NodePattern,
+  PathPattern,
+  Projection,
+  RelPattern,
+  RemoveItem,
+  SetItem,
+  isAggregateFunction,
+} from './cypher-parser.js';
+import { GraphNode, GraphPath, GraphRelationship, GraphStore } from './memory-graph.js';
+
+type Row = Record<string, any>;
+
+interface Binding {
+  row: Row;
+  used: Set<GraphRelationship>;
+}
+
+interface Hop {
+  rels: GraphRelationship[];
+  nodes: GraphNode[];
+}
+
+/**
+ * Executes a parsed query against the store and returns the RETURN rows shaped the
+ * way the FalkorDB driver shapes them: node values are flattened properties plus
+ * `labels`, with Neo4j-style `properties` available as a non-enumerable field.
+ */
+export function executeCypher(
+  store: GraphStore,
+  query: CypherQuery,
+  params: Record<string, any>,
+): Record<string, any>[] {
+  return new QueryExecution(store, params).run(query);
+}
+
+class QueryExecution {
+  constructor(
+    private store: GraphStore,
+    private params: Record<string, any>,
+  ) {}
+
+  run(query: CypherQuery): Record<string, any>[] {
+    let rows: Row[] = [{}];
+    let returned = false;
+
+    for (const clause of query.clauses) {
+      if (returned) {
+        throw new Error('RETURN must be the last clause of a query');
+      }
+      rows = this.runClause(clause, rows);
+      returned = clause.kind === 'return';
+    }
+
+    if (!returned) return [];
+
+    return rows.map((row) =>
+      Object.fromEntries(Object.entries(row).map(([key, value]) => [key, toOutput(value)])),
+    );
+  }
+
+  private runClause(clause: Clause, rows: Row[]): Row[] {
+    switch (clause.kind) {
+      case 'match':
+        return this.runMatch(clause, rows);
+      case 'unwind':
+        return rows.flatMap((row) => {
+          const value = this.evaluate(clause.expr, row);
+          if (value === null) return [];
+          const items = Array.isArray(value) ? value : [value];
+          return items.map((item) => ({ ...row, [clause.alias]: item }));
+        });
+      case 'with': {
+        const projected = this.project(rows, clause.projection);
+        return clause.where
+          ? projected.filter((row) => this.evaluate(clause.where!, row) === true)
+          : projected;
+      }
+      case 'return':
+        return this.project(rows, clause.projection);
+      case 'create':
+        return rows.map((row) =>
+          clause.patterns.reduce((current, pattern) => this.createPath(pattern, current), row),
+        );
+      case 'merge':
+        return rows.flatMap((row) => this.runMerge(clause, row));
+      case 'set':
+        for (const row of rows) this.applySetItems(clause.items, row);
+        return rows;
+      case 'remove':
+        for (const row of rows) this.applyRemoveItems(clause.items, row);
+        return rows;
+      case 'delete':
+        this.runDelete(
+          clause.exprs.flatMap((expr) => rows.map((row) => this.evaluate(expr, row))),
+          clause.detach,
+        );
+        return rows;
+    }
+  }
+
+  // ========================================
+  // Reading
+  // ========================================
+
+  private runMatch(clause: Extract<Clause, { kind: 'match' }>, rows: Row[]): Row[] {
+    const output: Row[] = [];
+
+    for (const row of rows) {
+      let bindings: Binding[] = [{ row, used: new Set() }];
+      for (const pattern of clause.patterns) {
+        bindings = bindings.flatMap((binding) => this.matchPath(pattern, binding));
+      }
+
+      let matched = bindings.map((binding) => binding.row);
+      if (clause.where) {
+        matched = matched.filter((candidate) => this.evaluate(clause.where!, candidate) === true);
+      }
+
+      if (matched.length === 0 && clause.optional) {
+        const nullRow = { ...row };
+        for (const variable of patternVariables(clause.patterns)) {
+          if (!(variable in nullRow)) nullRow[variable] = null;
+        }
+        output.push(nullRow);
+      } else {
+        output.push(...matched);
+      }
+    }
+
+    return output;
+  }
+
+  private matchPath(pattern: PathPattern, binding: Binding): Binding[] {
+    const reversed = this.shouldReverse(pattern, binding.row);
+    const path = reversed ? reversePath(pattern) : pattern;
+
+    const nodeProps = path.nodes.map((node) =>
+      this.evaluateProperties(node.properties, binding.row),
+    );
+    const relProps = path.rels.map((rel) => this.evaluateProperties(rel.properties, binding.row));
+    const results: Binding[] = [];
+
+    for (const node of this.startCandidates(path, binding.row, nodeProps[0], relProps[0])) {
+      if (!this.nodeMatches(path.nodes[0], node, nodeProps[0])) continue;
+      const row = bindVariable(binding.row, path.nodes[0].variable, node);
+      if (!row) continue;
+      this.extendPath(path, nodeProps, relProps, 0, node, row, binding.used, [node], [], results);
+    }
+
+    if (!pattern.variable) return results;
+
+    // Named paths were bound in traversal order; restore the declared order.
+    return reversed
+      ? results.map((result) => {
+          const value: GraphPath = result.row[pattern.variable!];
+          const path = new GraphPath(
+            [...value.nodes].reverse(),
+            [...value.relationships].reverse(),
+          );
+          return { ...result, row: { ...result.row, [pattern.variable!]: path } };
+        })
+      : results;
+  }
+
+  private shouldReverse(pattern: PathPattern, row: Row): boolean {
+    if (pattern.rels.length === 0) return false;
+    const isAnchored = (node: NodePattern) =>
+      (node.variable !== undefined && node.variable in row) ||
+      (node.properties?.kind === 'map' && node.properties.entries.some(([key]) => key === 'uuid'));
+    return !isAnchored(pattern.nodes[0]) && isAnchored(pattern.nodes[pattern.nodes.length - 1]);
+  }
+
+  private startCandidates(
+    path: PathPattern,
+    row: Row,
+    props: Record<string, any> | null,
+    firstRelProps: Record<string, any> | null,
+  ): Iterable<GraphNode> {
+    const first = path.nodes[0];
+
+    if (first.variable !== undefined && first.variable in row) {
+      const bound = row[first.variable];
+      if (bound === null) return [];
+      if (!(bound instanceof GraphNode)) {
+        throw new Error(`Variable \`${first.variable}\` is not a node`);
+      }
+      return this.store.isDeleted(bound) ? [] : [bound];
+    }
+
+    if (typeof props?.uuid === 'string') {
+      return this.store.nodesWithUuid(props.uuid);
+    }
+
+    if (first.labels.length > 0) {
+      const [group] = first.labels;
+      if (group.length === 1) return this.store.nodesWithLabel(group[0]);
+      const candidates = new Set<GraphNode>();
+      for (const label of group) {
+        for (const node of this.store.nodesWithLabel(label)) candidates.add(node);
+      }
+      return candidates;
+    }
+
+    if (path.rels.length > 0 && typeof firstRelProps?.uuid === 'string') {
+      const direction = path.rels[0].direction;
+      const candidates = new Set<GraphNode>();
+      for (const rel of this.store.relationshipsWithUuid(firstRelProps.uuid)) {
+        if (direction !== 'in') candidates.add(rel.start);
+        if (direction !== 'out') candidates.add(rel.end);
+      }
+      return candidates;
+    }
+
+    return this.store.allNodes();
+  }
+
+  private extendPath(
+    path: PathPattern,
+    nodeProps: (Record<string, any> | null)[],
+    relProps: (Record<string, any> | null)[],
+    step: number,
+    current: GraphNode,
+    row: Row,
+    used: Set<GraphRelationship>,
+    nodes: GraphNode[],
+    rels: GraphRelationship[],
+    results: Binding[],
+  ): void {
+    if (step === path.rels.length) {
+      const finalRow = path.variable
+        ? { ...row, [path.variable]: new GraphPath(nodes, rels) }
+        : row;
+      results.push({ row: finalRow, used });
+      return;
+    }
+
+    const relPattern = path.rels[step];
+    const nextPattern = path.nodes[step + 1];
+
+    for (const hop of this.expand(relPattern, relProps[step], current, row, used)) {
+      const end = hop.nodes.length > 0 ? hop.nodes[hop.nodes.length - 1] : current;
+      if (!this.nodeMatches(nextPattern, end, nodeProps[step + 1])) continue;
+
+      let nextRow: Row | null = row;
+      if (relPattern.variable !== undefined) {
+        const value = relPattern.length ? hop.rels : hop.rels[0];
+        nextRow = relPattern.variable in row ? row : { ...row, [relPattern.variable]: value };
+      }
+      nextRow = bindVariable(nextRow, nextPattern.variable, end);
+      if (!nextRow) continue;
+
+      const nextUsed = new Set(used);
+      for (const rel of hop.rels) nextUsed.add(rel);
+
+      this.extendPath(
+        path,
+        nodeProps,
+        relProps,
+        step + 1,
+        end,
+        nextRow,
+        nextUsed,
+        [...nodes, ...hop.nodes],
+        [...rels, ...hop.rels],
+        results,
+      );
+    }
+  }
+
+  private expand(
+    pattern: RelPattern,
+    props: Record<string, any> | null,
+    from: GraphNode,
+    row: Row,
+    used: Set<GraphRelationship>,
+  ): Hop[] {
+    const bound = pattern.variable !== undefined ? row[pattern.variable] : undefined;
+
+    if (!pattern.length) {
+      const hops: Hop[] = [];
+      for (const rel of this.adjacent(from, pattern.direction)) {
+        if (used.has(rel) || !this.relMatches(pattern, rel, props)) continue;
+        if (bound !== undefined && bound !== rel) continue;
+        hops.push({ rels: [rel], nodes: [this.traverse(rel, from, pattern.direction)] });
+      }
+      return hops;
+    }
+
+    const { min, max } = pattern.length;
+    const hops: Hop[] = [];
+    const walk = (node: GraphNode, rels: GraphRelationship[], nodes: GraphNode[]) => {
+      if (rels.length >= min) hops.push({ rels, nodes });
+      if (rels.length >= max) return;
+      for (const rel of this.adjacent(node, pattern.direction)) {
+        if (used.has(rel) || rels.includes(rel) || !this.relMatches(pattern, rel, props)) continue;
+        const next = this.traverse(rel, node, pattern.direction);
+        walk(next, [...rels, rel], [...nodes, next]);
+      }
+    };
+    walk(from, [], []);
+
+    if (Array.isArray(bound)) {
+      return hops.filter(
+        (hop) =>
+          hop.rels.length === bound.length && hop.rels.every((rel, index) => rel === bound[index]),
+      );
+    }
+    return hops;
+  }
+
+  private adjacent(
+    node: GraphNode,
+    direction: RelPattern['direction'],
+  ): Iterable<GraphRelationship> {
+    if (direction === 'out') return this.store.outgoingOf(node);
+    if (direction === 'in') return this.store.incomingOf(node);
+    return new Set([...this.store.outgoingOf(node), ...this.store.incomingOf(node)]);
+  }
+
+  private traverse(
+    rel: GraphRelationship,
+    from: GraphNode,
+    direction: RelPattern['direction'],
+  ): GraphNode {
+    if (direction === 'out') return rel.end;
+    if (direction === 'in') return rel.start;
+    return rel.other(from);
+  }
+
+  private nodeMatches(
+    pattern: NodePattern,
+    node: GraphNode,
+    props: Record<string, any> | null,
+  ): boolean {
+    for (const group of pattern.labels) {
+      if (!group.some((label) => node.labels.has(label))) return false;
+    }
+    return propertiesMatch(node.properties, props);
+  }
+
+  private relMatches(
+    pattern: RelPattern,
+    rel: GraphRelationship,
+    props: Record<string, any> | null,
+  ): boolean {
+    if (pattern.types.length > 0 && !pattern.types.includes(rel.type)) return false;
+    return propertiesMatch(rel.properties, props);
+  }
+
+  private evaluateProperties(expr: Expr | undefined, row: Row): Record<string, any> | null {
+    if (!expr) return null;
+    const value = this.evaluate(expr, row);
+    if (value === null) return null;
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('Pattern properties must be a map');
+    }
+    return value;
+  }
+
+  // ========================================
+  // Projection
+  // ========================================
+
+  private project(rows: Row[], projection: Projection): Row[] {
+    const aggregating = projection.items.some((item) => containsAggregate(item.expr));
+    let entries: { output: Row; scope: Row }[];
+
+    if (aggregating) {
+      const keyItems = projection.items.filter((item) => !containsAggregate(item.expr));
+      const groups = new Map<string, { keys: Row; rows: Row[] }>();
+
+      for (const row of rows) {
+        const keys: Row = {};
+        for (const item of keyItems) keys[item.alias] = this.evaluate(item.expr, row);
+        const groupKey = valueKey(keyItems.map((item) => keys[item.alias]));
+        const group = groups.get(groupKey);
+        if (group) {
+          group.rows.push(row);
+        } else {
+          groups.set(groupKey, { keys, rows: [row] });
+        }
+      }
+
+      if (groups.size === 0 && keyItems.length === 0) {
+        groups.set('', { keys: {}, rows: [] });
+      }
+
+      entries = [...groups.values()].map((group) => {
+        const output: Row = {};
+        for (const item of projection.items) {
+          output[item.alias] = containsAggregate(item.expr)
+            ? this.evaluateAggregate(item.expr, group.rows)
+            : group.keys[item.alias];
+        }
+        return { output, scope: output };
+      });
+    } else {
+      entries = rows.map((row) => {
+        const output: Row = projection.star ? { ...row } : {};
+        for (const item of projection.items) output[item.alias] = this.evaluate(item.expr, row);
+        return { output, scope: { ...row, ...output } };
+      });
+    }
+
+    if (projection.distinct) {
+      const seen = new Set<string>();
+      entries = entries.filter((entry) => {
+        const key = valueKey(Object.values(entry.output));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    if (projection.orderBy.length > 0) {
+      const keyed = entries.map((entry) => ({
+        entry,
+        keys: projection.orderBy.map((item) => this.evaluate(item.expr, entry.scope)),
+      }));
+      keyed.sort((a, b) => {
+        for (let i = 0; i < projection.orderBy.length; i++) {
+          const order = orderCompare(a.keys[i], b.keys[i]);
+          if (order !== 0) return projection.orderBy[i].descending ? -order : order;
+        }
+        return 0;
+      });
+      entries = keyed.map((item) => item.entry);
+    }
+
+    let output = entries.map((entry) => entry.output);
+
+    if (projection.skip) {
+      output = output.slice(this.evaluateCount(projection.skip, 'SKIP'));
+    }
+    if (projection.limit) {
+      output = output.slice(0, this.evaluateCount(projection.limit, 'LIMIT'));
+    }
+
+    return output;
+  }
+
+  private evaluateCount(expr: Expr, clause: string): number {
+    const value = this.evaluate(expr, {});
+    if (typeof value !== 'number' || value < 0) {
+      throw new Error(`${clause} must be a non-negative number, got ${value}`);
+    }
+    return Math.floor(value);
+  }
+
+  private evaluateAggregate(expr: Expr, rows: Row[]): any {
+    if (expr.kind === 'call' && isAggregateFunction(expr.name)) {
+      return this.aggregate(expr, rows);
+    }
+    // Substitute every aggregate with its value, then evaluate the remaining
+    // expression against the group's first row (grouping keys are constant within it).
+    const substituted = mapExpr(expr, (node) =>
+      node.kind === 'call' && isAggregateFunction(node.name)
+        ? { kind: 'literal', value: this.aggregate(node, rows) }
+        : undefined,
+    );
+    return this.evaluate(substituted, rows[0] ?? {});
+  }
+
+  private aggregate(expr: Extract<Expr, { kind: 'call' }>, rows: Row[]): any {
+    if (expr.star) return rows.length;
+
+    let values = rows
+      .map((row) => this.evaluate(expr.args[0], row))
+      .filter((value) => value !== null);
+
+    if (expr.distinct) {
+      const seen = new Set<string>();
+      values = values.filter((value) => {
+        const key = valueKey(value);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    switch (expr.name) {
+      case 'count':
+        return values.length;
+      case 'collect':
+        return values;
+      case 'sum':
+        return values.reduce((total, value) => total + value, 0);
+      case 'avg':
+        return values.length === 0
+          ? null
+          : values.reduce((total, value) => total + value, 0) / values.length;
+      case 'min':
+        return values.length === 0
+          ? null
+          : values.reduce((best, value) => (orderCompare(value, best) < 0 ? value : best));
+      case 'max':
+        return values.length === 0
+          ? null
+          : values.reduce((best, value) => (orderCompare(value, best) > 0 ? value : best));
+      default:
+        throw new Error(`Unknown aggregate function '${expr.name}'`);
+    }
+  }
+
+  // ========================================
+  // Writing
+  // ========================================
+
+  private createPath(pattern: PathPattern, row: Row): Row {
+    let current = { ...row };
+    const nodes: GraphNode[] = [];
+    const rels: GraphRelationship[] = [];
+
+    for (const nodePattern of pattern.nodes) {
+      const variable = nodePattern.variable;
+      let node: GraphNode;
+
+      if (variable !== undefined && variable in current) {
+        node = current[variable];
+        if (!(node instanceof GraphNode)) {
+          throw new Error(`Cannot create a relationship to \`${variable}\`: not a node`);
+        }
+      } else {
+        if (nodePattern.labels.some((group) => group.length > 1)) {
+          throw new Error('Label alternatives are not allowed when creating nodes');
+        }
+        node = this.store.createNode(
+          nodePattern.labels.map((group) => group[0]),
+          this.evaluateProperties(nodePattern.properties, current) ?? {},
+        );
+        if (variable !== undefined) current[variable] = node;
+      }
+
+      nodes.push(node);
+    }
+
+    pattern.rels.forEach((relPattern, index) => {
+      if (relPattern.types.length !== 1) {
+        throw new Error('Exactly one relationship type must be specified for CREATE');
+      }
+      if (relPattern.direction === 'both' || relPattern.length) {
+        throw new Error('Only directed single-hop relationships can be created');
+      }
+
+      const [start, end] =
+        relPattern.direction === 'out'
+          ? [nodes[index], nodes[index + 1]]
+          : [nodes[index + 1], nodes[index]];
+      const rel = this.store.createRelationship(
+        relPattern.types[0],
+        start,
+        end,
+        this.evaluateProperties(relPattern.properties, current) ?? {},
+      );
+      if (relPattern.variable !== undefined) current[relPattern.variable] = rel;
+      rels.push(rel);
+    });
+
+    if (pattern.variable) {
+      current = { ...current, [pattern.variable]: new GraphPath(nodes, rels) };
+    }
+
+    return current;
+  }
+
+  private runMerge(clause: Extract<Clause, { kind: 'merge' }>, row: Row): Row[] {
+    const matches = this.matchPath(clause.pattern, { row, used: new Set() });
+
+    if (matches.length > 0) {
+      return matches.map((match) => {
+        this.applySetItems(clause.onMatch, match.row);
+        return match.row;
+      });
+    }
+
+    const created = this.createPath(clause.pattern, row);
+    this.applySetItems(clause.onCreate, created);
+    return [created];
+  }
+
+  private applySetItems(items: SetItem[], row: Row): void {
+    for (const item of items) {
+      switch (item.kind) {
+        case 'property': {
+          const target = this.evaluate(item.target, row);
+          if (target === null) break;
+          assertEntity(target);
+          this.store.setProperty(target, item.key, toPropertyValue(this.evaluate(item.value, row)));
+          break;
+        }
+        case 'replace':
+        case 'merge': {
+          const target = this.evaluate({ kind: 'variable', name: item.variable }, row);
+          if (target === null) break;
+          assertEntity(target);
+          let value = this.evaluate(item.value, row);
+          if (value instanceof GraphNode || value instanceof GraphRelationship) {
+            value = { ...value.properties };
+          }
+          if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+            throw new Error(`SET ${item.variable} expects a map`);
+          }
+          if (item.kind === 'replace') {
+            for (const key of Object.keys(target.properties)) {
+              if (!(key in value)) this.store.setProperty(target, key, null);
+            }
+          }
+          for (const [key, propertyValue] of Object.entries(value)) {
+            this.store.setProperty(target, key, toPropertyValue(propertyValue));
+          }
+          break;
+        }
+        case 'labels': {
+          const target = this.evaluate({ kind: 'variable', name: item.variable }, row);
+          if (target === null) break;
+          if (!(target instanceof GraphNode)) throw new Error('Labels can only be set on nodes');
+          for (const label of item.labels) this.store.addLabel(target, label);
+          break;
+        }
+      }
+    }
+  }
+
+  private applyRemoveItems(items: RemoveItem[], row: Row): void {
+    for (const item of items) {
+      if (item.kind === 'property') {
+        const target = this.evaluate(item.target, row);
+        if (target === null) continue;
+        assertEntity(target);
+        this.store.setProperty(target, item.key, null);
+      } else {
+        const target = this.evaluate({ kind: 'variable', name: item.variable }, row);
+        if (target instanceof GraphNode) {
+          for (const label of item.labels) this.store.removeLabel(target, label);
+        }
+      }
+    }
+  }
+
+  private runDelete(values: any[], detach: boolean): void {
+    const nodes = new Set<GraphNode>();
+    const rels = new Set<GraphRelationship>();
+
+    const collect = (value: any) => {
+      if (value === null) return;
+      if (value instanceof GraphNode) nodes.add(value);
+      else if (value instanceof GraphRelationship) rels.add(value);
+      else if (value instanceof GraphPath) {
+        value.nodes.forEach(collect);
+        value.relationships.forEach(collect);
+      } else if (Array.isArray(value)) value.forEach(collect);
+      else throw new Error('DELETE expects nodes, relationships or paths');
+    };
+    values.forEach(collect);
+
+    for (const rel of rels) this.store.deleteRelationship(rel);
+    for (const node of nodes) this.store.deleteNode(node, detach);
+  }
+
+  // ========================================
+  // Expressions
+  // ========================================
+
+  private evaluate(expr: Expr, row: Row): any {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.value;
+      case 'param':
+        if (!(expr.name in this.params)) {
+          throw new Error(`Expected parameter(s): ${expr.name}`);
+        }
+        return this.params[expr.name] ?? null;
+      case 'variable':
+        if (!(expr.name in row)) {
+          throw new Error(`Variable \`${expr.name}\` not defined`);
+        }
+        return row[expr.name];
+      case 'property':
+        return propertyOf(this.evaluate(expr.object, row), expr.key);
+      case 'index': {
+        const target = this.evaluate(expr.object, row);
+        const index = this.evaluate(expr.index, row);
+        if (target === null || index === null) return null;
+        if (Array.isArray(target)) {
+          const position = index < 0 ? target.length + index : index;
+          return target[position] ?? null;
+        }
+        return propertyOf(target, String(index));
+      }
+      case 'slice': {
+        const target = this.evaluate(expr.object, row);
+        if (target === null) return null;
+        if (!Array.isArray(target)) throw new Error('Slicing requires a list');
+        const from = expr.from ? this.evaluate(expr.from, row) : 0;
+        const to = expr.to ? this.evaluate(expr.to, row) : target.length;
+        if (from === null || to === null) return null;
+        return target.slice(from, to);
+      }
+      case 'list':
+        return expr.items.map((item) => this.evaluate(item, row));
+      case 'map':
+        return Object.fromEntries(
+          expr.entries.map(([key, value]) => [key, this.evaluate(value, row)]),
+        );
+      case 'call':
+        if (isAggregateFunction(expr.name)) {
+          throw new Error(`Invalid use of aggregating function ${expr.name}(...) in this context`);
+        }
+        return callFunction(
+          expr.name,
+          expr.args.map((arg) => this.evaluate(arg, row)),
+        );
+      case 'binary':
+        return this.evaluateBinary(expr, row);
+      case 'unary': {
+        const value = this.evaluate(expr.operand, row);
+        if (value === null) return null;
+        if (expr.op === 'NOT') return !value;
+        return expr.op === '-' ? -value : value;
+      }
+      case 'isNull': {
+        const isNull = this.evaluate(expr.operand, row) === null;
+        return expr.negated ? !isNull : isNull;
+      }
+      case 'hasLabels': {
+        const value = this.evaluate(expr.operand, row);
+        if (value === null) return null;
+        if (!(value instanceof GraphNode)) return false;
+        return expr.labels.every((label) => value.labels.has(label));
+      }
+      case 'case': {
+        const subject = expr.subject ? this.evaluate(expr.subject, row) : undefined;
+        for (const [when, then] of expr.whens) {
+          const matched = expr.subject
+            ? cypherEquals(subject, this.evaluate(when, row)) === true
+            : this.evaluate(when, row) === true;
+          if (matched) return this.evaluate(then, row);
+        }
+        return expr.otherwise ? this.evaluate(expr.otherwise, row) : null;
+      }
+      case 'reduce': {
+        const list = this.evaluate(expr.list, row);
+        if (list === null) return null;
+        let accumulator = this.evaluate(expr.init, row);
+        for (const item of list) {
+          accumulator = this.evaluate(expr.body, {
+            ...row,
+            [expr.accumulator]: accumulator,
+            [expr.variable]: item,
+          });
+        }
+        return accumulator;
+      }
+      case 'comprehension': {
+        const list = this.evaluate(expr.list, row);
+        if (list === null) return null;
+        const result: any[] = [];
+        for (const item of list) {
+          const scope = { ...row, [expr.variable]: item };
+          if (expr.where && this.evaluate(expr.where, scope) !== true) continue;
+          result.push(expr.body ? this.evaluate(expr.body, scope) : item);
+        }
+        return result;
+      }
+      case 'quantifier': {
+        const list = this.evaluate(expr.list, row);
+        if (list === null) return null;
+        const matches = (list as any[]).filter(
+          (item) => this.evaluate(expr.where, { ...row, [expr.variable]: item }) === true,
+        ).length;
+        switch (expr.quantifier) {
+          case 'any':
+            return matches > 0;
+          case 'all':
+            return matches === list.length;
+          case 'none':
+            return matches === 0;
+          case 'single':
+            return matches === 1;
+        }
+      }
+    }
+  }
+
+  private evaluateBinary(expr: Extract<Expr, { kind: 'binary' }>, row: Row): any {
+    if (expr.op === 'AND' || expr.op === 'OR' || expr.op === 'XOR') {
+      const left = this.evaluate(expr.left, row);
+      if (expr.op === 'AND' && left === false) return false;
+      if (expr.op === 'OR' && left === true) return true;
+      const right = this.evaluate(expr.right, row);
+      if (expr.op === 'AND') {
+        if (right === false) return false;
+        return left === null || right === null ? null : true;
+      }
+      if (expr.op === 'OR') {
+        if (right === true) return true;
+        return left === null || right === null ? null : false;
+      }
+      return left === null || right === null ? null : Boolean(left) !== Boolean(right);
+    }
+
+    const left = this.evaluate(expr.left, row);
+    const right = this.evaluate(expr.right, row);
+
+    switch (expr.op) {
+      case '=':
+        return cypherEquals(left, right);
+      case '<>': {
+        const equal = cypherEquals(left, right);
+        return equal === null ? null : !equal;
+      }
+      case '<':
+      case '>':
+      case '<=':
+      case '>=': {
+        const order = compareValues(left, right);
+        if (order === null) return null;
+        if (expr.op === '<') return order < 0;
+        if (expr.op === '>') return order > 0;
+        if (expr.op === '<=') return order <= 0;
+        return order >= 0;
+      }
+      case 'IN': {
+        if (right === null) return null;
+        if (!Array.isArray(right)) throw new Error('IN expects a list');
+        let sawNull = left === null;
+        for (const item of right) {
+          const equal = cypherEquals(left, item);
+          if (equal === true) return true;
+          if (equal === null) sawNull = true;
+        }
+        return sawNull ? null : false;
+      }
+      case 'CONTAINS':
+      case 'STARTS WITH':
+      case 'ENDS WITH':
+        if (typeof left !== 'string' || typeof right !== 'string') return null;
+        if (expr.op === 'CONTAINS') return left.includes(right);
+        return expr.op === 'STARTS WITH' ? left.startsWith(right) : left.endsWith(right);
+      case '=~':
+        if (typeof left !== 'string' || typeof right !== 'string') return null;
+        return new RegExp(`^(?:${right})$`).test(left);
+      case '+':
+        if (left === null || right === null) return null;
+        if (Array.isArray(left)) return left.concat(right);
+        if (Array.isArray(right)) return [left, ...right];
+        if (typeof left === 'string' || typeof right === 'string') {
+          return toCypherString(left) + toCypherString(right);
+        }
+        return left + right;
+      case '-':
+        return left === null || right === null ? null : left - right;
+      case '*':
+        return left === null || right === null ? null : left * right;
+      case '/':
+        return left === null || right === null ? null : left / right;
+      case '%':
+        return left === null || right === null ? null : left % right;
+      case '^':
+        return left === null || right === null ? null : Math.pow(left, right);
+      default:
+        throw new Error(`Unsupported operator ${expr.op}`);
+    }
+  }
+}
+
+// ========================================
+// Helpers
+// ========================================
+
+function bindVariable(row: Row, variable: string | undefined, node: GraphNode): Row | null {
+  if (variable === undefined) return row;
+  if (variable in row) return row[variable] === node ? row : null;
+  return { ...row, [variable]: node };
+}
+
+function propertiesMatch(
+  properties: Record<string, any>,
+  expected: Record<string, any> | null,
+): boolean {
+  if (!expected) return true;
+  for (const [key, value] of Object.entries(expected)) {
+    if (cypherEquals(properties[key] ?? null, value) !== true) return false;
+  }
+  return true;
+}
+
+function patternVariables(patterns: PathPattern[]): string[] {
+  const variables: string[] = [];
+  for (const pattern of patterns) {
+    if (pattern.variable) variables.push(pattern.variable);
+    for (const node of pattern.nodes) if (node.variable) variables.push(node.variable);
+    for (const rel of pattern.rels) if (rel.variable) variables.push(rel.variable);
+  }
+  return variables;
+}
+
+function reversePath(pattern: PathPattern): PathPattern {
+  const flip = { out: 'in', in: 'out', both: 'both' } as const;
+  return {
+    variable: pattern.variable,
+    nodes: [...pattern.nodes].reverse(),
+    rels: [...pattern.rels].reverse().map((rel) => ({ ...rel, direction: flip[rel.direction] })),
+  };
+}
+
+function containsAggregate(expr: Expr): boolean {
+  let found = false;
+  mapExpr(expr, (node) => {
+    if (node.kind === 'call' && isAggregateFunction(node.name)) found = true;
+    return undefined;
+  });
+  return found;
+}
+
+/**
+ * Rebuilds an expression tree, replacing any node for which `replace` returns a value.
+ */
+function mapExpr(expr: Expr, replace: (node: Expr) => Expr | undefined): Expr {
+  const replaced = replace(expr);
+  if (replaced) return replaced;
+
+  const map = (child: Expr) => mapExpr(child, replace);
+  switch (expr.kind) {
+    case 'property':
+      return { ...expr, object: map(expr.object) };
+    case 'index':
+      return { ...expr, object: map(expr.object), index: map(expr.index) };
+    case 'slice':
+      return {
+        ...expr,
+        object: map(expr.object),
+        from: expr.from && map(expr.from),
+        to: expr.to && map(expr.to),
+      };
+    case 'list':
+      return { ...expr, items: expr.items.map(map) };
+    case 'map':
+      return { ...expr, entries: expr.entries.map(([key, value]) => [key, map(value)]) };
+    case 'call':
+      return { ...expr, args: expr.args.map(map) };
+    case 'binary':
+      return { ...expr, left: map(expr.left), right: map(expr.right) };
+    case 'unary':
+    case 'isNull':
+    case 'hasLabels':
+      return { ...expr, operand: map(expr.operand) };
+    case 'case':
+      return {
+        ...expr,
+        subject: expr.subject && map(expr.subject),
+        whens: expr.whens.map(([when, then]) => [map(when), map(then)]),
+        otherwise: expr.otherwise && map(expr.otherwise),
+      };
+    case 'reduce':
+      return { ...expr, init: map(expr.init), list: map(expr.list), body: map(expr.body) };
+    case 'comprehension':
+      return {
+        ...expr,
+        list: map(expr.list),
+        where: expr.where && map(expr.where),
+        body: expr.body && map(expr.body),
+      };
+    case 'quantifier':
+      return { ...expr, list: map(expr.list), where: map(expr.where) };
+    default:
+      return expr;
+  }
+}
+
+function assertEntity(value: any): asserts value is GraphNode | GraphRelationship {
+  if (!(value instanceof GraphNode) && !(value instanceof GraphRelationship)) {
+    throw new Error('Properties can only be set on nodes and relationships');
+  }
+}
+
+function toPropertyValue(value: any): any {
+  if (value instanceof GraphNode || value instanceof GraphRelationship) {
+    throw new Error('Nodes and relationships cannot be stored as property values');
+  }
+  return value;
+}
+
+function propertyOf(target: any, key: string): any {
+  if (target === null || target === undefined) return null;
+  if (target instanceof GraphNode || target instanceof GraphRelationship) {
+    return target.properties[key] ?? null;
+  }
+  if (typeof target === 'object' && !Array.isArray(target) && !(target instanceof Date)) {
+    return target[key] ?? null;
+  }
+  throw new Error(`Cannot access property '${key}' of a non-map value`);
+}
+
+function cypherEquals(a: any, b: any): boolean | null {
+  if (a === null || a === undefined || b === null || b === undefined) return null;
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    let sawNull = false;
+    for (let i = 0; i < a.length; i++) {
+      const equal = cypherEquals(a[i], b[i]);
+      if (equal === false) return false;
+      if (equal === null) sawNull = true;
+    }
+    return sawNull ? null : true;
+  }
+  if (isPlainMap(a) && isPlainMap(b)) {
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every((key) => key in b && cypherEquals(a[key], b[key]) === true);
+  }
+  return a === b;
+}
+
+function compareValues(a: any, b: any): number | null {
+  if (a === null || b === null) return null;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  return null;
+}
+
+/** Total ordering used by ORDER BY, min and max; nulls sort last. */
+function orderCompare(a: any, b: any): number {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) return aNull === bNull ? 0 : aNull ? 1 : -1;
+
+  const comparable = compareValues(a, b);
+  if (comparable !== null) return comparable;
+
+  const rank = (value: any) =>
+    isPlainMap(value)
+      ? 0
+      : value instanceof GraphNode
+        ? 1
+        : value instanceof GraphRelationship
+          ? 2
+          : Array.isArray(value)
+            ? 3
+            : value instanceof GraphPath
+              ? 4
+              : value instanceof Date
+                ? 5
+                : typeof value === 'string'
+                  ? 6
+                  : typeof value === 'boolean'
+                    ? 7
+                    : 8;
+
+  const rankDifference = rank(a) - rank(b);
+  if (rankDifference !== 0) return rankDifference;
+
+  if (Array.isArray(a)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const order = orderCompare(a[i], b[i]);
+      if (order !== 0) return order;
+    }
+    return a.length - b.length;
+  }
+  if (a instanceof GraphNode || a instanceof GraphRelationship) return a.id - b.id;
+  return 0;
+}
+
+function isPlainMap(value: any): value is Record<string, any> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof GraphNode) &&
+    !(value instanceof GraphRelationship) &&
+    !(value instanceof GraphPath)
+  );
+}
+
+/** Stable string key used for grouping and DISTINCT. */
+function valueKey(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof GraphNode) return `node:${value.id}`;
+  if (value instanceof GraphRelationship) return `rel:${value.id}`;
+  if (value instanceof GraphPath) {
+    return `path:${value.relationships.map((rel) => rel.id).join(',')}:${value.nodes[0]?.id}`;
+  }
+  if (value instanceof Date) return `date:${value.getTime()}`;
+  if (Array.isArray(value)) return `[${value.map(valueKey).join(',')}]`;
+  if (typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${key}:${valueKey(value[key])}`)
+      .join(',')}}`;
+  }
+  return `${typeof value}:${String(value)}`;
+}
+
+function toCypherString(value: any): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function copyProperties(properties: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(properties).map(([key, value]) => [key, toOutput(value)]),
+  );
+}
+
+function toOutput(value: any): any {
+  if (value === null || value === undefined) return null;
+
+  if (value instanceof GraphNode) {
+    const output: Record<string, any> = {
+      ...copyProperties(value.properties),
+      labels: [...value.labels],
+    };
+    Object.defineProperty(output, 'properties', { value: copyProperties(value.properties) });
+    return output;
+  }
+
+  if (value instanceof GraphRelationship) {
+    const output = copyProperties(value.properties);
+    Object.defineProperty(output, 'properties', { value: copyProperties(value.properties) });
+    Object.defineProperty(output, 'type', { value: value.type });
+    return output;
+  }
+
+  if (value instanceof GraphPath) {
+    return {
+      nodes: value.nodes.map(toOutput),
+      relationships: value.relationships.map(toOutput),
+    };
+  }
+
+  if (value instanceof Date) return new Date(value.getTime());
+  if (Array.isArray(value)) return value.map(toOutput);
+  if (typeof value === 'object') return copyProperties(value);
+  return value;
+}
+
+function callFunction(name: string, args: any[]): any {
+  const [first, second, third] = args;
+
+  switch (name) {
+    case 'coalesce':
+      return args.find((arg) => arg !== null) ?? null;
+    case 'exists':
+      return first !== null && first !== undefined;
+    case 'datetime':
+      if (args.length === 0) return new Date();
+      if (first === null) return null;
+      if (first instanceof Date) return new Date(first.getTime());
+      if (typeof first === 'string' || typeof first === 'number') {
+        const date = new Date(first);
+        if (isNaN(date.getTime())) throw new Error(`Invalid datetime: ${first}`);
+        return date;
+      }
+      throw new Error('datetime() expects a string');
+    case 'timestamp':
+      return Date.now();
+    case 'randomuuid':
+      return randomUUID();
+    case 'rand':
+      return Math.random();
+  }
+
+  if (first === null || first === undefined) return null;
+
+  switch (name) {
+    case 'labels':
+      if (!(first instanceof GraphNode)) throw new Error('labels() expects a node');
+      return [...first.labels];
+    case 'type':
+      if (!(first instanceof GraphRelationship)) throw new Error('type() expects a relationship');
+      return first.type;
+    case 'id':
+      return first.id;
+    case 'elementid':
+      return String(first.id);
+    case 'startnode':
+      return first.start;
+    case 'endnode':
+      return first.end;
+    case 'keys':
+      return Object.keys(
+        first instanceof GraphNode || first instanceof GraphRelationship ? first.properties : first,
+      );
+    case 'properties':
+      return first instanceof GraphNode || first instanceof GraphRelationship
+        ? { ...first.properties }
+        : { ...first };
+    case 'size':
+      return first.length;
+    case 'length':
+      return first instanceof GraphPath ? first.relationships.length : first.length;
+    case 'nodes':
+      return first.nodes;
+    case 'relationships':
+      return first.relationships;
+    case 'head':
+      return first[0] ?? null;
+    case 'last':
+      return first[first.length - 1] ?? null;
+    case 'tail':
+      return first.slice(1);
+    case 'reverse':
+      return typeof first === 'string' ? [...first].reverse().join('') : [...first].reverse();
+    case 'range': {
+      const step = third ?? 1;
+      if (step === 0) throw new Error('range() step cannot be zero');
+      const result: number[] = [];
+      for (let i = first; step > 0 ? i <= second : i >= second; i += step) result.push(i);
+      return result;
+    }
+    case 'tolower':
+      return String(first).toLowerCase();
+    case 'toupper':
+      return String(first).toUpperCase();
+    case 'trim':
+      return String(first).trim();
+    case 'ltrim':
+      return String(first).trimStart();
+    case 'rtrim':
+      return String(first).trimEnd();
+    case 'replace':
+      return second === null || third === null ? null : String(first).split(second).join(third);
+    case 'split':
+      return second === null ? null : String(first).split(second);
+    case 'substring':
+      return third === undefined
+        ? String(first).substring(second)
+        : String(first).substring(second, second + third);
+    case 'left':
+      return String(first).substring(0, second);
+    case 'right':
+      return String(first).substring(String(first).length - second);
+    case 'tostring':
+      return toCypherString(first);
+    case 'tointeger': {
+      const value = typeof first === 'number' ? Math.trunc(first) : parseInt(first, 10);
+      return isNaN(value) ? null : value;
+    }
+    case 'tofloat': {
+      const value = Number(first);
+      return isNaN(value) ? null : value;
+    }
+    case 'toboolean':
+      if (typeof first === 'boolean') return first;
+      if (String(first).toLowerCase() === 'true') return true;
+      if (String(first).toLowerCase() === 'false') return false;
+      return null;
+    case 'abs':
+      return Math.abs(first);
+    case 'ceil':
+      return Math.ceil(first);
+    case 'floor':
+      return Math.floor(first);
+    case 'round':
+      return Math.round(first);
+    case 'sign':
+      return Math.sign(first);
+    case 'sqrt':
+      return Math.sqrt(first);
+    case 'exp':
+      return Math.exp(first);
+    case 'log':
+      return Math.log(first);
+    case 'log10':
+      return Math.log10(first);
+    default:
+      throw new Error(`Unknown function '${name}'`);
+  }
+}
@@ -0,0 +1,983 @@
+/**
+ * Parser for the subset of Cypher emitted by Graphzep itself.
+ *
+ * The grammar covers reading and writing clauses (MATCH, OPTIONAL MATCH, WHERE,
+ * WITH, UNWIND, RETURN, CREATE, MERGE, SET, REMOVE, DELETE) and the expression
+ * forms used in the library's queries. It is consumed by the in-memory driver;
+ * anything outside the subset raises a `CypherSyntaxError`.
+ */
+
+export class CypherSyntaxError extends Error {
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} (at offset ${position})`);
+    this.name = 'CypherSyntaxError';
+  }
+}
+
+// ========================================
+// AST
+// ========================================
+
+export type Expr =
+  | { kind: 'literal'; value: any }
+  | { kind: 'param'; name: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'property'; object: Expr; key: string }
+  | { kind: 'index'; object: Expr; index: Expr }
+  | { kind: 'slice'; object: Expr; from?: Expr; to?: Expr }
+  | { kind: 'list'; items: Expr[] }
+  | { kind: 'map'; entries: [string, Expr][] }
+  | { kind: 'call'; name: string; args: Expr[]; distinct: boolean; star: boolean }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'unary'; op: 'NOT' | '-' | '+'; operand: Expr }
+  | { kind: 'isNull'; operand: Expr; negated: boolean }
+  | { kind: 'hasLabels'; operand: Expr; labels: string[] }
+  | { kind: 'case'; subject?: Expr; whens: [Expr, Expr][]; otherwise?: Expr }
+  | {
+      kind: 'reduce';
+      accumulator: string;
+      init: Expr;
+      variable: string;
+      list: Expr;
+      body: Expr;
+    }
+  | { kind: 'comprehension'; variable: string; list: Expr; where?: Expr; body?: Expr }
+  | {
+      kind: 'quantifier';
+      quantifier: 'any' | 'all' | 'none' | 'single';
+      variable: string;
+      list: Expr;
+      where: Expr;
+    };
+
+export interface NodePattern {
+  variable?: string;
+  /** Conjunction of label groups; each group matches if the node has any of its labels. */
+  labels: string[][];
+  properties?: Expr;
+}
+
+export interface RelPattern {
+  variable?: string;
+  types: string[];
+  properties?: Expr;
+  direction: 'out' | 'in' | 'both';
+  length?: { min: number; max: number };
+}
+
+export interface PathPattern {
+  variable?: string;
+  nodes: NodePattern[];
+  rels: RelPattern[];
+}
+
+export interface ProjectionItem {
+  expr: Expr;
+  alias: string;
+}
+
+export interface SortItem {
+  expr: Expr;
+  descending: boolean;
+}
+
+export interface Projection {
+  distinct: boolean;
+  star: boolean;
+  items: ProjectionItem[];
+  orderBy: SortItem[];
+  skip?: Expr;
+  limit?: Expr;
+}
+
+export type SetItem =
+  | { kind: 'property'; target: Expr; key: string; value: Expr }
+  | { kind: 'replace'; variable: string; value: Expr }
+  | { kind: 'merge'; variable: string; value: Expr }
+  | { kind: 'labels'; variable: string; labels: string[] };
+
+export type RemoveItem =
+  | { kind: 'property'; target: Expr; key: string }
+  | { kind: 'labels'; variable: string; labels: string[] };
+
+export type Clause =
+  | { kind: 'match'; optional: boolean; patterns: PathPattern[]; where?: Expr }
+  | { kind: 'unwind'; expr: Expr; alias: string }
+  | { kind: 'with'; projection: Projection; where?: Expr }
+  | { kind: 'return'; projection: Projection }
+  | { kind: 'create'; patterns: PathPattern[] }
+  | { kind: 'merge'; pattern: PathPattern; onCreate: SetItem[]; onMatch: SetItem[] }
+  | { kind: 'set'; items: SetItem[] }
+  | { kind: 'remove'; items: RemoveItem[] }
+  | { kind: 'delete'; detach: boolean; exprs: Expr[] };
+
+export interface CypherQuery {
+  clauses: Clause[];
+}
+
+// ========================================
+// Lexer
+// ========================================
+
+type TokenType = 'ident' | 'number' | 'string' | 'param' | 'punct' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+  /** Backtick-quoted identifiers are never treated as keywords. */
+  quoted?: boolean;
+}
+
+const MULTI_CHAR_PUNCT = ['<>', '!=', '<=', '>=', '=~', '+=', '..'];
+const SINGLE_CHAR_PUNCT = '()[]{},.:|;+-*/%^=<>';
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+
+    if (source.startsWith('/*', i)) {
+      const close = source.indexOf('*/', i + 2);
+      i = close === -1 ? source.length : close + 2;
+      continue;
+    }
+
+    const start = i;
+
+    if (/[A-Za-z_]/.test(ch)) {
+      while (i < source.length && /[A-Za-z0-9_]/.test(source[i])) i++;
+      tokens.push({ type: 'ident', value: source.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (ch === '`') {
+      const close = source.indexOf('`', i + 1);
+      if (close === -1) throw new CypherSyntaxError('Unterminated quoted identifier', start);
+      tokens.push({
+        type: 'ident',
+        value: source.slice(i + 1, close),
+        start,
+        end: close + 1,
+        quoted: true,
+      });
+      i = close + 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch)) {
+      while (i < source.length && /[0-9]/.test(source[i])) i++;
+      if (source[i] === '.' && /[0-9]/.test(source[i + 1] ?? '')) {
+        i++;
+        while (i < source.length && /[0-9]/.test(source[i])) i++;
+      }
+      if (/[eE]/.test(source[i] ?? '') && /[-+0-9]/.test(source[i + 1] ?? '')) {
+        i += 2;
+        while (i < source.length && /[0-9]/.test(source[i])) i++;
+      }
+      tokens.push({ type: 'number', value: source.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const next = source[i + 1];
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next === 'r' ? '\r' : next;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) throw new CypherSyntaxError('Unterminated string literal', start);
+      i++;
+      tokens.push({ type: 'string', value, start, end: i });
+      continue;
+    }
+
+    if (ch === '$') {
+      i++;
+      while (i < source.length && /[A-Za-z0-9_]/.test(source[i])) i++;
+      if (i === start + 1) throw new CypherSyntaxError('Expected parameter name', start);
+      tokens.push({ type: 'param', value: source.slice(start + 1, i), start, end: i });
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (MULTI_CHAR_PUNCT.includes(two)) {
+      tokens.push({ type: 'punct', value: two, start, end: i + 2 });
+      i += 2;
+      continue;
+    }
+
+    if (SINGLE_CHAR_PUNCT.includes(ch)) {
+      tokens.push({ type: 'punct', value: ch, start, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new CypherSyntaxError(`Unexpected character '${ch}'`, start);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ========================================
+// Parser
+// ========================================
+
+const CLAUSE_KEYWORDS = new Set([
+  'MATCH',
+  'OPTIONAL',
+  'WHERE',
+  'WITH',
+  'UNWIND',
+  'RETURN',
+  'CREATE',
+  'MERGE',
+  'SET',
+  'REMOVE',
+  'DELETE',
+  'DETACH',
+  'ORDER',
+  'SKIP',
+  'LIMIT',
+  'ON',
+  'UNION',
+  'CALL',
+]);
+
+const AGGREGATE_FUNCTIONS = new Set(['count', 'collect', 'sum', 'avg', 'min', 'max']);
+
+export function isAggregateFunction(name: string): boolean {
+  return AGGREGATE_FUNCTIONS.has(name.toLowerCase());
+}
+
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parseQuery(): CypherQuery {
+    const clauses: Clause[] = [];
+
+    while (!this.atEnd()) {
+      if (this.acceptPunct(';')) continue;
+      clauses.push(this.parseClause());
+    }
+
+    if (clauses.length === 0) {
+      throw new CypherSyntaxError('Empty query');
+    }
+
+    return { clauses };
+  }
+
+  // ---------- token helpers ----------
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  private atEnd(): boolean {
+    return this.peek().type === 'eof';
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'ident' && !token.quoted && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(keyword)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      this.fail(`Expected ${keyword}`);
+    }
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (this.isPunct(value)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) {
+      this.fail(`Expected '${value}'`);
+    }
+  }
+
+  private expectIdent(): string {
+    const token = this.peek();
+    if (token.type !== 'ident') {
+      this.fail('Expected identifier');
+    }
+    this.pos++;
+    return token.value;
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    const near = token.type === 'eof' ? 'end of input' : `'${token.value}'`;
+    throw new CypherSyntaxError(`${message} near ${near}`, token.start);
+  }
+
+  private isClauseStart(): boolean {
+    const token = this.peek();
+    return (
+      token.type === 'ident' && !token.quoted && CLAUSE_KEYWORDS.has(token.value.toUpperCase())
+    );
+  }
+
+  // ---------- clauses ----------
+
+  private parseClause(): Clause {
+    if (this.acceptKeyword('OPTIONAL')) {
+      this.expectKeyword('MATCH');
+      return this.parseMatch(true);
+    }
+    if (this.acceptKeyword('MATCH')) return this.parseMatch(false);
+    if (this.acceptKeyword('UNWIND')) {
+      const expr = this.parseExpression();
+      this.expectKeyword('AS');
+      return { kind: 'unwind', expr, alias: this.expectIdent() };
+    }
+    if (this.acceptKeyword('WITH')) {
+      const projection = this.parseProjection();
+      const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+      return { kind: 'with', projection, where };
+    }
+    if (this.acceptKeyword('RETURN')) {
+      return { kind: 'return', projection: this.parseProjection() };
+    }
+    if (this.acceptKeyword('CREATE')) {
+      return { kind: 'create', patterns: this.parsePatternList() };
+    }
+    if (this.acceptKeyword('MERGE')) return this.parseMerge();
+    if (this.acceptKeyword('SET')) return { kind: 'set', items: this.parseSetItems() };
+    if (this.acceptKeyword('REMOVE')) return { kind: 'remove', items: this.parseRemoveItems() };
+    if (this.acceptKeyword('DETACH')) {
+      this.expectKeyword('DELETE');
+      return { kind: 'delete', detach: true, exprs: this.parseExpressionList() };
+    }
+    if (this.acceptKeyword('DELETE')) {
+      return { kind: 'delete', detach: false, exprs: this.parseExpressionList() };
+    }
+
+    this.fail('Unsupported Cypher clause');
+  }
+
+  private parseMatch(optional: boolean): Clause {
+    const patterns = this.parsePatternList();
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+    return { kind: 'match', optional, patterns, where };
+  }
+
+  private parseMerge(): Clause {
+    const pattern = this.parsePathPattern();
+    const onCreate: SetItem[] = [];
+    const onMatch: SetItem[] = [];
+
+    while (this.isKeyword('ON')) {
+      this.next();
+      if (this.acceptKeyword('CREATE')) {
+        this.expectKeyword('SET');
+        onCreate.push(...this.parseSetItems());
+      } else if (this.acceptKeyword('MATCH')) {
+        this.expectKeyword('SET');
+        onMatch.push(...this.parseSetItems());
+      } else {
+        this.fail('Expected CREATE or MATCH after ON');
+      }
+    }
+
+    return { kind: 'merge', pattern, onCreate, onMatch };
+  }
+
+  private parseSetItems(): SetItem[] {
+    const items: SetItem[] = [];
+
+    do {
+      const variable = this.expectIdent();
+
+      if (this.isPunct(':')) {
+        items.push({ kind: 'labels', variable, labels: this.parseLabelChain() });
+      } else if (this.acceptPunct('+=')) {
+        items.push({ kind: 'merge', variable, value: this.parseExpression() });
+      } else if (this.isPunct('.')) {
+        let target: Expr = { kind: 'variable', name: variable };
+        this.expectPunct('.');
+        let key = this.expectIdent();
+        while (this.acceptPunct('.')) {
+          target = { kind: 'property', object: target, key };
+          key = this.expectIdent();
+        }
+        this.expectPunct('=');
+        items.push({ kind: 'property', target, key, value: this.parseExpression() });
+      } else {
+        this.expectPunct('=');
+        items.push({ kind: 'replace', variable, value: this.parseExpression() });
+      }
+    } while (this.acceptPunct(','));
+
+    return items;
+  }
+
+  private parseRemoveItems(): RemoveItem[] {
+    const items: RemoveItem[] = [];
+
+    do {
+      const variable = this.expectIdent();
+      if (this.isPunct(':')) {
+        items.push({ kind: 'labels', variable, labels: this.parseLabelChain() });
+      } else {
+        this.expectPunct('.');
+        items.push({
+          kind: 'property',
+          target: { kind: 'variable', name: variable },
+          key: this.expectIdent(),
+        });
+      }
+    } while (this.acceptPunct(','));
+
+    return items;
+  }
+
+  private parseLabelChain(): string[] {
+    const labels: string[] = [];
+    while (this.acceptPunct(':')) {
+      labels.push(this.expectIdent());
+    }
+    return labels;
+  }
+
+  private parseProjection(): Projection {
+    const distinct = this.acceptKeyword('DISTINCT');
+    let star = false;
+    const items: ProjectionItem[] = [];
+
+    if (this.acceptPunct('*')) {
+      star = true;
+      if (this.acceptPunct(',')) items.push(...this.parseProjectionItems());
+    } else {
+      items.push(...this.parseProjectionItems());
+    }
+
+    const orderBy: SortItem[] = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const expr = this.parseExpression();
+        let descending = false;
+        if (this.acceptKeyword('DESC') || this.acceptKeyword('DESCENDING')) {
+          descending = true;
+        } else if (!this.acceptKeyword('ASC')) {
+          this.acceptKeyword('ASCENDING');
+        }
+        orderBy.push({ expr, descending });
+      } while (this.acceptPunct(','));
+    }
+
+    const skip = this.acceptKeyword('SKIP') ? this.parseExpression() : undefined;
+    const limit = this.acceptKeyword('LIMIT') ? this.parseExpression() : undefined;
+
+    return { distinct, star, items, orderBy, skip, limit };
+  }
+
+  private parseProjectionItems(): ProjectionItem[] {
+    const items: ProjectionItem[] = [];
+
+    do {
+      const start = this.peek().start;
+      const expr = this.parseExpression();
+      const end = this.tokens[this.pos - 1].end;
+      let alias: string;
+
+      if (this.acceptKeyword('AS')) {
+        alias = this.expectIdent();
+      } else if (expr.kind === 'variable') {
+        alias = expr.name;
+      } else {
+        alias = this.source.slice(start, end).trim();
+      }
+
+      items.push({ expr, alias });
+    } while (this.acceptPunct(','));
+
+    return items;
+  }
+
+  // ---------- patterns ----------
+
+  private parsePatternList(): PathPattern[] {
+    const patterns: PathPattern[] = [];
+    do {
+      patterns.push(this.parsePathPattern());
+    } while (this.acceptPunct(','));
+    return patterns;
+  }
+
+  private parsePathPattern(): PathPattern {
+    let variable: string | undefined;
+
+    if (this.peek().type === 'ident' && this.isPunct('=', 1)) {
+      variable = this.expectIdent();
+      this.expectPunct('=');
+    }
+
+    const nodes: NodePattern[] = [this.parseNodePattern()];
+    const rels: RelPattern[] = [];
+
+    while (this.isPunct('-') || (this.isPunct('<') && this.isPunct('-', 1))) {
+      rels.push(this.parseRelPattern());
+      nodes.push(this.parseNodePattern());
+    }
+
+    return { variable, nodes, rels };
+  }
+
+  private parseNodePattern(): NodePattern {
+    this.expectPunct('(');
+
+    let variable: string | undefined;
+    if (this.peek().type === 'ident') {
+      variable = this.expectIdent();
+    }
+
+    const labels: string[][] = [];
+    while (this.acceptPunct(':')) {
+      const group = [this.expectIdent()];
+      while (this.acceptPunct('|')) {
+        this.acceptPunct(':');
+        group.push(this.expectIdent());
+      }
+      labels.push(group);
+    }
+
+    let properties: Expr | undefined;
+    if (this.isPunct('{')) {
+      properties = this.parseMapLiteral();
+    } else if (this.peek().type === 'param') {
+      properties = { kind: 'param', name: this.next().value };
+    }
+
+    this.expectPunct(')');
+    return { variable, labels, properties };
+  }
+
+  private parseRelPattern(): RelPattern {
+    const pointsLeft = this.acceptPunct('<');
+    this.expectPunct('-');
+
+    let variable: string | undefined;
+    const types: string[] = [];
+    let properties: Expr | undefined;
+    let length: RelPattern['length'];
+
+    if (this.acceptPunct('[')) {
+      if (this.peek().type === 'ident') {
+        variable = this.expectIdent();
+      }
+
+      if (this.acceptPunct(':')) {
+        types.push(this.expectIdent());
+        while (this.acceptPunct('|')) {
+          this.acceptPunct(':');
+          types.push(this.expectIdent());
+        }
+      }
+
+      if (this.acceptPunct('*')) {
+        length = this.parseRelLength();
+      }
+
+      if (this.isPunct('{')) {
+        properties = this.parseMapLiteral();
+      } else if (this.peek().type === 'param') {
+        properties = { kind: 'param', name: this.next().value };
+      }
+
+      this.expectPunct(']');
+    }
+
+    this.expectPunct('-');
+    const pointsRight = this.acceptPunct('>');
+
+    if (pointsLeft && pointsRight) {
+      this.fail('Relationship cannot point in both directions');
+    }
+
+    const direction = pointsRight ? 'out' : pointsLeft ? 'in' : 'both';
+    return { variable, types, properties, direction, length };
+  }
+
+  private parseRelLength(): { min: number; max: number } {
+    let min = 1;
+    let max = Infinity;
+
+    if (this.peek().type === 'number') {
+      min = parseInt(this.next().value, 10);
+      max = min;
+    }
+
+    if (this.acceptPunct('..')) {
+      max = this.peek().type === 'number' ? parseInt(this.next().value, 10) : Infinity;
+    }
+
+    return { min, max };
+  }
+
+  // ---------- expressions ----------
+
+  private parseExpressionList(): Expr[] {
+    const exprs: Expr[] = [];
+    do {
+      exprs.push(this.parseExpression());
+    } while (this.acceptPunct(','));
+    return exprs;
+  }
+
+  parseExpression(): Expr {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseXor();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'binary', op: 'OR', left, right: this.parseXor() };
+    }
+    return left;
+  }
+
+  private parseXor(): Expr {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('XOR')) {
+      left = { kind: 'binary', op: 'XOR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'binary', op: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'unary', op: 'NOT', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expr {
+    let left = this.parseAdditive();
+
+    for (;;) {
+      const token = this.peek();
+
+      if (
+        token.type === 'punct' &&
+        ['=', '<>', '!=', '<', '>', '<=', '>=', '=~'].includes(token.value)
+      ) {
+        this.next();
+        const op = token.value === '!=' ? '<>' : token.value;
+        left = { kind: 'binary', op, left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword('IN')) {
+        left = { kind: 'binary', op: 'IN', left, right: this.parseAdditive() };
+      } else if (this.acceptKeyword('CONTAINS')) {
+        left = { kind: 'binary', op: 'CONTAINS', left, right: this.parseAdditive() };
+      } else if (this.isKeyword('STARTS') && this.isKeyword('WITH', 1)) {
+        this.pos += 2;
+        left = { kind: 'binary', op: 'STARTS WITH', left, right: this.parseAdditive() };
+      } else if (this.isKeyword('ENDS') && this.isKeyword('WITH', 1)) {
+        this.pos += 2;
+        left = { kind: 'binary', op: 'ENDS WITH', left, right: this.parseAdditive() };
+      } else if (this.isKeyword('IS')) {
+        this.next();
+        const negated = this.acceptKeyword('NOT');
+        this.expectKeyword('NULL');
+        left = { kind: 'isNull', operand: left, negated };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      if (this.acceptPunct('+')) {
+        left = { kind: 'binary', op: '+', left, right: this.parseMultiplicative() };
+      } else if (this.acceptPunct('-')) {
+        left = { kind: 'binary', op: '-', left, right: this.parseMultiplicative() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parsePower();
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'punct' && ['*', '/', '%'].includes(token.value)) {
+        this.next();
+        left = { kind: 'binary', op: token.value, left, right: this.parsePower() };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parsePower(): Expr {
+    let left = this.parseUnary();
+    while (this.acceptPunct('^')) {
+      left = { kind: 'binary', op: '^', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.acceptPunct('-')) {
+      return { kind: 'unary', op: '-', operand: this.parseUnary() };
+    }
+    if (this.acceptPunct('+')) {
+      return { kind: 'unary', op: '+', operand: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expr {
+    let expr = this.parseAtom();
+
+    for (;;) {
+      if (this.isPunct('.') && this.peek(1).type === 'ident') {
+        this.next();
+        expr = { kind: 'property', object: expr, key: this.expectIdent() };
+      } else if (this.isPunct('[')) {
+        this.next();
+        if (this.acceptPunct('..')) {
+          const to = this.isPunct(']') ? undefined : this.parseExpression();
+          this.expectPunct(']');
+          expr = { kind: 'slice', object: expr, to };
+          continue;
+        }
+        const index = this.parseExpression();
+        if (this.acceptPunct('..')) {
+          const to = this.isPunct(']') ? undefined : this.parseExpression();
+          this.expectPunct(']');
+          expr = { kind: 'slice', object: expr, from: index, to };
+        } else {
+          this.expectPunct(']');
+          expr = { kind: 'index', object: expr, index };
+        }
+      } else if (expr.kind === 'variable' && this.isPunct(':') && this.peek(1).type === 'ident') {
+        expr = { kind: 'hasLabels', operand: expr, labels: this.parseLabelChain() };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parseAtom(): Expr {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        this.next();
+        return { kind: 'literal', value: token.value };
+      case 'param':
+        this.next();
+        return { kind: 'param', name: token.value };
+      case 'punct':
+        if (token.value === '(') {
+          this.next();
+          const expr = this.parseExpression();
+          this.expectPunct(')');
+          return expr;
+        }
+        if (token.value === '[') return this.parseListOrComprehension();
+        if (token.value === '{') return this.parseMapLiteral();
+        break;
+      case 'ident':
+        return this.parseIdentifierAtom();
+    }
+
+    this.fail('Unexpected token in expression');
+  }
+
+  private parseIdentifierAtom(): Expr {
+    const token = this.peek();
+    const upper = token.quoted ? '' : token.value.toUpperCase();
+
+    if (upper === 'NULL') {
+      this.next();
+      return { kind: 'literal', value: null };
+    }
+    if (upper === 'TRUE' || upper === 'FALSE') {
+      this.next();
+      return { kind: 'literal', value: upper === 'TRUE' };
+    }
+    if (upper === 'CASE') {
+      this.next();
+      return this.parseCase();
+    }
+
+    if (!token.quoted && this.isPunct('(', 1)) {
+      const name = token.value;
+      const lower = name.toLowerCase();
+      this.pos += 2;
+
+      if (lower === 'reduce') return this.parseReduce();
+      if (['any', 'all', 'none', 'single'].includes(lower) && this.isKeyword('IN', 1)) {
+        return this.parseQuantifier(lower as 'any' | 'all' | 'none' | 'single');
+      }
+
+      if (this.acceptPunct('*')) {
+        this.expectPunct(')');
+        return { kind: 'call', name: lower, args: [], distinct: false, star: true };
+      }
+
+      const distinct = this.acceptKeyword('DISTINCT');
+      const args = this.isPunct(')') ? [] : this.parseExpressionList();
+      this.expectPunct(')');
+      return { kind: 'call', name: lower, args, distinct, star: false };
+    }
+
+    if (!token.quoted && this.isClauseStart()) {
+      this.fail('Unexpected keyword in expression');
+    }
+
+    this.next();
+    return { kind: 'variable', name: token.value };
+  }
+
+  private parseCase(): Expr {
+    const subject = this.isKeyword('WHEN') ? undefined : this.parseExpression();
+    const whens: [Expr, Expr][] = [];
+
+    while (this.acceptKeyword('WHEN')) {
+      const condition = this.parseExpression();
+      this.expectKeyword('THEN');
+      whens.push([condition, this.parseExpression()]);
+    }
+
+    if (whens.length === 0) {
+      this.fail('Expected WHEN');
+    }
+
+    const otherwise = this.acceptKeyword('ELSE') ? this.parseExpression() : undefined;
+    this.expectKeyword('END');
+    return { kind: 'case', subject, whens, otherwise };
+  }
+
+  private parseReduce(): Expr {
+    const accumulator = this.expectIdent();
+    this.expectPunct('=');
+    const init = this.parseExpression();
+    this.expectPunct(',');
+    const variable = this.expectIdent();
+    this.expectKeyword('IN');
+    const list = this.parseExpression();
+    this.expectPunct('|');
+    const body = this.parseExpression();
+    this.expectPunct(')');
+    return { kind: 'reduce', accumulator, init, variable, list, body };
+  }
+
+  private parseQuantifier(quantifier: 'any' | 'all' | 'none' | 'single'): Expr {
+    const variable = this.expectIdent();
+    this.expectKeyword('IN');
+    const list = this.parseExpression();
+    this.expectKeyword('WHERE');
+    const where = this.parseExpression();
+    this.expectPunct(')');
+    return { kind: 'quantifier', quantifier, variable, list, where };
+  }
+
+  private parseListOrComprehension(): Expr {
+    this.expectPunct('[');
+
+    if (this.peek().type === 'ident' && this.isKeyword('IN', 1)) {
+      const variable = this.expectIdent();
+      this.expectKeyword('IN');
+      const list = this.parseExpression();
+      const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+      const body = this.acceptPunct('|') ? this.parseExpression() : undefined;
+      this.expectPunct(']');
+      return { kind: 'comprehension', variable, list, where, body };
+    }
+
+    const items = this.isPunct(']') ? [] : this.parseExpressionList();
+    this.expectPunct(']');
+    return { kind: 'list', items };
+  }
+
+  private parseMapLiteral(): Expr {
+    this.expectPunct('{');
+    const entries: [string, Expr][] = [];
+
+    if (!this.isPunct('}')) {
+      do {
+        const keyToken = this.next();
+        if (keyToken.type !== 'ident' && keyToken.type !== 'string') {
+          this.fail('Expected map key');
+        }
+        this.expectPunct(':');
+        entries.push([keyToken.value, this.parseExpression()]);
+      } while (this.acceptPunct(','));
+    }
+
+    this.expectPunct('}');
+    return { kind: 'map', entries };
+  }
+}
+
+export function parseCypher(source: string): CypherQuery {
+  return new Parser(source).parseQuery();
+}
@@ -1,4 +1,25 @@
-import { GraphDriver, GraphProvider } from '../types/index.js';
+import { GraphDriver, GraphProvider, GraphTransaction, IndexOptions } from '../types/index.js';
+
+/**
+ * Cypher expression for a vector-valued query parameter. FalkorDB only
+ * indexes vectors stored as vecf32.
+ */
+export function vectorParam(driver: GraphDriver, name: string): string {
+  return driver.provider === GraphProvider.FALKORDB ? `vecf32($${name})` : `$${name}`;
+}
+
+/**
+ * View of `driver` whose queries run in `transaction`, for code written
+ * against GraphDriver such as `Node.save`.
+ */
+export function transactionDriver(driver: GraphDriver, transaction: GraphTransaction): GraphDriver {
+  return {
+    provider: driver.provider,
+    executeQuery: (query, params) => transaction.executeQuery(query, params),
+    close: () => driver.close(),
+    createIndexes: (options) => driver.createIndexes(options),
+  };
+}
 
 export abstract class BaseGraphDriver implements GraphDriver {
   abstract provider: GraphProvider;
@@ -12,7 +33,7 @@ export abstract class BaseGraphDriver implements GraphDriver {
 
   abstract executeQuery<T = any>(query: string, params?: Record<string, any>): Promise<T>;
   abstract close(): Promise<void>;
-  abstract createIndexes(): Promise<void>;
+  abstract createIndexes(options?: IndexOptions): Promise<void>;
 
   protected formatQuery(query: string): string {
     return query.trim().replace(/\s+/g, ' ');
@@ -1,6 +1,8 @@
 import { createClient, RedisClientType, Graph } from 'redis';
 import { BaseGraphDriver } from './driver.js';
-import { GraphProvider } from '../types/index.js';
+import { GraphProvider, GraphTransaction, IndexOptions } from '../types/index.js';
+
+const WRITE_CLAUSE = /\b(CREATE|MERGE|SET|DELETE|REMOVE)\b/i;
 
 export class FalkorDBDriver extends BaseGraphDriver {
   provider = GraphProvider.FALKORDB;
@@ -46,6 +48,47 @@ export class FalkorDBDriver extends BaseGraphDriver {
     }
   }
 
+  /**
+   * Start a write batch. Write queries are queued and sent in a single
+   * MULTI/EXEC on commit, so they are applied together, with no other
+   * client's queries in between, and not at all if the batch is rolled back;
+   * they return no rows. A query failing within EXEC does not undo the others.
+   * Read queries run immediately and do not see the queued writes.
+   */
+  async beginWriteBatch(): Promise<GraphTransaction> {
+    await this.connect();
+    let writes: string[] = [];
+
+    return {
+      executeQuery: async <T = any>(query: string, params?: Record<string, any>) => {
+        if (!WRITE_CLAUSE.test(query)) {
+          return this.executeQuery<T>(query, params);
+        }
+        writes.push(this.formatQueryWithParams(query, params));
+        return [] as T;
+      },
+      commit: async () => {
+        const queued = writes;
+        writes = [];
+        if (queued.length === 0) return;
+
+        const multi = this.client.multi();
+        for (const query of queued) {
+          multi.addCommand(['GRAPH.QUERY', this.database!, query]);
+        }
+        const replies = await multi.exec();
+        const failed = replies.find((reply) => reply instanceof Error);
+        if (failed) {
+          console.error('FalkorDB write batch error:', failed);
+          throw failed;
+        }
+      },
+      rollback: async () => {
+        writes = [];
+      },
+    };
+  }
+
   async close(): Promise<void> {
     if (this.client.isOpen) {
       await this.client.quit();
@@ -103,7 +146,7 @@ export class FalkorDBDriver extends BaseGraphDriver {
     return value;
   }
 
-  async createIndexes(): Promise<void> {
+  async createIndexes(options: IndexOptions = {}): Promise<void> {
     const indexes = [
       'CREATE INDEX ON :Entity(uuid)',
       'CREATE INDEX ON :Entity(groupId)',
@@ -111,8 +154,23 @@ export class FalkorDBDriver extends BaseGraphDriver {
       'CREATE INDEX ON :Episodic(groupId)',
       'CREATE INDEX ON :Community(uuid)',
       'CREATE INDEX ON :Community(groupId)',
+      "CALL db.idx.fulltext.createNodeIndex('Entity', 'name', 'summary')",
+      "CALL db.idx.fulltext.createNodeIndex('Episodic', 'name', 'content')",
+      "CALL db.idx.fulltext.createNodeIndex('Community', 'name', 'summary')",
+      'CREATE FULLTEXT INDEX FOR ()-[e:RELATES_TO]-() ON (e.name, e.fact)',
     ];
 
+    if (options.embeddingDimensions) {
+      const dimension = Math.floor(options.embeddingDimensions);
+      const config = `OPTIONS {dimension: ${dimension}, similarityFunction: 'cosine'}`;
+      indexes.push(
+        `CREATE VECTOR INDEX FOR (n:Entity) ON (n.embedding) ${config}`,
+        `CREATE VECTOR INDEX FOR (n:Episodic) ON (n.embedding) ${config}`,
+        `CREATE VECTOR INDEX FOR (n:Community) ON (n.embedding) ${config}`,
+        `CREATE VECTOR INDEX FOR ()-[e:RELATES_TO]-() ON (e.factEmbedding) ${config}`,
+      );
+    }
+
     for (const index of indexes) {
       try {
         await this.executeQuery(index);
@@ -0,0 +1,332 @@
+/**
+ * Property graph storage backing the in-memory driver.
+ *
+ * Nodes and relationships are plain objects held in maps with label, adjacency
+ * and `uuid` indexes so the pattern matcher can avoid full scans for the lookups
+ * Graphzep performs most often.
+ */
+
+export class GraphNode {
+  constructor(
+    public readonly id: number,
+    public labels: Set<string>,
+    public properties: Record<string, any>,
+  ) {}
+}
+
+export class GraphRelationship {
+  constructor(
+    public readonly id: number,
+    public readonly type: string,
+    public readonly start: GraphNode,
+    public readonly end: GraphNode,
+    public properties: Record<string, any>,
+  ) {}
+
+  other(node: GraphNode): GraphNode {
+    return this.start === node ? this.end : this.start;
+  }
+}
+
+export class GraphPath {
+  constructor(
+    public readonly nodes: GraphNode[],
+    public readonly relationships: GraphRelationship[],
+  ) {}
+}
+
+export interface GraphSnapshot {
+  version: 1;
+  nodes: { id: number; labels: string[]; properties: Record<string, any> }[];
+  relationships: {
+    id: number;
+    type: string;
+    start: number;
+    end: number;
+    properties: Record<string, any>;
+  }[];
+}
+
+export class GraphStore {
+  private nodes = new Map<number, GraphNode>();
+  private relationships = new Map<number, GraphRelationship>();
+  private outgoing = new Map<number, Set<GraphRelationship>>();
+  private incoming = new Map<number, Set<GraphRelationship>>();
+  private labelIndex = new Map<string, Set<GraphNode>>();
+  private nodeUuidIndex = new Map<string, Set<GraphNode>>();
+  private relUuidIndex = new Map<string, Set<GraphRelationship>>();
+  private nextId = 0;
+  /** Inverse of every change since `begin`, oldest first */
+  private undoLog: (() => void)[] | null = null;
+
+  get nodeCount(): number {
+    return this.nodes.size;
+  }
+
+  get relationshipCount(): number {
+    return this.relationships.size;
+  }
+
+  allNodes(): Iterable<GraphNode> {
+    return this.nodes.values();
+  }
+
+  allRelationships(): Iterable<GraphRelationship> {
+    return this.relationships.values();
+  }
+
+  nodesWithLabel(label: string): Iterable<GraphNode> {
+    return this.labelIndex.get(label) ?? [];
+  }
+
+  countWithLabel(label: string): number {
+    return this.labelIndex.get(label)?.size ?? 0;
+  }
+
+  nodesWithUuid(uuid: string): Iterable<GraphNode> {
+    return this.nodeUuidIndex.get(uuid) ?? [];
+  }
+
+  relationshipsWithUuid(uuid: string): Iterable<GraphRelationship> {
+    return this.relUuidIndex.get(uuid) ?? [];
+  }
+
+  outgoingOf(node: GraphNode): Iterable<GraphRelationship> {
+    return this.outgoing.get(node.id) ?? [];
+  }
+
+  incomingOf(node: GraphNode): Iterable<GraphRelationship> {
+    return this.incoming.get(node.id) ?? [];
+  }
+
+  degree(node: GraphNode): number {
+    return (this.outgoing.get(node.id)?.size ?? 0) + (this.incoming.get(node.id)?.size ?? 0);
+  }
+
+  isDeleted(entity: GraphNode | GraphRelationship): boolean {
+    return entity instanceof GraphNode
+      ? this.nodes.get(entity.id) !== entity
+      : this.relationships.get(entity.id) !== entity;
+  }
+
+  /**
+   * Start recording changes so that `rollback` can undo them
+   */
+  begin(): void {
+    if (this.undoLog) {
+      throw new Error('A transaction is already in progress');
+    }
+    this.undoLog = [];
+  }
+
+  commit(): void {
+    this.undoLog = null;
+  }
+
+  /**
+   * Undo every change since `begin`, newest first
+   */
+  rollback(): void {
+    const undoLog = this.undoLog;
+    this.undoLog = null;
+    for (const undo of (undoLog ?? []).reverse()) undo();
+  }
+
+  createNode(labels: Iterable<string>, properties: Record<string, any>): GraphNode {
+    const node = new GraphNode(this.nextId++, new Set(), {});
+    this.nodes.set(node.id, node);
+    this.undoLog?.push(() => this.deleteNode(node, true));
+    for (const label of labels) this.addLabel(node, label);
+    for (const [key, value] of Object.entries(properties)) this.setProperty(node, key, value);
+    return node;
+  }
+
+  createRelationship(
+    type: string,
+    start: GraphNode,
+    end: GraphNode,
+    properties: Record<string, any>,
+  ): GraphRelationship {
+    const rel = new GraphRelationship(this.nextId++, type, start, end, {});
+    this.relationships.set(rel.id, rel);
+    addToIndex(this.outgoing, start.id, rel);
+    addToIndex(this.incoming, end.id, rel);
+    this.undoLog?.push(() => this.deleteRelationship(rel));
+    for (const [key, value] of Object.entries(properties)) this.setProperty(rel, key, value);
+    return rel;
+  }
+
+  addLabel(node: GraphNode, label: string): void {
+    if (node.labels.has(label)) return;
+    node.labels.add(label);
+    addToIndex(this.labelIndex, label, node);
+    this.undoLog?.push(() => this.removeLabel(node, label));
+  }
+
+  removeLabel(node: GraphNode, label: string): void {
+    if (!node.labels.delete(label)) return;
+    removeFromIndex(this.labelIndex, label, node);
+    this.undoLog?.push(() => this.addLabel(node, label));
+  }
+
+  setProperty(entity: GraphNode | GraphRelationship, key: string, value: any): void {
+    const previous = entity.properties[key];
+    this.undoLog?.push(() => this.setProperty(entity, key, previous));
+
+    if (key === 'uuid') this.unindexUuid(entity);
+
+    if (value === null || value === undefined) {
+      delete entity.properties[key];
+    } else {
+      entity.properties[key] = Array.isArray(value) ? [...value] : value;
+    }
+
+    if (key === 'uuid') this.indexUuid(entity);
+  }
+
+  deleteRelationship(rel: GraphRelationship): void {
+    if (this.relationships.get(rel.id) !== rel) return;
+    this.unindexUuid(rel);
+    this.relationships.delete(rel.id);
+    removeFromIndex(this.outgoing, rel.start.id, rel);
+    removeFromIndex(this.incoming, rel.end.id, rel);
+    this.undoLog?.push(() => {
+      this.relationships.set(rel.id, rel);
+      addToIndex(this.outgoing, rel.start.id, rel);
+      addToIndex(this.incoming, rel.end.id, rel);
+      this.indexUuid(rel);
+    });
+  }
+
+  deleteNode(node: GraphNode, detach: boolean): void {
+    if (this.nodes.get(node.id) !== node) return;
+
+    if (this.degree(node) > 0) {
+      if (!detach) {
+        throw new Error(
+          `Cannot delete node<${node.id}>, because it still has relationships. ` +
+            'To delete this node, you must first delete its relationships.',
+        );
+      }
+      for (const rel of [...this.outgoingOf(node), ...this.incomingOf(node)]) {
+        this.deleteRelationship(rel);
+      }
+    }
+
+    this.unindexUuid(node);
+    for (const label of node.labels) removeFromIndex(this.labelIndex, label, node);
+    this.nodes.delete(node.id);
+    this.outgoing.delete(node.id);
+    this.incoming.delete(node.id);
+    this.undoLog?.push(() => {
+      this.nodes.set(node.id, node);
+      for (const label of node.labels) addToIndex(this.labelIndex, label, node);
+      this.indexUuid(node);
+    });
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.relationships.clear();
+    this.outgoing.clear();
+    this.incoming.clear();
+    this.labelIndex.clear();
+    this.nodeUuidIndex.clear();
+    this.relUuidIndex.clear();
+    this.nextId = 0;
+  }
+
+  toSnapshot(): GraphSnapshot {
+    return {
+      version: 1,
+      nodes: [...this.nodes.values()].map((node) => ({
+        id: node.id,
+        labels: [...node.labels],
+        properties: encodeValue(node.properties),
+      })),
+      relationships: [...this.relationships.values()].map((rel) => ({
+        id: rel.id,
+        type: rel.type,
+        start: rel.start.id,
+        end: rel.end.id,
+        properties: encodeValue(rel.properties),
+      })),
+    };
+  }
+
+  loadSnapshot(snapshot: GraphSnapshot): void {
+    this.clear();
+
+    const byId = new Map<number, GraphNode>();
+    for (const data of snapshot.nodes) {
+      const node = this.createNode(data.labels, decodeValue(data.properties));
+      byId.set(data.id, node);
+    }
+
+    for (const data of snapshot.relationships) {
+      const start = byId.get(data.start);
+      const end = byId.get(data.end);
+      if (!start || !end) {
+        throw new Error(`Snapshot relationship ${data.id} references a missing node`);
+      }
+      this.createRelationship(data.type, start, end, decodeValue(data.properties));
+    }
+  }
+
+  private indexUuid(entity: GraphNode | GraphRelationship): void {
+    const uuid = entity.properties.uuid;
+    if (typeof uuid !== 'string') return;
+    if (entity instanceof GraphNode) {
+      addToIndex(this.nodeUuidIndex, uuid, entity);
+    } else {
+      addToIndex(this.relUuidIndex, uuid, entity);
+    }
+  }
+
+  private unindexUuid(entity: GraphNode | GraphRelationship): void {
+    const uuid = entity.properties.uuid;
+    if (typeof uuid !== 'string') return;
+    if (entity instanceof GraphNode) {
+      removeFromIndex(this.nodeUuidIndex, uuid, entity);
+    } else {
+      removeFromIndex(this.relUuidIndex, uuid, entity);
+    }
+  }
+}
+
+function addToIndex<K, V>(index: Map<K, Set<V>>, key: K, value: V): void {
+  let bucket = index.get(key);
+  if (!bucket) {
+    bucket = new Set();
+    index.set(key, bucket);
+  }
+  bucket.add(value);
+}
+
+function removeFromIndex<K, V>(index: Map<K, Set<V>>, key: K, value: V): void {
+  const bucket = index.get(key);
+  if (!bucket) return;
+  bucket.delete(value);
+  if (bucket.size === 0) index.delete(key);
+}
+
+// Dates are the only property values JSON cannot round-trip on its own.
+function encodeValue(value: any): any {
+  if (value instanceof Date) return { $datetime: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, encodeValue(v)]));
+  }
+  return value;
+}
+
+function decodeValue(value: any): any {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    if (typeof value.$datetime === 'string' && Object.keys(value).length === 1) {
+      return new Date(value.$datetime);
+    }
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, decodeValue(v)]));
+  }
+  return value;
+}
@@ -0,0 +1,179 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BaseGraphDriver } from './driver.js';
+import { GraphProvider, GraphTransaction } from '../types/index.js';
+import { CypherQuery, parseCypher } from './cypher-parser.js';
+import { executeCypher } from './cypher-executor.js';
+import { GraphSnapshot, GraphStore } from './memory-graph.js';
+
+export interface InMemoryDriverConfig {
+  database?: string;
+  /** JSON file the graph is loaded from on first use and written back to on close. */
+  snapshotPath?: string;
+  /** Number of parsed queries kept for reuse. */
+  queryCacheSize?: number;
+}
+
+/**
+ * Pure TypeScript property graph driver for tests and offline development.
+ *
+ * Implements `executeQuery` for the Cypher subset Graphzep emits, so the full
+ * ingestion and search pipeline runs in-process without a database server.
+ */
+export class InMemoryDriver extends BaseGraphDriver {
+  provider = GraphProvider.MEMORY;
+  private store = new GraphStore();
+  private parsedQueries = new Map<string, CypherQuery>();
+  private snapshotPath?: string;
+  private queryCacheSize: number;
+  private loaded = false;
+  /** Settles when the last transaction begun ends; transactions run one at a time */
+  private transactionEnd: Promise<void> = Promise.resolve();
+  /** Settles when the open transaction ends, if one is open */
+  private openTransaction: Promise<void> | null = null;
+
+  constructor(config: InMemoryDriverConfig = {}) {
+    super('memory://graphzep', '', '', config.database || 'default');
+    this.snapshotPath = config.snapshotPath;
+    this.queryCacheSize = config.queryCacheSize ?? 256;
+  }
+
+  async connect(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (this.snapshotPath) {
+      try {
+        await this.loadSnapshot(this.snapshotPath);
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') {
+          this.loaded = false;
+          throw error;
+        }
+      }
+    }
+  }
+
+  async executeQuery<T = any>(query: string, params?: Record<string, any>): Promise<T> {
+    await this.connect();
+    while (this.openTransaction) {
+      await this.openTransaction;
+    }
+
+    return this.run<T>(query, params);
+  }
+
+  /**
+   * Start a transaction. Its queries run against the store directly while the
+   * store records how to undo them, so rollback restores the graph as it was.
+   * A transaction waits for the previous one to end, and queries issued
+   * outside a transaction wait for the open one to end, so they neither see
+   * its writes before commit nor have theirs undone by its rollback.
+   */
+  async beginTransaction(): Promise<GraphTransaction> {
+    await this.connect();
+
+    const previous = this.transactionEnd;
+    let release!: () => void;
+    const ended = new Promise<void>((resolve) => (release = resolve));
+    this.transactionEnd = ended;
+    await previous;
+    this.store.begin();
+    this.openTransaction = ended;
+
+    let open = true;
+    const end = (finish: () => void) => async () => {
+      if (!open) return;
+      open = false;
+      finish();
+      this.openTransaction = null;
+      release();
+    };
+
+    return {
+      executeQuery: async <T = any>(query: string, params?: Record<string, any>) => {
+        if (!open) {
+          throw new Error('Transaction has already ended');
+        }
+        return this.run<T>(query, params);
+      },
+      commit: end(() => this.store.commit()),
+      rollback: end(() => this.store.rollback()),
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.snapshotPath && this.loaded) {
+      await this.saveSnapshot(this.snapshotPath);
+    }
+  }
+
+  async createIndexes(): Promise<void> {
+    // Label, adjacency and uuid lookups are indexed by the store itself
+  }
+
+  /**
+   * Write the current graph to a JSON file
+   */
+  async saveSnapshot(filePath: string | undefined = this.snapshotPath): Promise<void> {
+    if (!filePath) {
+      throw new Error('No snapshot path configured');
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(this.store.toSnapshot()), 'utf-8');
+  }
+
+  /**
+   * Replace the current graph with the contents of a JSON snapshot
+   */
+  async loadSnapshot(filePath: string | undefined = this.snapshotPath): Promise<void> {
+    if (!filePath) {
+      throw new Error('No snapshot path configured');
+    }
+
+    const snapshot = JSON.parse(await fs.readFile(filePath, 'utf-8')) as GraphSnapshot;
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+    }
+
+    this.store.loadSnapshot(snapshot);
+    this.loaded = true;
+  }
+
+  /**
+   * Remove every node and relationship
+   */
+  clear(): void {
+    this.store.clear();
+  }
+
+  getStats(): { nodes: number; relationships: number } {
+    return {
+      nodes: this.store.nodeCount,
+      relationships: this.store.relationshipCount,
+    };
+  }
+
+  private run<T>(query: string, params?: Record<string, any>): T {
+    try {
+      return executeCypher(this.store, this.parse(query), params ?? {}) as T;
+    } catch (error) {
+      console.error('In-memory query execution error:', error);
+      throw error;
+    }
+  }
+
+  private parse(query: string): CypherQuery {
+    const cached = this.parsedQueries.get(query);
+    if (cached) return cached;
+
+    const parsed = parseCypher(query);
+    if (this.parsedQueries.size >= this.queryCacheSize) {
+      const oldest = this.parsedQueries.keys().next().value;
+      if (oldest !== undefined) this.parsedQueries.delete(oldest);
+    }
+    this.parsedQueries.set(query, parsed);
+    return parsed;
+  }
+}
@@ -1,6 +1,6 @@
 import neo4j, { Driver } from 'neo4j-driver';
 import { BaseGraphDriver } from './driver.js';
-import { GraphProvider } from '../types/index.js';
+import { GraphProvider, GraphTransaction, IndexOptions } from '../types/index.js';
 
 export class Neo4jDriver extends BaseGraphDriver {
   provider = GraphProvider.NEO4J;
@@ -19,26 +19,7 @@ export class Neo4jDriver extends BaseGraphDriver {
     });
 
     try {
-      // Convert numeric parameters to integers for Neo4j compatibility
-      const processedParams = params
-        ? Object.entries(params).reduce(
-            (acc, [key, value]) => {
-              // Convert 'limit' and other integer-like parameters to integers
-              if (
-                (key === 'limit' || key === 'skip' || key === 'offset') &&
-                typeof value === 'number'
-              ) {
-                acc[key] = neo4j.int(Math.floor(value));
-              } else {
-                acc[key] = value;
-              }
-              return acc;
-            },
-            {} as Record<string, any>,
-          )
-        : {};
-
-      const result = await session.run(this.formatQuery(query), processedParams);
+      const result = await session.run(this.formatQuery(query), this.processParams(params));
       return result.records.map((record) => record.toObject()) as T;
     } catch (error) {
       console.error('Neo4j query execution error:', error);
@@ -49,10 +30,66 @@ export class Neo4jDriver extends BaseGraphDriver {
     }
   }
 
+  /**
+   * Start an explicit transaction on a session of its own, closed when the
+   * transaction is committed or rolled back.
+   */
+  async beginTransaction(): Promise<GraphTransaction> {
+    const session = this.driver.session({
+      database: this.database,
+      defaultAccessMode: neo4j.session.WRITE,
+    });
+    const transaction = session.beginTransaction();
+
+    return {
+      executeQuery: async <T = any>(query: string, params?: Record<string, any>) => {
+        try {
+          const result = await transaction.run(this.formatQuery(query), this.processParams(params));
+          return result.records.map((record) => record.toObject()) as T;
+        } catch (error) {
+          console.error('Neo4j query execution error:', error);
+          throw error;
+        }
+      },
+      commit: async () => {
+        try {
+          await transaction.commit();
+        } finally {
+          await session.close();
+        }
+      },
+      rollback: async () => {
+        try {
+          if (transaction.isOpen()) await transaction.rollback();
+        } finally {
+          await session.close();
+        }
+      },
+    };
+  }
+
   async close(): Promise<void> {
     await this.driver.close();
   }
 
+  // Convert numeric parameters to integers for Neo4j compatibility
+  private processParams(params?: Record<string, any>): Record<string, any> {
+    if (!params) return {};
+
+    return Object.entries(params).reduce(
+      (acc, [key, value]) => {
+        // Convert 'limit' and other integer-like parameters to integers
+        if ((key === 'limit' || key === 'skip' || key === 'offset') && typeof value === 'number') {
+          acc[key] = neo4j.int(Math.floor(value));
+        } else {
+          acc[key] = value;
+        }
+        return acc;
+      },
+      {} as Record<string, any>,
+    );
+  }
+
   async verifyConnectivity(): Promise<void> {
     try {
       await this.driver.verifyConnectivity();
@@ -63,7 +100,7 @@ export class Neo4jDriver extends BaseGraphDriver {
     }
   }
 
-  async createIndexes(): Promise<void> {
+  async createIndexes(options: IndexOptions = {}): Promise<void> {
     const indexes = [
       'CREATE INDEX entity_uuid IF NOT EXISTS FOR (n:Entity) ON (n.uuid)',
       'CREATE INDEX entity_group IF NOT EXISTS FOR (n:Entity) ON (n.groupId)',
@@ -71,8 +108,29 @@ export class Neo4jDriver extends BaseGraphDriver {
       'CREATE INDEX episodic_group IF NOT EXISTS FOR (n:Episodic) ON (n.groupId)',
       'CREATE INDEX community_uuid IF NOT EXISTS FOR (n:Community) ON (n.uuid)',
       'CREATE INDEX community_group IF NOT EXISTS FOR (n:Community) ON (n.groupId)',
+      `CREATE FULLTEXT INDEX node_name_and_summary IF NOT EXISTS
+       FOR (n:Entity|Episodic|Community) ON EACH [n.name, n.summary, n.content]`,
+      `CREATE FULLTEXT INDEX edge_name_and_fact IF NOT EXISTS
+       FOR ()-[e:RELATES_TO]-() ON EACH [e.name, e.fact]`,
     ];
 
+    if (options.embeddingDimensions) {
+      const config = `OPTIONS {indexConfig: {
+        \`vector.dimensions\`: ${Math.floor(options.embeddingDimensions)},
+        \`vector.similarity_function\`: 'cosine'
+      }}`;
+      indexes.push(
+        `CREATE VECTOR INDEX entity_embedding IF NOT EXISTS
+         FOR (n:Entity) ON (n.embedding) ${config}`,
+        `CREATE VECTOR INDEX episodic_embedding IF NOT EXISTS
+         FOR (n:Episodic) ON (n.embedding) ${config}`,
+        `CREATE VECTOR INDEX community_embedding IF NOT EXISTS
+         FOR (n:Community) ON (n.embedding) ${config}`,
+        `CREATE VECTOR INDEX fact_embedding IF NOT EXISTS
+         FOR ()-[e:RELATES_TO]-() ON (e.factEmbedding) ${config}`,
+      );
+    }
+
     for (const index of indexes) {
       try {
         await this.executeQuery(index);
@@ -12,6 +12,11 @@ export abstract class BaseEmbedderClient {
     this.config = config;
   }
 
+  /** Length of the returned embeddings, when configured */
+  get dimensions(): number | undefined {
+    return this.config.dimensions;
+  }
+
   abstract embed(text: string): Promise<number[]>;
 
   abstract embedBatch(texts: string[]): Promise<number[][]>;
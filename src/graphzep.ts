@@ -1,7 +1,10 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
 import {
   GraphDriver,
   EntityNode,
+  EntityAttributeValue,
   EpisodicNode,
   CommunityNode,
   EntityEdge,
@@ -9,12 +12,23 @@ import {
   CommunityEdge,
   EpisodeType,
   GraphProvider,
+  CrossEncoderClient,
 } from './types/index.js';
 import { Node, EntityNodeImpl, EpisodicNodeImpl, CommunityNodeImpl } from './core/nodes.js';
 import { Edge, EntityEdgeImpl, EpisodicEdgeImpl, CommunityEdgeImpl } from './core/edges.js';
 import { BaseLLMClient } from './llm/client.js';
 import { BaseEmbedderClient } from './embedders/client.js';
-import { utcNow } from './utils/datetime.js';
+import { LLMRerankerClient } from './cross-encoder/llm-reranker.js';
+import { transactionDriver, vectorParam } from './drivers/driver.js';
+import { utcNow, parseDbDate } from './utils/datetime.js';
+import { cosineSimilarity, nameSimilarity, nameTokens, normalizeName } from './utils/similarity.js';
+import { WeightedGraph, addWeightedEdge, labelPropagation } from './utils/label-propagation.js';
+import { bm25Scores, maximalMarginalRelevance, reciprocalRankFusion } from './utils/ranking.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import { JsonEpisodeMapping, mapJsonEpisode } from './utils/json-mapping.js';
+import { ChunkingOptions, chunkText } from './utils/chunking.js';
+import { LayerSearchConfig, SearchConfig, SearchMethod, SearchReranker } from './search/config.js';
+import { COMBINED_HYBRID_SEARCH_RRF } from './search/recipes.js';
 import { OptimizedRDFDriver } from './drivers/rdf-driver.js';
 import { RDFMemoryMapper } from './rdf/memory-mapper.js';
 import { OntologyManager } from './rdf/ontology-manager.js';
@@ -26,8 +40,16 @@ export interface GraphzepConfig {
   driver: GraphDriver;
   llmClient: BaseLLMClient;
   embedder: BaseEmbedderClient;
+  /** Scores search candidates for the 'cross_encoder' reranker; defaults to an LLMRerankerClient */
+  crossEncoder?: CrossEncoderClient;
   groupId?: string;
   ensureAscii?: boolean;
+  entityResolution?: EntityResolutionConfig;
+  /** Earlier episodes of the same group shown to extraction as context; defaults to 3 */
+  previousEpisodesWindow?: number;
+  summaryRefresh?: SummaryRefreshConfig;
+  /** Hooks run around the stages of episode ingestion, in order; see `use` */
+  hooks?: PipelineHook[];
   // RDF-specific options
   customOntologyPath?: string;
   rdfConfig?: {
@@ -36,26 +58,185 @@ export interface GraphzepConfig {
   };
 }
 
+export interface EntityResolutionConfig {
+  /** Minimum summary embedding cosine similarity for an entity to be a duplicate candidate */
+  embeddingThreshold?: number;
+  /** Minimum fuzzy name similarity for an entity to be a duplicate candidate */
+  nameThreshold?: number;
+  /** Maximum number of candidates shown to the LLM */
+  maxCandidates?: number;
+}
+
+export interface SummaryRefreshConfig {
+  /**
+   * Minimum milliseconds between two LLM refreshes of one entity's summary;
+   * descriptions from mentions in between are queued and folded into the next
+   * refresh. Defaults to one minute; 0 refreshes on every mention.
+   */
+  minInterval?: number;
+}
+
 export interface AddEpisodeParams {
   content: string;
   episodeType?: EpisodeType;
+  /**
+   * Idempotency key: adding an episode whose uuid, or failing that whose
+   * referenceId within the group, is already stored returns the stored
+   * episode when the content is unchanged, and otherwise updates it,
+   * re-extracting its entities and facts in place of the previous ones.
+   */
+  uuid?: string;
+  /** Defaults to the first 50 characters of the content */
+  name?: string;
   referenceId?: string;
   groupId?: string;
   metadata?: Record<string, any>;
+  /** When the episode happened; defaults to now. Used as validAt for the episode and its facts. */
+  referenceTime?: Date;
+  /**
+   * How a JSON episode maps onto entities, attributes and relations. Without
+   * it JSON content goes through the same LLM extraction as text.
+   */
+  jsonMapping?: JsonEpisodeMapping;
+  /**
+   * Entity types by name. Extracted entities are classified as one of them, or
+   * as the generic "Entity" type, and the fields of their type are extracted as
+   * attributes.
+   */
+  entityTypes?: EntityTypeSchemas;
+  /**
+   * Relation types by name. Extracted relation names are normalised to them and
+   * the fields of each type are extracted as edge attributes.
+   */
+  edgeTypes?: EdgeTypeSchemas;
+  /** Relation types allowed between entity types; defaults to every type between any entities */
+  edgeTypeMap?: EdgeTypeMapping[];
+  /**
+   * What happens to relations outside the allowed types: 'generic' (the default)
+   * keeps a registered type not allowed between its entities as an untyped
+   * RELATES_TO fact and other names as extracted, 'reject' drops both
+   */
+  edgeTypeFallback?: 'generic' | 'reject';
+}
+
+export type EntityTypeSchemas = Record<string, z.ZodObject<z.ZodRawShape>>;
+
+export type EdgeTypeSchemas = Record<string, z.ZodObject<z.ZodRawShape>>;
+
+// The parts of AddEpisodeParams that shape LLM extraction
+type ExtractionSchemas = Pick<
+  AddEpisodeParams,
+  'entityTypes' | 'edgeTypes' | 'edgeTypeMap' | 'edgeTypeFallback'
+>;
+
+export interface EdgeTypeMapping {
+  /** Entity type of the source; "Entity" matches any entity */
+  source: string;
+  /** Entity type of the target; "Entity" matches any entity */
+  target: string;
+  /** Relation types allowed from source to target */
+  edgeTypes: string[];
+}
+
+export interface AddEpisodesBulkOptions {
+  /** Maximum number of LLM calls in flight at once; defaults to 5 */
+  concurrency?: number;
+}
+
+export interface AddDocumentParams
+  extends ChunkingOptions,
+    Pick<
+      AddEpisodeParams,
+      | 'groupId'
+      | 'referenceId'
+      | 'referenceTime'
+      | 'entityTypes'
+      | 'edgeTypes'
+      | 'edgeTypeMap'
+      | 'edgeTypeFallback'
+    > {
+  /** Title of the document; its chunks are named after it */
+  name: string;
+  content: string;
+}
+
+/** A long text ingested as a chain of chunk episodes */
+export interface DocumentNode {
+  uuid: string;
+  name: string;
+  groupId: string;
+  referenceId?: string;
+  /** Number of chunks the text was split into, ingested or not */
+  chunkCount: number;
+  createdAt: Date;
+}
+
+export interface AddDocumentResult {
+  document: DocumentNode;
+  /** Outcome of each chunk, in order */
+  chunks: BulkEpisodeResult[];
 }
 
+/** Outcome of one episode of an addEpisodesBulk call, in input order */
+export type BulkEpisodeResult =
+  | { success: true; episode: EpisodicNode }
+  | { success: false; error: Error };
+
 export interface SearchParams {
   query: string;
   groupId?: string;
   limit?: number;
   searchType?: 'semantic' | 'keyword' | 'hybrid';
   nodeTypes?: ('entity' | 'episodic' | 'community')[];
+  asOf?: Date;
+  /** Also rank nodes by how few hops they are from this node */
+  centerNodeUuid?: string;
+  /** Hops explored from `centerNodeUuid`; defaults to 3 */
+  maxDepth?: number;
+  /** How the individual rankings are combined; defaults to 'rrf' */
+  reranker?: SearchReranker;
+  /** MMR trade-off between relevance (1) and diversity (0); defaults to 0.5 */
+  mmrLambda?: number;
+  /** Only return entities of these types */
+  entityTypes?: string[];
+  /** Only return entities whose attributes have these values */
+  attributes?: Record<string, EntityAttributeValue>;
+}
+
+export interface NodeSearchResult {
+  node: Node;
+  /** Score given by the reranker; higher is better */
+  score: number;
+}
+
+export type FactSearchParams = Omit<SearchParams, 'nodeTypes' | 'entityTypes' | 'attributes'>;
+
+export interface FactSearchResult {
+  edge: EntityEdgeImpl;
+  sourceNode: EntityNodeImpl;
+  targetNode: EntityNodeImpl;
+  /** Score given by the reranker; higher is better */
+  score: number;
+}
+
+/** Parameters of `searchWithConfig`; entity types and attributes only filter entities */
+export type GraphSearchParams = Omit<
+  SearchParams,
+  'limit' | 'searchType' | 'nodeTypes' | 'reranker' | 'mmrLambda'
+>;
+
+export interface SearchResults {
+  edges: FactSearchResult[];
+  nodes: NodeSearchResult[];
+  episodes: NodeSearchResult[];
+  communities: NodeSearchResult[];
 }
 
 export interface ExtractedEntity {
   name: string;
   entityType: string;
   summary: string;
+  attributes?: Record<string, EntityAttributeValue>;
   metadata?: Record<string, any>;
 }
 
@@ -63,13 +244,174 @@ export interface ExtractedRelation {
   sourceName: string;
   targetName: string;
   relationName: string;
+  fact?: string | null;
+  /** The sentence of the episode the relation was extracted from */
+  quote?: string | null;
+  validAt?: string | null;
+  invalidAt?: string | null;
+  attributes?: Record<string, EntityAttributeValue>;
   metadata?: Record<string, any>;
 }
 
+export interface EntityAuditEntry {
+  uuid: string;
+  name: string;
+  entityType: string;
+  summary: string;
+  /** Episodes whose MENTIONS edges were moved */
+  episodeUuids: string[];
+  /** Episodes that mentioned both entities and so kept a single MENTIONS edge */
+  sharedEpisodeUuids: string[];
+  /** RELATES_TO edges that were moved */
+  edgeUuids: string[];
+  /**
+   * RELATES_TO edges between the merged entities, deleted by a merge, with the
+   * properties they had. An edge is listed in the entry of each merged entity
+   * it touches.
+   */
+  droppedEdges?: Record<string, unknown>[];
+  /** Attributes and factIds the entity had before it was merged */
+  attributes?: Record<string, EntityAttributeValue>;
+  factIds?: string[];
+}
+
+/**
+ * Record of a merge (entities folded into `targetUuid`) or a split (an entity
+ * carved out of `targetUuid`). Merge entries hold enough to undo the merge with
+ * `splitEntity`, except for the summary, attributes and factIds of the kept
+ * entity, which keep what the merge added to them.
+ */
+export interface EntityAuditRecord {
+  uuid: string;
+  groupId: string;
+  action: 'merge' | 'split';
+  targetUuid: string;
+  entities: EntityAuditEntry[];
+  createdAt: Date;
+}
+
+/** An episode a fact was learned from */
+export interface FactProvenance {
+  episodeUuid: string;
+  episodeName: string;
+  referenceId?: string;
+  /** When the episode happened */
+  validAt: Date;
+  /** When the episode was ingested */
+  createdAt: Date;
+  /** The sentence of the episode stating the fact, or null if none is found */
+  quote: string | null;
+}
+
+export interface SplitEntityParams {
+  name: string;
+  summary: string;
+  entityType?: string;
+  /** Reuse a UUID, e.g. the original one when undoing a merge */
+  uuid?: string;
+  /** Episodes whose mentions move to the new entity */
+  episodeUuids?: string[];
+  /** Episodes that mention both the new and the original entity */
+  sharedEpisodeUuids?: string[];
+  /** RELATES_TO edges that move to the new entity */
+  edgeUuids?: string[];
+  /**
+   * RELATES_TO edges to recreate, as recorded by a merge; those whose other
+   * entity no longer exists are skipped
+   */
+  droppedEdges?: Record<string, unknown>[];
+  attributes?: Record<string, EntityAttributeValue>;
+  factIds?: string[];
+}
+
+/**
+ * Stages an episode goes through when ingested, in order:
+ * - embed: embed the content and build the episode node
+ * - extract: extract entities and relations from the content
+ * - resolve: match each entity to a graph node, or a new one
+ * - relate: pair each relation with the nodes of its entities
+ * - persist: save the episode, its entities, mentions and facts, and update
+ *   communities
+ */
+export type PipelineStage = 'embed' | 'extract' | 'resolve' | 'relate' | 'persist';
+
+/** An extracted relation between the nodes its entities resolved to */
+export interface ResolvedRelation {
+  relation: ExtractedRelation;
+  source: EntityNodeImpl;
+  target: EntityNodeImpl;
+}
+
+/**
+ * State of one episode going through the pipeline. Hooks may modify it, and
+ * later stages use what they leave.
+ */
+export interface PipelineContext {
+  /** The params of addEpisode; changes before embed apply to the whole episode */
+  params: AddEpisodeParams;
+  /** Set by embed */
+  episode?: EpisodicNodeImpl;
+  /** Set by extract; dropping an entity also drops its relations */
+  entities: ExtractedEntity[];
+  relations: ExtractedRelation[];
+  /** Set by resolve: the node of each of `entities`, in the same order */
+  entityNodes: EntityNodeImpl[];
+  /** Set by relate; dropping one keeps its fact out of the graph */
+  facts: ResolvedRelation[];
+}
+
+/**
+ * Code run before and/or after a stage of the pipeline, e.g. to redact content
+ * before embed, enrich or drop entities after extract, or veto facts after
+ * relate. A hook that throws fails the episode, rolling back its writes.
+ */
+export interface PipelineHook {
+  stage: PipelineStage;
+  before?: (context: PipelineContext) => void | Promise<void>;
+  after?: (context: PipelineContext) => void | Promise<void>;
+}
+
+export type GraphEventType =
+  | 'node.created'
+  | 'node.updated'
+  | 'node.deleted'
+  | 'edge.created'
+  | 'edge.updated'
+  | 'edge.invalidated'
+  | 'edge.deleted'
+  | 'episode.ingested';
+
+/**
+ * A change to the graph, emitted once it is committed. Node events cover
+ * entities, episodes and communities; nodes are never invalidated, only facts
+ * are. Edge events cover facts (RELATES_TO edges); MENTIONS and HAS_MEMBER
+ * edges follow their nodes and only get events when deleted with deleteEdge.
+ * Deleting a node also deletes its edges without further events.
+ */
+export interface GraphEvent {
+  type: GraphEventType;
+  groupId: string;
+  /** The node, edge or episode changed */
+  uuid: string;
+  /** Entity, Episodic, Community, RELATES_TO, MENTIONS or HAS_MEMBER */
+  label: string;
+  /**
+   * JSON-serializable details: the whole node or edge without embeddings when
+   * created, the changed properties when updated or invalidated, nothing when
+   * deleted, and the episode with the uuids of the entities it mentions when
+   * ingested
+   */
+  payload: Record<string, unknown>;
+  occurredAt: Date;
+}
+
+export type GraphEventListener = (event: GraphEvent) => void | Promise<void>;
+
 const ExtractedEntitySchema = z.object({
   name: z.string(),
   entityType: z.string(),
   summary: z.string(),
+  attributes: z.record(z.any()).nullable().optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -77,6 +419,11 @@ const ExtractedRelationSchema = z.object({
   sourceName: z.string(),
   targetName: z.string(),
   relationName: z.string(),
+  fact: z.string().nullable().optional(),
+  quote: z.string().nullable().optional(),
+  validAt: z.string().nullable().optional(),
+  invalidAt: z.string().nullable().optional(),
+  attributes: z.record(z.any()).nullable().optional(),
   metadata: z.record(z.any()).optional(),
 });
 
@@ -85,12 +432,488 @@ const ExtractionResultSchema = z.object({
   relations: z.array(ExtractedRelationSchema),
 });
 
+const EntityResolutionSchema = z.object({
+  duplicateOf: z.number().nullable(),
+  summary: z.string().nullable(),
+});
+
+const EntitySummarySchema = z.object({
+  summary: z.string(),
+});
+
+const CommunitySummarySchema = z.object({
+  name: z.string(),
+  summary: z.string(),
+});
+
+// Members shown to the LLM when summarizing a community
+const MAX_COMMUNITY_SUMMARY_MEMBERS = 30;
+
+// LLM calls in flight at once during addEpisodesBulk
+const DEFAULT_BULK_CONCURRENCY = 5;
+
+/** Descriptions queued on a rate-limited entity beyond this drop the oldest */
+const MAX_PENDING_SUMMARIES = 10;
+
+const ContradictionResultSchema = z.object({
+  contradictedFactIds: z.array(z.number()),
+});
+
+// Restricts `n` to nodes known at $asOf: entities from the first episode that
+// mentions them, episodes from their own validAt until their invalidAt.
+// `carried` names other variables to keep in scope.
+function nodeKnownAsOf(...carried: string[]): string {
+  return `
+  OPTIONAL MATCH (mentioning:Episodic)-[:MENTIONS]->(n)
+  WITH ${['n', ...carried].join(', ')}, min(mentioning.validAt) AS firstMentionedAt
+  WHERE coalesce(firstMentionedAt, n.validAt, n.createdAt) <= datetime($asOf)
+    AND (n.invalidAt IS NULL OR n.invalidAt > datetime($asOf))
+`;
+}
+
+function nodeLabelFilter(labels: string[]): string {
+  return `(${labels.map((label) => `n:${label}`).join(' OR ')})`;
+}
+
+// Restricts `r` to facts valid at $asOf
+const FACT_VALID_AS_OF = `
+  AND r.validAt <= datetime($asOf)
+  AND (r.invalidAt IS NULL OR r.invalidAt > datetime($asOf))
+`;
+
+// Binds `similarity` to the cosine similarity between `vector` and $embedding,
+// whose norm is passed as $queryNorm, keeping `carried` in scope
+function cosineSimilarityTo(vector: string, carried: string): string {
+  return `
+  WITH ${carried},
+    reduce(dot = 0.0, i IN range(0, size(${vector}) - 1) |
+      dot + ${vector}[i] * $embedding[i]
+    ) AS dot,
+    sqrt(reduce(norm = 0.0, x IN ${vector} | norm + x * x)) AS norm
+  WITH ${carried}, CASE WHEN norm = 0 THEN 0.0 ELSE dot / (norm * $queryNorm) END AS similarity
+`;
+}
+
+// Created by the Neo4j driver's createIndexes
+const NODE_FULLTEXT_INDEX = 'node_name_and_summary';
+const FACT_FULLTEXT_INDEX = 'edge_name_and_fact';
+const NEO4J_VECTOR_INDEXES: Record<string, string> = {
+  Entity: 'entity_embedding',
+  Episodic: 'episodic_embedding',
+  Community: 'community_embedding',
+  RELATES_TO: 'fact_embedding',
+};
+
+// Vector and full-text indexes span all groups, so they are asked for more hits
+// than needed before filtering by group
+const INDEX_OVERFETCH = 10;
+
+// What extraction sees of an episode
+type EpisodeContext = Pick<EpisodicNode, 'content' | 'episodeType' | 'validAt'>;
+
+interface MessageTurn {
+  speaker: string;
+  utterance: string;
+}
+
+// One "Speaker: utterance" line of a MESSAGE episode. The speaker is a name of
+// up to five words, each starting with a letter, so that times ("Meet at 10:30")
+// and links ("https://...") are not taken for speakers.
+const MESSAGE_TURN =
+  /^\s*(\p{L}[\p{L}\p{N}_.'-]*(?: \p{L}[\p{L}\p{N}_.'-]*){0,4})\s*:(?!\/\/)\s*(.*)$/u;
+
+// Split a MESSAGE episode into turns; lines without a speaker continue the previous turn
+function parseMessage(content: string): MessageTurn[] {
+  const turns: MessageTurn[] = [];
+  for (const line of content.split('\n')) {
+    const match = line.match(MESSAGE_TURN);
+    if (match) {
+      turns.push({ speaker: match[1], utterance: match[2].trim() });
+    } else if (turns.length > 0 && line.trim()) {
+      turns[turns.length - 1].utterance += `\n${line.trim()}`;
+    }
+  }
+  return turns;
+}
+
+// The other party of a message: another speaker in the same episode, otherwise
+// the latest other speaker among the previous MESSAGE episodes
+function findAddressee(
+  speaker: string,
+  turns: MessageTurn[],
+  previousEpisodes: EpisodeContext[],
+): string | undefined {
+  const isOther = (turn: MessageTurn) => normalizeName(turn.speaker) !== normalizeName(speaker);
+  const inMessage = turns.find(isOther);
+  if (inMessage) return inMessage.speaker;
+
+  for (const previous of [...previousEpisodes].reverse()) {
+    if (previous.episodeType !== EpisodeType.MESSAGE) continue;
+    const other = parseMessage(previous.content).reverse().find(isOther);
+    if (other) return other.speaker;
+  }
+  return undefined;
+}
+
+// Type of extracted entities that fit none of the custom entity types
+const DEFAULT_ENTITY_TYPE = 'Entity';
+
+// Name of relations whose type is not allowed between their entities
+const DEFAULT_EDGE_TYPE = 'RELATES_TO';
+
+// Custom entity or relation types and their fields as shown to the LLM
+function describeTypeSchemas(types: Record<string, z.ZodObject<z.ZodRawShape>>): string {
+  return Object.entries(types)
+    .map(([name, schema]) => {
+      const fields = Object.entries(schema.shape).map(
+        ([field, type]) =>
+          `   - ${field}${type.isOptional() ? ' (optional)' : ''}: ${type.description || ''}`,
+      );
+      return [`- ${name}${schema.description ? `: ${schema.description}` : ''}`, ...fields].join(
+        '\n',
+      );
+    })
+    .join('\n');
+}
+
+// Allowed relation types between entity types as shown to the LLM
+function describeEdgeTypeMap(edgeTypeMap: EdgeTypeMapping[]): string {
+  const describe = (entityType: string) =>
+    entityType === DEFAULT_ENTITY_TYPE ? 'any entity' : entityType;
+  return edgeTypeMap
+    .map(({ source, target, edgeTypes }) => {
+      return `- ${describe(source)} -> ${describe(target)}: ${edgeTypes.join(', ')}`;
+    })
+    .join('\n');
+}
+
+function isAttributeValue(value: unknown): value is EntityAttributeValue {
+  return (
+    ['string', 'number', 'boolean'].includes(typeof value) ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+  );
+}
+
+// The fields of `raw` that are valid for their entity type, one field at a time
+// so a single bad value does not drop the rest
+function typedAttributes(
+  schema: z.ZodObject<z.ZodRawShape>,
+  raw: Record<string, unknown> | null | undefined,
+): Record<string, EntityAttributeValue> {
+  const attributes: Record<string, EntityAttributeValue> = {};
+  for (const [field, type] of Object.entries(schema.shape)) {
+    const parsed = type.safeParse(raw?.[field]);
+    if (parsed.success && isAttributeValue(parsed.data)) {
+      attributes[field] = parsed.data;
+    }
+  }
+  return attributes;
+}
+
+// Relation names compared regardless of case and separators: works_at = Works At = WORKS_AT
+function relationKey(name: string): string {
+  return name
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Normalise extracted relation names to the registered relation types and keep
+ * each typed relation only between entity types it is allowed for; the rest
+ * fall back as described for AddEpisodeParams.edgeTypeFallback.
+ */
+function applyEdgeTypes(
+  relations: z.infer<typeof ExtractedRelationSchema>[],
+  entities: ExtractedEntity[],
+  edgeTypes: EdgeTypeSchemas,
+  edgeTypeMap: EdgeTypeMapping[] | undefined,
+  fallback: 'generic' | 'reject',
+): ExtractedRelation[] {
+  const typesByKey = new Map(Object.keys(edgeTypes).map((name) => [relationKey(name), name]));
+  const entityTypeOf = new Map(entities.map((entity) => [entity.name, entity.entityType]));
+  const mappings = edgeTypeMap || [
+    { source: DEFAULT_ENTITY_TYPE, target: DEFAULT_ENTITY_TYPE, edgeTypes: Object.keys(edgeTypes) },
+  ];
+  const matches = (mapped: string, entityType: string | undefined) =>
+    mapped === DEFAULT_ENTITY_TYPE || mapped === entityType;
+
+  return relations.flatMap(({ attributes, ...relation }) => {
+    const edgeType = typesByKey.get(relationKey(relation.relationName));
+    if (!edgeType) {
+      return fallback === 'reject' ? [] : [relation];
+    }
+
+    const sourceType = entityTypeOf.get(relation.sourceName);
+    const targetType = entityTypeOf.get(relation.targetName);
+    const allowed = mappings.some(
+      (mapping) =>
+        matches(mapping.source, sourceType) &&
+        matches(mapping.target, targetType) &&
+        mapping.edgeTypes.includes(edgeType),
+    );
+    if (allowed) {
+      return [
+        {
+          ...relation,
+          relationName: edgeType,
+          attributes: typedAttributes(edgeTypes[edgeType], attributes),
+        },
+      ];
+    }
+    return fallback === 'reject' ? [] : [{ ...relation, relationName: DEFAULT_EDGE_TYPE }];
+  });
+}
+
+function matchesAttributes(
+  node: Node,
+  attributes: Record<string, EntityAttributeValue> | undefined,
+): boolean {
+  if (!attributes) return true;
+  const actual = node instanceof EntityNodeImpl ? node.attributes : {};
+  return Object.entries(attributes).every(
+    ([key, value]) => JSON.stringify(actual[key]) === JSON.stringify(value),
+  );
+}
+
+// Conditions on `n` for the entity type and attribute filters of a node search.
+// Attributes are stored as JSON, so each is pre-filtered by its serialized
+// key-value pair and checked exactly once loaded.
+function entityPropertyFilter(filter: NodeSearchFilter): string {
+  const conditions = Object.keys(filter.attributes || {}).map(
+    (_, i) => `AND n.attributes CONTAINS $attribute${i}`,
+  );
+  if (filter.entityTypes) {
+    conditions.unshift('AND n.entityType IN $entityTypes');
+  }
+  return conditions.join(' ');
+}
+
+function entityPropertyParams(filter: NodeSearchFilter): Record<string, unknown> {
+  const params: Record<string, unknown> = { entityTypes: filter.entityTypes };
+  Object.entries(filter.attributes || {}).forEach(([key, value], i) => {
+    params[`attribute${i}`] = JSON.stringify({ [key]: value }).slice(1, -1);
+  });
+  return params;
+}
+
+/**
+ * The sentence of `content` sharing the most words with `fact`, for facts
+ * extracted without a quote
+ */
+function findQuote(content: string, fact: string): string | null {
+  const factTokens = new Set(nameTokens(fact));
+  let best: { sentence: string; overlap: number } | null = null;
+  for (const sentence of content.split(/(?<=[.!?])\s+|\n+/)) {
+    const overlap = new Set(nameTokens(sentence).filter((token) => factTokens.has(token))).size;
+    if (overlap > (best?.overlap ?? 0)) {
+      best = { sentence: sentence.trim(), overlap };
+    }
+  }
+  return best?.sentence ?? null;
+}
+
+// Queue the writes of a resolved entity after those queued for it before
+function queueEntityWrites(queue: Map<string, PendingWrite[]>, resolved: ResolvedEntity): void {
+  queue.set(resolved.node.uuid, [...(queue.get(resolved.node.uuid) ?? []), ...resolved.writes]);
+}
+
+// Pair each relation with the nodes its entities resolved to, by extracted or
+// resolved name, dropping relations whose entities are not both known
+function relateEntities(
+  relations: ExtractedRelation[],
+  entities: ExtractedEntity[],
+  entityNodes: EntityNodeImpl[],
+): ResolvedRelation[] {
+  // Several extracted names may resolve to the same node
+  const nodesByName = new Map<string, EntityNodeImpl>();
+  entities.forEach((entity, i) => {
+    nodesByName.set(entity.name, entityNodes[i]);
+    nodesByName.set(entityNodes[i].name, entityNodes[i]);
+  });
+
+  return relations.flatMap((relation) => {
+    const source = nodesByName.get(relation.sourceName);
+    const target = nodesByName.get(relation.targetName);
+    return source && target ? [{ relation, source, target }] : [];
+  });
+}
+
+// Properties of a node or edge as sent with events: embeddings are left out
+// and dates serialized
+function eventPayload(item: Node | Edge): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(item)
+      .filter(([key, value]) => value !== undefined && !/embedding$/i.test(key))
+      .map(([key, value]) => [key, value instanceof Date ? value.toISOString() : value]),
+  );
+}
+
+// Entity edge from a RELATES_TO row, as returned by any driver
+function entityEdgeFromRow(
+  data: any,
+  sourceNodeUuid: string,
+  targetNodeUuid: string,
+): EntityEdgeImpl {
+  return new EntityEdgeImpl({
+    ...data,
+    sourceNodeUuid,
+    targetNodeUuid,
+    createdAt: parseDbDate(data.createdAt) ?? undefined,
+    validAt: parseDbDate(data.validAt)!,
+    invalidAt: parseDbDate(data.invalidAt) ?? undefined,
+    expiredAt: parseDbDate(data.expiredAt) ?? undefined,
+  });
+}
+
+// Keys under which an episode is stored only once: its uuid, and its
+// referenceId within its group
+function episodeKeys(params: AddEpisodeParams, groupId: string): string[] {
+  return [
+    params.uuid && `uuid\u0000${params.uuid}`,
+    params.referenceId && `reference\u0000${groupId}\u0000${params.referenceId}`,
+  ].filter((key): key is string => Boolean(key));
+}
+
+function edgeLabel(edge: Edge): string {
+  if (edge instanceof EpisodicEdgeImpl) return 'MENTIONS';
+  if (edge instanceof CommunityEdgeImpl) return 'HAS_MEMBER';
+  return 'RELATES_TO';
+}
+
+// Retrieval methods of a search type; BFS only runs around a center node
+function searchMethods(searchType: SearchParams['searchType'] = 'hybrid'): SearchMethod[] {
+  const methods: SearchMethod[] = ['bfs'];
+  if (searchType !== 'semantic') methods.push('bm25');
+  if (searchType !== 'keyword') methods.push('cosine_similarity');
+  return methods;
+}
+
+function checkReranker(config: LayerSearchConfig, params: GraphSearchParams): void {
+  if (config.reranker === 'node_distance' && !params.centerNodeUuid) {
+    throw new Error('The node_distance reranker requires a centerNodeUuid');
+  }
+}
+
+// Text of a node the cross-encoder compares with the query
+function nodePassage(node: Node): string {
+  if (node instanceof EpisodicNodeImpl) return node.content;
+  if (node instanceof EntityNodeImpl || node instanceof CommunityNodeImpl) {
+    return node.summary ? `${node.name}: ${node.summary}` : node.name;
+  }
+  return node.name;
+}
+
+function newPipelineContext(params: AddEpisodeParams): PipelineContext {
+  return { params, entities: [], relations: [], entityNodes: [], facts: [] };
+}
+
+function toError(reason: unknown): Error {
+  return reason instanceof Error ? reason : new Error(String(reason));
+}
+
+function hasVectorIndexes(provider: GraphProvider): boolean {
+  return provider === GraphProvider.NEO4J || provider === GraphProvider.FALKORDB;
+}
+
+// Binds `n` (or `r` for relationships) and its cosine `similarity` to $embedding
+// for the nearest neighbours in the native vector index over `label`
+function vectorIndexQuery(
+  provider: GraphProvider,
+  kind: 'node' | 'relationship',
+  label: string,
+  limit: number,
+): string {
+  const k = limit * INDEX_OVERFETCH;
+  const [procedure, variable] = kind === 'node' ? ['queryNodes', 'n'] : ['queryRelationships', 'r'];
+  const property = kind === 'node' ? 'embedding' : 'factEmbedding';
+
+  // Neo4j scores cosine similarity as (1 + cos) / 2, FalkorDB returns the cosine distance
+  return provider === GraphProvider.NEO4J
+    ? `
+      CALL db.index.vector.${procedure}('${NEO4J_VECTOR_INDEXES[label]}', ${k}, $embedding)
+      YIELD ${kind} AS ${variable}, score
+      WITH ${variable}, 2 * score - 1 AS similarity`
+    : `
+      CALL db.idx.vector.${procedure}('${label}', '${property}', ${k}, vecf32($embedding))
+      YIELD ${kind} AS ${variable}, score
+      WITH ${variable}, 1 - score AS similarity`;
+}
+
+const NODE_TYPE_LABELS = {
+  entity: 'Entity',
+  episodic: 'Episodic',
+  community: 'Community',
+} as const;
+
+interface NodeSearchFilter {
+  groupId: string;
+  labels: string[];
+  entityTypes?: string[];
+  attributes?: Record<string, EntityAttributeValue>;
+  asOf?: Date;
+  limit: number;
+}
+
+interface FactSearchFilter {
+  groupId: string;
+  asOf?: Date;
+  limit: number;
+}
+
+interface SearchCandidate {
+  uuid: string;
+  embedding?: number[];
+  score: number;
+}
+
+interface NodeSearchCandidate extends SearchCandidate {
+  node: Node;
+}
+
+interface FactSearchCandidate extends SearchCandidate {
+  edge: EntityEdgeImpl;
+  sourceNode: EntityNodeImpl;
+  targetNode: EntityNodeImpl;
+}
+
+interface TransactionScope {
+  driver: GraphDriver;
+  events: GraphEvent[];
+}
+
+/**
+ * A graph write computed before the transaction that applies it, so that no
+ * LLM or embedder call runs while a transaction is open
+ */
+type PendingWrite = () => Promise<void>;
+
+/** The node an extracted entity resolved to and the writes saving or updating it */
+interface ResolvedEntity {
+  node: EntityNodeImpl;
+  writes: PendingWrite[];
+}
+
 export class Graphzep {
-  private driver: GraphDriver;
+  private baseDriver: GraphDriver;
+  /**
+   * Driver view of the transaction the current call runs in, if any, and the
+   * events held back until it commits
+   */
+  private transactionScope = new AsyncLocalStorage<TransactionScope>();
+  /** Ingestions in progress by episode key, see `episodeKeys` */
+  private episodeLocks = new Map<string, Promise<void>>();
+  private listeners = new Map<GraphEventType | '*', Set<GraphEventListener>>();
   private llmClient: BaseLLMClient;
   private embedder: BaseEmbedderClient;
+  private crossEncoder: CrossEncoderClient;
   private defaultGroupId: string;
   private ensureAscii: boolean;
+  private entityResolution: Required<EntityResolutionConfig>;
+  private previousEpisodesWindow: number;
+  private summaryRefresh: Required<SummaryRefreshConfig>;
+  private hooks: PipelineHook[];
   
   // RDF-specific components
   private rdfMapper?: RDFMemoryMapper;
@@ -99,11 +922,22 @@ export class Graphzep {
   private isRDFEnabled: boolean;
 
   constructor(config: GraphzepConfig) {
-    this.driver = config.driver;
+    this.baseDriver = config.driver;
     this.llmClient = config.llmClient;
     this.embedder = config.embedder;
+    this.crossEncoder = config.crossEncoder ?? new LLMRerankerClient(config.llmClient);
     this.defaultGroupId = config.groupId || 'default';
     this.ensureAscii = config.ensureAscii ?? false;
+    this.entityResolution = {
+      embeddingThreshold: config.entityResolution?.embeddingThreshold ?? 0.85,
+      nameThreshold: config.entityResolution?.nameThreshold ?? 0.5,
+      maxCandidates: config.entityResolution?.maxCandidates ?? 5,
+    };
+    this.previousEpisodesWindow = config.previousEpisodesWindow ?? 3;
+    this.summaryRefresh = {
+      minInterval: config.summaryRefresh?.minInterval ?? 60_000,
+    };
+    this.hooks = [...(config.hooks ?? [])];
     
     // Initialize RDF components if using RDF driver
     this.isRDFEnabled = this.driver.provider === GraphProvider.RDF;
@@ -113,6 +947,136 @@ export class Graphzep {
     }
   }
   
+  private get driver(): GraphDriver {
+    return this.transactionScope.getStore()?.driver ?? this.baseDriver;
+  }
+
+  /**
+   * Run `fn` in a driver transaction: the queries it issues are committed
+   * together when it resolves and rolled back when it throws. With `batched`,
+   * a driver without transactions runs `fn` in a write batch if it has them.
+   * Runs `fn` directly when the driver has neither or a transaction is
+   * already open.
+   */
+  private async inTransaction<T>(fn: () => Promise<T>, batched = false): Promise<T> {
+    const driver = this.baseDriver;
+    const begin =
+      driver.beginTransaction?.bind(driver) ??
+      (batched ? driver.beginWriteBatch?.bind(driver) : undefined);
+    if (this.transactionScope.getStore() || !begin) {
+      return fn();
+    }
+
+    const transaction = await begin();
+    const scope: TransactionScope = {
+      driver: transactionDriver(this.baseDriver, transaction),
+      events: [],
+    };
+    let result: T;
+    try {
+      result = await this.transactionScope.run(scope, fn);
+    } catch (error) {
+      try {
+        await transaction.rollback();
+      } catch (rollbackError) {
+        console.error('Transaction rollback failed:', rollbackError);
+      }
+      throw error;
+    }
+    await transaction.commit();
+    scope.events.forEach((event) => this.dispatch(event));
+    return result;
+  }
+
+  /**
+   * Run `fn` as inTransaction does, or in a write batch on drivers that only
+   * have those, so `fn` must not depend on the rows or effects of its own writes
+   */
+  private async inWriteTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.inTransaction(fn, true);
+  }
+
+  /**
+   * Listen to graph events of one type, or of every type with '*'
+   */
+  on(type: GraphEventType | '*', listener: GraphEventListener): this {
+    const listeners = this.listeners.get(type) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(type, listeners);
+    return this;
+  }
+
+  off(type: GraphEventType | '*', listener: GraphEventListener): this {
+    this.listeners.get(type)?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Emit an event now, or when the transaction the current call runs in commits
+   */
+  private emit(event: Omit<GraphEvent, 'occurredAt'>): void {
+    const scope = this.transactionScope.getStore();
+    const occurred = { ...event, occurredAt: utcNow() };
+    if (scope) {
+      scope.events.push(occurred);
+    } else {
+      this.dispatch(occurred);
+    }
+  }
+
+  private emitNodeEvent(
+    type: GraphEventType,
+    node: Node,
+    payload: Record<string, unknown> = type === 'node.created' ? eventPayload(node) : {},
+  ): void {
+    this.emit({ type, groupId: node.groupId, uuid: node.uuid, label: node.labels[0], payload });
+  }
+
+  private emitNodesDeleted(label: string, groupId: string, uuids: string[]): void {
+    for (const uuid of uuids) {
+      this.emit({ type: 'node.deleted', groupId, uuid, label, payload: {} });
+    }
+  }
+
+  private emitEdgeEvent(
+    type: GraphEventType,
+    edge: Pick<Edge, 'uuid' | 'groupId'>,
+    payload: Record<string, unknown> = {},
+    label = 'RELATES_TO',
+  ): void {
+    this.emit({ type, groupId: edge.groupId, uuid: edge.uuid, label, payload });
+  }
+
+  private emitEpisodeIngested({ episode, entityNodes }: PipelineContext): void {
+    this.emit({
+      type: 'episode.ingested',
+      groupId: episode!.groupId,
+      uuid: episode!.uuid,
+      label: 'Episodic',
+      payload: {
+        ...eventPayload(episode!),
+        entityUuids: [...new Set(entityNodes.map((entity) => entity.uuid))],
+      },
+    });
+  }
+
+  // Listeners cannot fail the change they are told about, so their errors are logged
+  private dispatch(event: GraphEvent): void {
+    const listeners = [
+      ...(this.listeners.get(event.type) ?? []),
+      ...(this.listeners.get('*') ?? []),
+    ];
+    for (const listener of listeners) {
+      try {
+        Promise.resolve(listener(event)).catch((error) =>
+          console.error(`Graph event listener failed for ${event.type}:`, error),
+        );
+      } catch (error) {
+        console.error(`Graph event listener failed for ${event.type}:`, error);
+      }
+    }
+  }
+
   private async initializeRDFComponents(config: GraphzepConfig): Promise<void> {
     if (!(this.driver instanceof OptimizedRDFDriver)) return;
     
@@ -137,38 +1101,76 @@ export class Graphzep {
     this.sparqlInterface = new ZepSPARQLInterface(this.driver, nsManager);
   }
 
+  /**
+   * Register a hook run around a stage of episode ingestion, after the hooks
+   * registered before it
+   */
+  use(hook: PipelineHook): this {
+    this.hooks.push(hook);
+    return this;
+  }
+
+  /**
+   * Ingest an episode through the embed, extract, resolve, relate and persist
+   * stages, running the registered hooks around each. Concurrent calls for the
+   * same uuid or referenceId run one after the other.
+   */
   async addEpisode(params: AddEpisodeParams): Promise<EpisodicNode> {
-    const groupId = params.groupId || this.defaultGroupId;
-    const episodeType = params.episodeType || EpisodeType.TEXT;
+    return this.withEpisodeLock([params], () => this.ingestEpisode(params));
+  }
 
-    const embedding = await this.embedder.embed(params.content);
+  /**
+   * Run `fn` once no other ingestion of an episode with the same keys as any
+   * of `episodes` is in progress in this instance
+   */
+  private async withEpisodeLock<T>(episodes: AddEpisodeParams[], fn: () => Promise<T>): Promise<T> {
+    const keys = [
+      ...new Set(
+        episodes.flatMap((params) => episodeKeys(params, params.groupId || this.defaultGroupId)),
+      ),
+    ];
+    const previous = keys.map((key) => this.episodeLocks.get(key));
+    let release!: () => void;
+    const done = new Promise<void>((resolve) => (release = resolve));
+    keys.forEach((key) => this.episodeLocks.set(key, done));
 
-    // Create episodic node
-    const episodicNode = new EpisodicNodeImpl({
-      uuid: '',
-      name: params.content.substring(0, 50),
-      groupId,
-      episodeType,
-      content: params.content,
-      embedding,
-      validAt: utcNow(),
-      referenceId: params.referenceId,
-      labels: [],
-      createdAt: utcNow(),
-    });
+    try {
+      await Promise.all(previous);
+      return await fn();
+    } finally {
+      release();
+      keys.forEach((key) => {
+        if (this.episodeLocks.get(key) === done) this.episodeLocks.delete(key);
+      });
+    }
+  }
 
-    // Handle RDF storage if enabled
-    if (this.isRDFEnabled && this.rdfMapper && this.driver instanceof OptimizedRDFDriver) {
+  private async ingestEpisode(params: AddEpisodeParams): Promise<EpisodicNode> {
+    const context = newPipelineContext(params);
+
+    await this.runHooks('before', 'embed', context);
+    const existing = this.isRDFEnabled ? null : await this.findEpisode(context.params);
+    if (existing && existing.content === context.params.content) {
+      return existing;
+    }
+
+    const embedding = await this.embedder.embed(context.params.content);
+    const episodicNode = this.createEpisodicNode(context.params, embedding, existing);
+    context.episode = episodicNode;
+    await this.runHooks('after', 'embed', context);
+
+    // Handle RDF storage if enabled
+    if (this.isRDFEnabled && this.rdfMapper && this.driver instanceof OptimizedRDFDriver) {
       const zepMemory: ZepMemory = {
         uuid: episodicNode.uuid || '',
-        sessionId: groupId,
-        content: params.content,
+        sessionId: episodicNode.groupId,
+        content: episodicNode.content,
         memoryType: MemoryType.EPISODIC,
         embedding,
-        metadata: params.metadata,
+        metadata: context.params.metadata,
         createdAt: utcNow(),
         accessCount: 0,
-        validFrom: utcNow(),
+        validFrom: episodicNode.validAt,
         facts: []
       };
 
@@ -189,252 +1191,2979 @@ export class Graphzep {
     }
 
     // Traditional graph processing for non-RDF drivers
-    await episodicNode.save(this.driver);
+    await this.runStage('extract', context, async () => {
+      const extracted = await this.extractEpisode(
+        episodicNode,
+        context.params,
+        await this.getPreviousEpisodes(episodicNode),
+      );
+      context.entities = extracted.entities;
+      context.relations = extracted.relations;
+    });
 
-    const extractedData = await this.extractEntitiesAndRelations(params.content);
+    let entityWrites = new Map<string, PendingWrite[]>();
+    await this.runStage('resolve', context, async () => {
+      const resolved = await this.processExtractedEntities(context.entities, episodicNode.groupId);
+      context.entityNodes = resolved.nodes;
+      entityWrites = resolved.writes;
+    });
+    await this.runStage('relate', context, async () => {
+      context.facts = relateEntities(context.relations, context.entities, context.entityNodes);
+    });
+    await this.persistEpisode(context, entityWrites, existing);
 
-    const entityNodes = await this.processExtractedEntities(extractedData.entities, groupId);
+    return episodicNode;
+  }
 
-    await this.linkEpisodeToEntities(episodicNode, entityNodes);
+  /**
+   * Ingest several episodes at once. Episode contents and entity summaries are
+   * embedded in batched calls, extraction runs with at most `concurrency` LLM
+   * calls in flight, and entities are deduplicated across the whole batch
+   * before anything is written. Episodes are then written in input order so
+   * later facts can invalidate earlier ones, each in a transaction of its own
+   * that also writes its entities not written by an earlier episode. A
+   * failing episode, or a failing batched call, does not abort the batch; the
+   * episode's writes are rolled back and its error is reported in its result
+   * instead. Episodes already stored, or
+   * repeated within the batch, are ingested as by addEpisode after the others.
+   * Concurrent addEpisode calls for an episode of the batch wait until the
+   * whole batch is written. Pipeline hooks run for each episode as in addEpisode, though the resolve
+   * stage itself is shared by the whole batch.
+   */
+  async addEpisodesBulk(
+    episodes: AddEpisodeParams[],
+    options: AddEpisodesBulkOptions = {},
+  ): Promise<BulkEpisodeResult[]> {
+    const concurrency = options.concurrency ?? DEFAULT_BULK_CONCURRENCY;
+    if (episodes.length === 0) return [];
 
-    await this.processExtractedRelations(extractedData.relations, entityNodes, groupId);
+    if (this.isRDFEnabled) {
+      const settled = await mapWithConcurrency(episodes, concurrency, (params) =>
+        this.addEpisode(params),
+      );
+      return settled.map((result) =>
+        result.status === 'fulfilled'
+          ? { success: true, episode: result.value }
+          : { success: false, error: toError(result.reason) },
+      );
+    }
 
-    return episodicNode;
+    return this.withEpisodeLock(episodes, () => this.ingestEpisodesBulk(episodes, concurrency));
   }
 
-  private async extractEntitiesAndRelations(content: string): Promise<{
-    entities: ExtractedEntity[];
-    relations: ExtractedRelation[];
-  }> {
-    const prompt = `
-Extract entities and their relationships from the following text.
-
-Text: ${content}
+  private async ingestEpisodesBulk(
+    episodes: AddEpisodeParams[],
+    concurrency: number,
+  ): Promise<BulkEpisodeResult[]> {
+    // Repeats of stored episodes, or of earlier ones in the batch, are ingested
+    // one by one once the batch before them is written
+    const seenKeys = new Set<string>();
+    const repeated = await Promise.all(
+      episodes.map(async (params) => {
+        const batchKeys = episodeKeys(params, params.groupId || this.defaultGroupId);
+        const seen = batchKeys.some((key) => seenKeys.has(key));
+        batchKeys.forEach((key) => seenKeys.add(key));
+        return seen || (await this.findEpisode(params)) !== null;
+      }),
+    );
 
-Instructions:
-1. Identify all entities (people, places, organizations, concepts, etc.)
-2. For each entity, provide:
-   - name: The entity's name
-   - entityType: The type/category of the entity
-   - summary: A brief description of the entity based on the context
-3. Identify relationships between entities
-4. For each relationship, provide:
-   - sourceName: The name of the source entity
-   - targetName: The name of the target entity
-   - relationName: The nature/type of the relationship
+    // Each stage runs for the episodes no earlier stage or hook failed
+    const contexts = episodes.map(newPipelineContext);
+    const failures = new Map<number, Error>();
+    const active = (i: number) => !repeated[i] && !failures.has(i);
+    const forEachActive = async (step: (context: PipelineContext) => Promise<void>) => {
+      for (const [i, context] of contexts.entries()) {
+        if (!active(i)) continue;
+        await step(context).catch((error) => failures.set(i, toError(error)));
+      }
+    };
 
-Respond with valid JSON matching this structure:
-{
-  "entities": [
-    {
-      "name": "string",
-      "entityType": "string",
-      "summary": "string"
-    }
-  ],
-  "relations": [
-    {
-      "sourceName": "string",
-      "targetName": "string",
-      "relationName": "string"
+    await forEachActive((context) => this.runHooks('before', 'embed', context));
+    const embedded = contexts.flatMap((context, i) => (active(i) ? [{ context, i }] : []));
+    try {
+      const embeddings =
+        embedded.length > 0
+          ? await this.embedder.embedBatch(embedded.map(({ context }) => context.params.content))
+          : [];
+      embedded.forEach(({ context }, i) => {
+        context.episode = this.createEpisodicNode(context.params, embeddings[i]);
+      });
+    } catch (error) {
+      embedded.forEach(({ i }) => failures.set(i, toError(error)));
     }
-  ]
-}`;
+    await forEachActive((context) => this.runHooks('after', 'embed', context));
 
-    const response = await this.llmClient.generateStructuredResponse(
-      prompt,
-      ExtractionResultSchema,
-    );
+    // Earlier episodes of the batch are not in the graph yet, so they join the
+    // context fetched from it
+    const precedes = (j: number, i: number) => {
+      const [other, episode] = [contexts[j].episode, contexts[i].episode!];
+      if (!other) return false;
+      const order = other.validAt.getTime() - episode.validAt.getTime() || j - i;
+      return !repeated[j] && other.groupId === episode.groupId && order < 0;
+    };
+    const extractions = await mapWithConcurrency(contexts, concurrency, async (context, i) => {
+      if (!active(i)) return;
+      const episode = context.episode!;
+      await this.runStage('extract', context, async () => {
+        const previousEpisodes = [
+          ...(await this.getPreviousEpisodes(episode)),
+          ...contexts.flatMap((other, j) => (precedes(j, i) ? [other.episode!] : [])),
+        ].sort((x, y) => x.validAt.getTime() - y.validAt.getTime());
+        const extracted = await this.extractEpisode(
+          episode,
+          context.params,
+          previousEpisodes.slice(
+            Math.max(0, previousEpisodes.length - this.previousEpisodesWindow),
+          ),
+        );
+        context.entities = extracted.entities;
+        context.relations = extracted.relations;
+      });
+    });
+    extractions.forEach((extraction, i) => {
+      if (extraction.status === 'rejected') failures.set(i, toError(extraction.reason));
+    });
 
-    return response;
-  }
+    await forEachActive((context) => this.runHooks('before', 'resolve', context));
 
-  private async processExtractedEntities(
-    entities: ExtractedEntity[],
-    groupId: string,
-  ): Promise<EntityNodeImpl[]> {
-    const processedEntities: EntityNodeImpl[] = [];
+    // The same entity extracted from several episodes is resolved only once
+    const entityKey = (groupId: string, entity: ExtractedEntity) =>
+      `${groupId}\u0000${normalizeName(entity.name)}`;
+    const batchEntities = new Map<string, { groupId: string; extracted: ExtractedEntity[] }>();
+    contexts.forEach((context, i) => {
+      if (!active(i)) return;
+      const groupId = context.episode!.groupId;
+      for (const entity of context.entities) {
+        const key = entityKey(groupId, entity);
+        const group = batchEntities.get(key) ?? { groupId, extracted: [] };
+        group.extracted.push(entity);
+        batchEntities.set(key, group);
+      }
+    });
 
-    for (const entity of entities) {
-      const existing = await this.findExistingEntity(entity.name, groupId);
+    const keys = [...batchEntities.keys()];
+    const combined = await mapWithConcurrency(keys, concurrency, (key) =>
+      this.combineExtractedEntities(batchEntities.get(key)!.extracted),
+    );
 
-      if (existing) {
-        processedEntities.push(existing);
-      } else {
-        const embedding = await this.embedder.embed(entity.summary);
+    const entities = new Map<string, ExtractedEntity>();
+    const entityErrors = new Map<string, Error>();
+    combined.forEach((result, i) => {
+      if (result.status === 'fulfilled') entities.set(keys[i], result.value);
+      else entityErrors.set(keys[i], toError(result.reason));
+    });
 
-        const entityNode = new EntityNodeImpl({
-          uuid: '',
-          name: entity.name,
-          groupId,
-          entityType: entity.entityType,
-          summary: entity.summary,
-          summaryEmbedding: embedding,
-          labels: [],
-          createdAt: utcNow(),
-        });
+    const resolvable = [...entities.keys()];
+    let summaryEmbeddings: number[][] = [];
+    try {
+      summaryEmbeddings =
+        resolvable.length > 0
+          ? await this.embedder.embedBatch(resolvable.map((key) => entities.get(key)!.summary))
+          : [];
+    } catch (error) {
+      resolvable.forEach((key) => entityErrors.set(key, toError(error)));
+    }
 
-        await entityNode.save(this.driver);
-        processedEntities.push(entityNode);
+    // Resolved one at a time so entities created earlier in the batch are
+    // candidates for later ones. Their writes wait for the first episode
+    // mentioning them that commits.
+    const entityNodes = new Map<string, EntityNodeImpl>();
+    const entityWrites = new Map<string, PendingWrite[]>();
+    const created: EntityNodeImpl[] = [];
+    for (const [i, key] of resolvable.entries()) {
+      if (entityErrors.has(key)) continue;
+      try {
+        const resolved = await this.resolveExtractedEntity(
+          entities.get(key)!,
+          summaryEmbeddings[i],
+          batchEntities.get(key)!.groupId,
+          created,
+        );
+        entityNodes.set(key, resolved.node);
+        queueEntityWrites(entityWrites, resolved);
+      } catch (error) {
+        entityErrors.set(key, toError(error));
       }
     }
 
-    return processedEntities;
-  }
+    const results: BulkEpisodeResult[] = [];
+    for (const [i, context] of contexts.entries()) {
+      if (repeated[i]) {
+        try {
+          results.push({ success: true, episode: await this.ingestEpisode(episodes[i]) });
+        } catch (error) {
+          results.push({ success: false, error: toError(error) });
+        }
+        continue;
+      }
 
-  private async findExistingEntity(name: string, groupId: string): Promise<EntityNodeImpl | null> {
-    const result = await this.driver.executeQuery<any[]>(
-      `
-      MATCH (n:Entity {name: $name, groupId: $groupId})
-      RETURN n
-      LIMIT 1
-      `,
-      { name, groupId },
-    );
+      const failure = failures.get(i);
+      if (failure) {
+        results.push({ success: false, error: failure });
+        continue;
+      }
 
-    if (result.length === 0) {
-      return null;
+      const episode = context.episode!;
+      try {
+        context.entityNodes = context.entities.map((entity) => {
+          const key = entityKey(episode.groupId, entity);
+          const error = entityErrors.get(key);
+          if (error) throw error;
+          return entityNodes.get(key)!;
+        });
+        await this.runHooks('after', 'resolve', context);
+
+        await this.runStage('relate', context, async () => {
+          context.facts = relateEntities(context.relations, context.entities, context.entityNodes);
+        });
+        await this.persistEpisode(context, entityWrites);
+        context.entityNodes.forEach((node) => entityWrites.delete(node.uuid));
+        results.push({ success: true, episode });
+      } catch (error) {
+        results.push({ success: false, error: toError(error) });
+      }
     }
 
-    return new EntityNodeImpl(result[0].n);
+    return results;
   }
 
-  private async linkEpisodeToEntities(
-    episode: EpisodicNodeImpl,
-    entities: EntityNodeImpl[],
-  ): Promise<void> {
-    for (const entity of entities) {
-      const edge = new EpisodicEdgeImpl({
-        uuid: '',
-        groupId: episode.groupId,
-        sourceNodeUuid: episode.uuid,
-        targetNodeUuid: entity.uuid,
-        createdAt: utcNow(),
-      });
+  /**
+   * Ingest a long text as a Document node whose chunks are episodes. The text
+   * is split into overlapping chunks that go through addEpisodesBulk, so
+   * entities are deduplicated across chunks and earlier chunks are context for
+   * later ones. The document links to each ingested chunk with a HAS_CHUNK
+   * edge holding its index, and each chunk to the next one ingested with a
+   * NEXT edge. Failed chunks are reported in the result and left out. If the
+   * document cannot be written, the chunks this call stored are removed.
+   *
+   * A document with a referenceId is stored once per group: adding it again
+   * updates the stored document, re-extracting only the chunks whose text
+   * changed and removing the chunks past its new end.
+   */
+  async addDocument(
+    params: AddDocumentParams,
+    options: AddEpisodesBulkOptions = {},
+  ): Promise<AddDocumentResult> {
+    const groupId = params.groupId || this.defaultGroupId;
+    // Chunks share the document's time, so the bulk ingestion keeps them in order
+    const referenceTime = params.referenceTime || utcNow();
+    const chunks = chunkText(params.content, params);
+    const stored = params.referenceId ? await this.findDocument(groupId, params.referenceId) : null;
 
-      await edge.save(this.driver);
-    }
-  }
+    const results = await this.addEpisodesBulk(
+      chunks.map((chunk, i) => ({
+        name: `${params.name} (${i + 1}/${chunks.length})`,
+        content: chunk.content,
+        groupId,
+        // Chunks of a stored document are repeats of its earlier chunks
+        referenceId: params.referenceId && `${params.referenceId}#${i}`,
+        referenceTime,
+        entityTypes: params.entityTypes,
+        edgeTypes: params.edgeTypes,
+        edgeTypeMap: params.edgeTypeMap,
+        edgeTypeFallback: params.edgeTypeFallback,
+      })),
+      options,
+    );
 
-  private async processExtractedRelations(
-    relations: ExtractedRelation[],
-    entities: EntityNodeImpl[],
-    groupId: string,
-  ): Promise<void> {
-    const entityMap = new Map(entities.map((e) => [e.name, e]));
+    const document: DocumentNode = {
+      uuid: stored?.document.uuid ?? uuidv4(),
+      name: params.name,
+      groupId,
+      referenceId: params.referenceId,
+      chunkCount: chunks.length,
+      createdAt: stored?.document.createdAt ?? utcNow(),
+    };
+    const ingested = results.flatMap((result, index) =>
+      result.success ? [{ index, uuid: result.episode.uuid }] : [],
+    );
 
-    for (const relation of relations) {
-      const source = entityMap.get(relation.sourceName);
-      const target = entityMap.get(relation.targetName);
+    try {
+      await this.inWriteTransaction(async () => {
+        if (stored) {
+          await this.driver.executeQuery(
+            `
+            MATCH (d:Document {uuid: $uuid})-[c:HAS_CHUNK]->(e:Episodic)
+            OPTIONAL MATCH (e)-[next:NEXT]->(:Episodic)
+            DELETE c, next
+            `,
+            { uuid: document.uuid },
+          );
+        }
 
-      if (source && target) {
-        const existingEdge = await this.findExistingRelation(
-          source.uuid,
-          target.uuid,
-          relation.relationName,
+        await this.driver.executeQuery(
+          `
+          MERGE (d:Document {uuid: $uuid})
+          SET d.name = $name,
+              d.groupId = $groupId,
+              d.referenceId = $referenceId,
+              d.chunkCount = $chunkCount,
+              d.createdAt = datetime($createdAt)
+          `,
+          {
+            ...document,
+            referenceId: document.referenceId ?? null,
+            createdAt: document.createdAt.toISOString(),
+          },
         );
 
-        if (!existingEdge) {
-          const edge = new EntityEdgeImpl({
-            uuid: '',
-            groupId,
-            sourceNodeUuid: source.uuid,
-            targetNodeUuid: target.uuid,
-            name: relation.relationName,
-            factIds: [],
-            episodes: [],
-            validAt: utcNow(),
-            createdAt: utcNow(),
-          });
+        for (const [i, chunk] of ingested.entries()) {
+          await this.driver.executeQuery(
+            `
+            MATCH (d:Document {uuid: $documentUuid})
+            MATCH (e:Episodic {uuid: $uuid})
+            CREATE (d)-[:HAS_CHUNK {index: $index}]->(e)
+            `,
+            { documentUuid: document.uuid, uuid: chunk.uuid, index: chunk.index },
+          );
+          if (i === 0) continue;
 
-          await edge.save(this.driver);
+          await this.driver.executeQuery(
+            `
+            MATCH (previous:Episodic {uuid: $previousUuid})
+            MATCH (e:Episodic {uuid: $uuid})
+            CREATE (previous)-[:NEXT]->(e)
+            `,
+            { previousUuid: ingested[i - 1].uuid, uuid: chunk.uuid },
+          );
         }
+      });
+    } catch (error) {
+      const previous = new Set(stored?.chunks.map((chunk) => chunk.uuid));
+      for (const chunk of ingested) {
+        if (previous.has(chunk.uuid)) continue;
+        await this.removeEpisode(chunk.uuid).catch((cleanupError) =>
+          console.error(`Failed to remove chunk ${chunk.uuid}:`, cleanupError),
+        );
       }
+      throw error;
     }
+
+    for (const chunk of stored?.chunks ?? []) {
+      if (chunk.index >= chunks.length) await this.removeEpisode(chunk.uuid);
+    }
+
+    return { document, chunks: results };
   }
 
-  private async findExistingRelation(
-    sourceUuid: string,
-    targetUuid: string,
-    relationName: string,
-  ): Promise<EntityEdgeImpl | null> {
-    const result = await this.driver.executeQuery<any[]>(
+  /**
+   * The document stored with a referenceId in a group, and its linked chunks
+   */
+  private async findDocument(
+    groupId: string,
+    referenceId: string,
+  ): Promise<{ document: DocumentNode; chunks: { index: number; uuid: string }[] } | null> {
+    const [row] = await this.driver.executeQuery<any[]>(
       `
-      MATCH (s:Entity {uuid: $sourceUuid})-[r:RELATES_TO {name: $relationName}]->(t:Entity {uuid: $targetUuid})
-      RETURN r
-      LIMIT 1
+      MATCH (d:Document {groupId: $groupId, referenceId: $referenceId})
+      RETURN d
       `,
-      { sourceUuid, targetUuid, relationName },
+      { groupId, referenceId },
     );
+    if (!row) return null;
 
-    if (result.length === 0) {
-      return null;
-    }
+    const data = row.d.properties || row.d;
+    const chunks = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (:Document {uuid: $uuid})-[c:HAS_CHUNK]->(e:Episodic)
+      RETURN c.index AS index, e.uuid AS uuid
+      `,
+      { uuid: data.uuid },
+    );
+    return {
+      document: {
+        uuid: data.uuid,
+        name: data.name,
+        groupId: data.groupId,
+        referenceId: data.referenceId,
+        chunkCount: Number(data.chunkCount),
+        createdAt: parseDbDate(data.createdAt) ?? utcNow(),
+      },
+      chunks: chunks.map((chunk) => ({ index: Number(chunk.index), uuid: chunk.uuid })),
+    };
+  }
 
-    return new EntityEdgeImpl(result[0].r);
+  /**
+   * Build the node for an episode, or for the new version of `existing`
+   */
+  private createEpisodicNode(
+    params: AddEpisodeParams,
+    embedding: number[],
+    existing: EpisodicNodeImpl | null = null,
+  ): EpisodicNodeImpl {
+    return new EpisodicNodeImpl({
+      uuid: existing?.uuid || params.uuid || '',
+      name: params.name || params.content.substring(0, 50),
+      groupId: existing?.groupId || params.groupId || this.defaultGroupId,
+      episodeType: params.episodeType || EpisodeType.TEXT,
+      content: params.content,
+      embedding,
+      validAt: params.referenceTime || existing?.validAt || utcNow(),
+      referenceId: params.referenceId ?? existing?.referenceId,
+      labels: [],
+      createdAt: existing?.createdAt || utcNow(),
+    });
   }
 
-  async search(params: SearchParams): Promise<Node[]> {
-    const embedding = await this.embedder.embed(params.query);
-    const groupId = params.groupId || this.defaultGroupId;
-    const limit = Math.floor(params.limit || 10);
+  /**
+   * The stored episode an episode is a repeat of: the one with its uuid, or
+   * else the one with its referenceId in its group.
+   */
+  private async findEpisode(params: AddEpisodeParams): Promise<EpisodicNodeImpl | null> {
+    if (!params.uuid && !params.referenceId) return null;
 
-    const query = `
-      MATCH (n)
-      WHERE n.groupId = $groupId
-        AND (n:Entity OR n:Episodic OR n:Community)
-        AND n.embedding IS NOT NULL
-      WITH n, 
-        reduce(similarity = 0.0, i IN range(0, size(n.embedding)-1) | 
-          similarity + (n.embedding[i] * $embedding[i])
-        ) AS similarity
-      ORDER BY similarity DESC
-      LIMIT $limit
-      RETURN n, labels(n) as labels
-    `;
+    const [row] = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (e:Episodic)
+      WHERE e.uuid = $uuid OR (e.referenceId = $referenceId AND e.groupId = $groupId)
+      RETURN e
+      ORDER BY CASE WHEN e.uuid = $uuid THEN 0 ELSE 1 END, e.createdAt
+      LIMIT 1
+      `,
+      {
+        uuid: params.uuid ?? null,
+        referenceId: params.referenceId ?? null,
+        groupId: params.groupId || this.defaultGroupId,
+      },
+    );
+    if (!row) return null;
 
-    const results = await this.driver.executeQuery<any[]>(query, {
-      groupId,
-      embedding,
-      limit,
+    const data = row.e.properties || row.e;
+    return new EpisodicNodeImpl({
+      ...data,
+      validAt: parseDbDate(data.validAt) ?? utcNow(),
+      createdAt: parseDbDate(data.createdAt) ?? utcNow(),
     });
+  }
 
-    return results.map((result) => {
-      const nodeData = result.n.properties || result.n;
-      const labels = result.labels || [];
+  /**
+   * Write an episode whose entities are resolved and facts related. Its writes
+   * are planned first, calling the LLM and embedder as needed, then applied in
+   * one short transaction together with the after-persist hooks, so they are
+   * committed together or not at all. On drivers with write batches instead,
+   * the hooks do not see the episode's writes.
+   */
+  private async persistEpisode(
+    context: PipelineContext,
+    entityWrites: Map<string, PendingWrite[]>,
+    existing: EpisodicNodeImpl | null = null,
+  ): Promise<void> {
+    await this.runHooks('before', 'persist', context);
+    const writes = await this.planEpisodeWrites(context, entityWrites, existing);
 
-      if (labels.includes('Entity')) {
-        return new EntityNodeImpl({ ...nodeData, labels });
-      } else if (labels.includes('Episodic')) {
-        return new EpisodicNodeImpl({ ...nodeData, labels });
-      } else if (labels.includes('Community')) {
-        return new CommunityNodeImpl({ ...nodeData, labels });
+    await this.inWriteTransaction(async () => {
+      // Another writer, e.g. another process, may have stored the episode since
+      const stored = await this.findEpisode(context.params);
+      if ((stored?.uuid ?? null) !== (existing?.uuid ?? null)) {
+        throw new Error(
+          `Episode ${stored!.uuid} was stored while this one was ingested; retry to update it`,
+        );
       }
-
-      throw new Error(`Unknown node type for labels: ${labels}`);
+      for (const write of writes) {
+        await write();
+      }
+      await this.runHooks('after', 'persist', context);
+      this.emitEpisodeIngested(context);
     });
   }
 
-  async getNode(uuid: string): Promise<Node | null> {
-    return Node.getByUuid(this.driver, uuid);
+  /**
+   * Plan saving an episode, new or updating `existing` in place, with the
+   * writes of its entities, linking it to them, writing its facts and folding
+   * the entities into communities. An update first withdraws what the previous
+   * content contributed, except the facts the new content restates, and
+   * restores the facts it invalidated.
+   */
+  private async planEpisodeWrites(
+    { episode, entityNodes, facts }: PipelineContext,
+    entityWrites: Map<string, PendingWrite[]>,
+    existing: EpisodicNodeImpl | null,
+  ): Promise<PendingWrite[]> {
+    const uniqueEntities = [...new Map(entityNodes.map((node) => [node.uuid, node])).values()];
+    const relations = await this.planRelationWrites(facts, episode!);
+    const communities = await this.planCommunityUpdates(
+      uniqueEntities,
+      relations.created,
+      episode!.groupId,
+    );
+
+    const writes: PendingWrite[] = [];
+    let previouslyMentioned: { entityUuids: string[]; communityUuids: string[] } | null = null;
+    if (existing) {
+      writes.push(async () => {
+        await this.restoreInvalidatedFacts(existing.uuid);
+        previouslyMentioned = await this.detachEpisode(existing.uuid, relations.restated);
+      });
+    }
+    writes.push(
+      ...uniqueEntities.flatMap((entity) => entityWrites.get(entity.uuid) ?? []),
+      async () => {
+        await episode!.save(this.driver);
+        this.emitNodeEvent(
+          existing ? 'node.updated' : 'node.created',
+          episode!,
+          eventPayload(episode!),
+        );
+        await this.linkEpisodeToEntities(episode!, uniqueEntities);
+      },
+      ...relations.writes,
+      ...communities.writes,
+    );
+    if (existing) {
+      writes.push(async () => {
+        // Reads in a write batch do not see the writes above, so entities and
+        // communities those writes keep are left out explicitly
+        const mentioned = new Set(uniqueEntities.map((entity) => entity.uuid));
+        const joined = new Set(communities.communityUuids);
+        await this.deleteUnmentionedEntities(episode!, {
+          entityUuids: previouslyMentioned!.entityUuids.filter((uuid) => !mentioned.has(uuid)),
+          communityUuids: previouslyMentioned!.communityUuids.filter((uuid) => !joined.has(uuid)),
+        });
+      });
+    }
+    return writes;
+  }
+
+  /**
+   * Run a pipeline stage on `context`, between the before and after hooks
+   * registered for it.
+   */
+  private async runStage(
+    stage: PipelineStage,
+    context: PipelineContext,
+    run: () => Promise<void>,
+  ): Promise<void> {
+    await this.runHooks('before', stage, context);
+    await run();
+    await this.runHooks('after', stage, context);
   }
 
-  async getEdge(uuid: string): Promise<Edge | null> {
-    return Edge.getByUuid(this.driver, uuid);
+  private async runHooks(
+    when: 'before' | 'after',
+    stage: PipelineStage,
+    context: PipelineContext,
+  ): Promise<void> {
+    for (const hook of this.hooks) {
+      if (hook.stage === stage) await hook[when]?.(context);
+    }
   }
 
-  async deleteNode(uuid: string): Promise<void> {
-    const node = await this.getNode(uuid);
-    if (node) {
-      await node.delete(this.driver);
+  /**
+   * Collapse mentions of one entity from several episodes into a single
+   * extraction, merging their summaries when they differ.
+   */
+  private async combineExtractedEntities(extracted: ExtractedEntity[]): Promise<ExtractedEntity> {
+    const [first] = extracted;
+    const attributes = Object.assign({}, ...extracted.map((entity) => entity.attributes));
+    const summaries = [...new Set(extracted.map((entity) => entity.summary.trim()))];
+    if (summaries.length <= 1) return { ...first, attributes };
+
+    return { ...first, attributes, summary: await this.mergeSummaries(first.name, summaries) };
+  }
+
+  /**
+   * Extract a JSON episode through its mapping, asking the LLM only about the
+   * mapped free-text fields; other episodes go through LLM extraction.
+   */
+  private async extractEpisode(
+    episode: EpisodeContext,
+    { jsonMapping, ...schemas }: AddEpisodeParams,
+    previousEpisodes: EpisodeContext[],
+  ): Promise<{
+    entities: ExtractedEntity[];
+    relations: ExtractedRelation[];
+  }> {
+    if (episode.episodeType !== EpisodeType.JSON || !jsonMapping) {
+      return this.extractEntitiesAndRelations(episode, previousEpisodes, schemas);
+    }
+
+    const mapped = mapJsonEpisode(JSON.parse(episode.content), jsonMapping);
+    if (mapped.texts.length === 0) {
+      return mapped;
     }
+
+    const extracted = await this.extractEntitiesAndRelations(
+      { content: mapped.texts.join('\n'), episodeType: EpisodeType.TEXT, validAt: episode.validAt },
+      previousEpisodes,
+      schemas,
+    );
+    return {
+      entities: [...mapped.entities, ...extracted.entities],
+      relations: [...mapped.relations, ...extracted.relations],
+    };
   }
 
-  async deleteEdge(uuid: string): Promise<void> {
-    const edge = await this.getEdge(uuid);
-    if (edge) {
-      await edge.delete(this.driver);
+  private async extractEntitiesAndRelations(
+    episode: EpisodeContext,
+    previousEpisodes: EpisodeContext[],
+    { entityTypes, edgeTypes, edgeTypeMap, edgeTypeFallback = 'generic' }: ExtractionSchemas = {},
+  ): Promise<{
+    entities: ExtractedEntity[];
+    relations: ExtractedRelation[];
+  }> {
+    const turns = episode.episodeType === EpisodeType.MESSAGE ? parseMessage(episode.content) : [];
+    const speaker = turns[0]?.speaker;
+    const addressee = speaker && findAddressee(speaker, turns, previousEpisodes);
+
+    const instructions = [
+      'Identify all entities (people, places, organizations, concepts, etc.)',
+      entityTypes
+        ? `For each entity, provide:
+   - name: The entity's name
+   - entityType: The entity type below that it is, or "${DEFAULT_ENTITY_TYPE}" if none fits
+   - summary: A brief description of the entity based on the context
+   - attributes: Values for the fields of its entity type, using only information in the text;
+     leave out fields the text does not state`
+        : `For each entity, provide:
+   - name: The entity's name
+   - entityType: The type/category of the entity
+   - summary: A brief description of the entity based on the context`,
+      'Identify relationships between entities',
+      `For each relationship, provide:
+   - sourceName: The name of the source entity
+   - targetName: The name of the target entity
+   - relationName: ${
+     edgeTypes
+       ? `The relation type below that it is, if that type is allowed between the
+     types of its entities; otherwise the nature/type of the relationship`
+       : 'The nature/type of the relationship'
+   }
+   - fact: A self-contained sentence stating the relationship, using the entity names
+   - quote: The sentence of the text that states the relationship, copied verbatim
+   - validAt: When the relationship started to hold, as an ISO 8601 date-time, or null if not stated
+   - invalidAt: When the relationship stopped holding, as an ISO 8601 date-time, or null
+     if it still holds${
+       edgeTypes
+         ? `
+   - attributes: Values for the fields of its relation type, using only information in the
+     text; leave out fields the text does not state`
+         : ''
+     }`,
+      `The text was written at the reference time. Resolve relative expressions such as
+   "last Tuesday" or "two years ago" against it to absolute dates`,
+    ];
+    if (speaker) {
+      instructions.push(
+        `The text is a message. Always include the speaker as an entity named exactly "${speaker}"`,
+        `Resolve first person pronouns ("I", "me", "my", "we") to the speaker and second person
+   pronouns ("you", "your") to ${addressee ? `the addressee "${addressee}"` : 'the addressee'}`,
+      );
+    }
+    if (previousEpisodes.length > 0) {
+      instructions.push(
+        `Use the previous episodes only to resolve references such as "she" or "that project"
+   to the entities they name; do not extract entities or relationships that appear only there`,
+      );
+    }
+
+    const context = previousEpisodes
+      .map((previous) => `- [${previous.validAt.toISOString()}] ${previous.content}`)
+      .join('\n');
+
+    const prompt = `
+Extract entities and their relationships from the following ${speaker ? 'message' : 'text'}.
+${speaker ? `\nSpeaker: ${speaker}\nAddressee: ${addressee || 'unknown'}` : ''}
+Text: ${episode.content}
+Reference time: ${episode.validAt.toISOString()}
+${context ? `\nPrevious episodes (oldest first, for context only):\n${context}\n` : ''}${
+      entityTypes ? `\nEntity types:\n${describeTypeSchemas(entityTypes)}\n` : ''
+    }${edgeTypes ? `\nRelation types:\n${describeTypeSchemas(edgeTypes)}\n` : ''}${
+      edgeTypeMap ? `\nAllowed relation types:\n${describeEdgeTypeMap(edgeTypeMap)}\n` : ''
     }
+Instructions:
+${instructions.map((instruction, i) => `${i + 1}. ${instruction}`).join('\n')}
+
+Respond with valid JSON matching this structure:
+{
+  "entities": [
+    {
+      "name": "string",
+      "entityType": "string",
+      "summary": "string"${entityTypes ? ',\n      "attributes": {}' : ''}
+    }
+  ],
+  "relations": [
+    {
+      "sourceName": "string",
+      "targetName": "string",
+      "relationName": "string",
+      "fact": "string",
+      "quote": "string",
+      "validAt": "string | null",
+      "invalidAt": "string | null"${edgeTypes ? ',\n      "attributes": {}' : ''}
+    }
+  ]
+}`;
+
+    const response = await this.llmClient.generateStructuredResponse(
+      prompt,
+      ExtractionResultSchema,
+    );
+
+    // The speaker is always an entity, even when the LLM leaves it out
+    if (
+      speaker &&
+      !response.entities.some((entity) => normalizeName(entity.name) === normalizeName(speaker))
+    ) {
+      response.entities.unshift({
+        name: speaker,
+        entityType: 'Person',
+        summary: `${speaker} is a participant in the conversation`,
+      });
+    }
+
+    // Only custom entity types are kept, with their fields validated as attributes
+    const entities = response.entities.map(({ attributes, ...entity }) => {
+      if (!entityTypes) return entity;
+      const schema = Object.hasOwn(entityTypes, entity.entityType)
+        ? entityTypes[entity.entityType]
+        : undefined;
+      return schema
+        ? { ...entity, attributes: typedAttributes(schema, attributes) }
+        : { ...entity, entityType: DEFAULT_ENTITY_TYPE };
+    });
+
+    const relations = edgeTypes
+      ? applyEdgeTypes(response.relations, entities, edgeTypes, edgeTypeMap, edgeTypeFallback)
+      : response.relations.map(({ attributes: _attributes, ...relation }) => relation);
+
+    return { entities, relations };
+  }
+
+  /**
+   * The episodes of the same group preceding `episode`, oldest first, that
+   * extraction sees as context.
+   */
+  private async getPreviousEpisodes(episode: EpisodicNodeImpl): Promise<EpisodeContext[]> {
+    if (this.previousEpisodesWindow <= 0) return [];
+
+    const results = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (e:Episodic {groupId: $groupId})
+      WHERE e.validAt <= datetime($before) AND e.uuid <> $uuid
+      RETURN e.content AS content, e.episodeType AS episodeType, e.validAt AS validAt
+      ORDER BY e.validAt DESC
+      LIMIT $limit
+      `,
+      {
+        groupId: episode.groupId,
+        before: episode.validAt.toISOString(),
+        uuid: episode.uuid,
+        limit: this.previousEpisodesWindow,
+      },
+    );
+
+    return results
+      .map((row) => ({
+        content: row.content,
+        episodeType: row.episodeType,
+        validAt: parseDbDate(row.validAt) ?? episode.validAt,
+      }))
+      .reverse();
+  }
+
+  /**
+   * Resolve each extracted entity against the graph, returning the matching
+   * existing node (with a merged summary) or a new one, in input order, and
+   * the writes they need by entity uuid.
+   */
+  private async processExtractedEntities(
+    entities: ExtractedEntity[],
+    groupId: string,
+  ): Promise<{ nodes: EntityNodeImpl[]; writes: Map<string, PendingWrite[]> }> {
+    const nodes: EntityNodeImpl[] = [];
+    const writes = new Map<string, PendingWrite[]>();
+    if (entities.length === 0) return { nodes, writes };
+
+    const embeddings = await this.embedder.embedBatch(entities.map((entity) => entity.summary));
+    const created: EntityNodeImpl[] = [];
+    for (const [i, entity] of entities.entries()) {
+      const resolved = await this.resolveExtractedEntity(entity, embeddings[i], groupId, created);
+      nodes.push(resolved.node);
+      queueEntityWrites(writes, resolved);
+    }
+
+    return { nodes, writes };
+  }
+
+  /**
+   * Resolve an extracted entity to the node it duplicates, in the graph or
+   * among the unsaved nodes in `created`, or else to a new node added to
+   * `created`. Returns the node and the writes that save it or fold the
+   * extraction into it.
+   */
+  private async resolveExtractedEntity(
+    entity: ExtractedEntity,
+    embedding: number[],
+    groupId: string,
+    created: EntityNodeImpl[],
+  ): Promise<ResolvedEntity> {
+    const candidates = await this.findDuplicateCandidates(entity, embedding, groupId, created);
+    const duplicate = await this.resolveDuplicate(entity, candidates);
+    if (duplicate) {
+      const { entity: existing, mergedSummary } = duplicate;
+      const writes = await this.refreshEntitySummary(existing, entity.summary, mergedSummary);
+      if (entity.attributes && Object.keys(entity.attributes).length > 0) {
+        writes.push(this.updateEntityAttributes(existing, entity.attributes));
+      }
+      return { node: existing, writes };
+    }
+
+    const entityNode = new EntityNodeImpl({
+      uuid: '',
+      name: entity.name,
+      groupId,
+      entityType: entity.entityType,
+      summary: entity.summary,
+      summaryEmbedding: embedding,
+      attributes: entity.attributes,
+      labels: [],
+      createdAt: utcNow(),
+    });
+    created.push(entityNode);
+
+    return {
+      node: entityNode,
+      writes: [
+        async () => {
+          await entityNode.save(this.driver);
+          this.emitNodeEvent('node.created', entityNode);
+        },
+      ],
+    };
+  }
+
+  /**
+   * Find entities, in the graph or among the unsaved ones in `created`, that
+   * may be the same as the extracted one, either by summary embedding
+   * similarity or by fuzzy name match, most similar first.
+   */
+  private async findDuplicateCandidates(
+    entity: ExtractedEntity,
+    embedding: number[],
+    groupId: string,
+    created: EntityNodeImpl[] = [],
+  ): Promise<EntityNodeImpl[]> {
+    const { embeddingThreshold, nameThreshold, maxCandidates } = this.entityResolution;
+
+    const [byEmbedding, byName] = await Promise.all([
+      this.driver.executeQuery<any[]>(
+        `
+        MATCH (n:Entity)
+        WHERE n.groupId = $groupId AND n.summaryEmbedding IS NOT NULL
+        WITH n,
+          reduce(similarity = 0.0, i IN range(0, size(n.summaryEmbedding)-1) |
+            similarity + (n.summaryEmbedding[i] * $embedding[i])
+          ) AS similarity
+        ORDER BY similarity DESC
+        LIMIT $limit
+        RETURN n
+        `,
+        { groupId, embedding, limit: maxCandidates },
+      ),
+      this.driver.executeQuery<any[]>(
+        `
+        MATCH (n:Entity)
+        WHERE n.groupId = $groupId
+          AND any(token IN $tokens WHERE toLower(n.name) CONTAINS token)
+        RETURN n
+        LIMIT $limit
+        `,
+        {
+          groupId,
+          tokens: nameTokens(entity.name).filter((token) => token.length > 1),
+          limit: maxCandidates * 4,
+        },
+      ),
+    ]);
+
+    const nodes = [
+      ...created.filter((node) => node.groupId === groupId),
+      ...[...byEmbedding, ...byName].map(
+        (result) => new EntityNodeImpl(result.n.properties || result.n),
+      ),
+    ];
+    const scored = new Map<string, { node: EntityNodeImpl; score: number }>();
+    for (const node of nodes) {
+      if (scored.has(node.uuid)) continue;
+
+      const embeddingScore = node.summaryEmbedding
+        ? cosineSimilarity(node.summaryEmbedding, embedding)
+        : 0;
+      const nameScore = nameSimilarity(node.name, entity.name);
+
+      if (embeddingScore >= embeddingThreshold || nameScore >= nameThreshold) {
+        scored.set(node.uuid, { node, score: Math.max(embeddingScore, nameScore) });
+      }
+    }
+
+    return [...scored.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxCandidates)
+      .map(({ node }) => node);
+  }
+
+  /**
+   * Pick the candidate that denotes the same real-world entity, if any. An
+   * exact name match is taken as is; otherwise the LLM decides among the
+   * candidates and also returns a summary merging both descriptions.
+   */
+  private async resolveDuplicate(
+    entity: ExtractedEntity,
+    candidates: EntityNodeImpl[],
+  ): Promise<{ entity: EntityNodeImpl; mergedSummary: string | null } | null> {
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const exactMatch = candidates.find(
+      (candidate) => normalizeName(candidate.name) === normalizeName(entity.name),
+    );
+    if (exactMatch) {
+      return { entity: exactMatch, mergedSummary: null };
+    }
+
+    const candidateList = candidates
+      .map((c, i) => `${i}: ${c.name} (${c.entityType}) - ${c.summary}`)
+      .join('\n');
+
+    const response = await this.llmClient.generateStructuredResponse(
+      `
+Determine whether a newly extracted entity is a duplicate of an existing one.
+
+New entity: ${entity.name} (${entity.entityType}) - ${entity.summary}
+
+Existing entities:
+${candidateList}
+
+Instructions:
+1. An entity is a duplicate only if both refer to the same real-world object or concept
+   (for example "Bob", "Bob Smith" and "Robert Smith" describing the same person)
+2. Similar names or types alone are not enough; related but distinct entities are NOT duplicates
+3. If it is a duplicate, return the id of the existing entity and a summary merging what is
+   known from both descriptions; otherwise return null for both
+
+Respond with valid JSON matching this structure:
+{
+  "duplicateOf": 0,
+  "summary": "string"
+}`,
+      EntityResolutionSchema,
+    );
+
+    const duplicate =
+      typeof response.duplicateOf === 'number' ? candidates[response.duplicateOf] : undefined;
+    if (!duplicate) {
+      return null;
+    }
+
+    return { entity: duplicate, mergedSummary: response.summary };
+  }
+
+  /**
+   * Fold the description of an existing entity from a new episode into its
+   * summary. Refreshes are rate limited per entity: a description arriving
+   * within `summaryRefresh.minInterval` of the last refresh is queued on the
+   * node and merged by the next refresh instead. A summary already merged
+   * with the description is used when nothing else is queued. The summary is
+   * merged now; the returned writes store it or the queued description.
+   */
+  private async refreshEntitySummary(
+    entity: EntityNodeImpl,
+    description: string,
+    mergedSummary: string | null = null,
+  ): Promise<PendingWrite[]> {
+    if (!description.trim() || description === entity.summary) return [];
+
+    const [state] = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (n:Entity {uuid: $uuid})
+      RETURN n.summaryRefreshedAt AS refreshedAt, n.pendingSummaries AS pending
+      `,
+      { uuid: entity.uuid },
+    );
+    const pending: string[] = (state?.pending ?? []).filter(
+      (summary: string) => summary !== description,
+    );
+
+    const refreshedAt = parseDbDate(state?.refreshedAt);
+    if (
+      refreshedAt &&
+      utcNow().getTime() - refreshedAt.getTime() < this.summaryRefresh.minInterval
+    ) {
+      return [
+        async () => {
+          await this.driver.executeQuery(
+            `
+            MATCH (n:Entity {uuid: $uuid})
+            SET n.pendingSummaries = $pending
+            `,
+            {
+              uuid: entity.uuid,
+              pending: [...pending, description].slice(-MAX_PENDING_SUMMARIES),
+            },
+          );
+        },
+      ];
+    }
+
+    const summary =
+      pending.length === 0 && mergedSummary
+        ? mergedSummary
+        : await this.mergeSummaries(entity.name, [entity.summary, ...pending, description]);
+    return summary === entity.summary ? [] : [await this.updateEntitySummary(entity, summary)];
+  }
+
+  /**
+   * Combine several descriptions of one entity, oldest first, into a single summary
+   */
+  private async mergeSummaries(name: string, summaries: string[]): Promise<string> {
+    const response = await this.llmClient.generateStructuredResponse(
+      `
+Merge descriptions of the same entity into a single concise summary.
+
+Entity: ${name}
+Descriptions (oldest first):
+${summaries.map((summary) => `- ${summary}`).join('\n')}
+
+Keep every distinct fact, drop repetition, and prefer later descriptions where they conflict.
+
+Respond with valid JSON matching this structure:
+{
+  "summary": "string"
+}`,
+      EntitySummarySchema,
+    );
+
+    return response.summary;
+  }
+
+  /**
+   * Merge `attributes` into the entity, returning the write that stores them
+   */
+  private updateEntityAttributes(
+    entity: EntityNodeImpl,
+    attributes: Record<string, EntityAttributeValue>,
+  ): PendingWrite {
+    entity.attributes = { ...entity.attributes, ...attributes };
+    const merged = entity.attributes;
+
+    return async () => {
+      await this.driver.executeQuery(
+        `
+        MATCH (n:Entity {uuid: $uuid})
+        SET n.attributes = $attributes
+        `,
+        { uuid: entity.uuid, attributes: JSON.stringify(merged) },
+      );
+      this.emitNodeEvent('node.updated', entity, { attributes: merged });
+    };
+  }
+
+  /**
+   * Give the entity `summary` and its embedding, returning the write that
+   * stores them
+   */
+  private async updateEntitySummary(
+    entity: EntityNodeImpl,
+    summary: string,
+  ): Promise<PendingWrite> {
+    const embedding = await this.embedder.embed(summary);
+    entity.summary = summary;
+    entity.summaryEmbedding = embedding;
+
+    return async () => {
+      await this.driver.executeQuery(
+        `
+        MATCH (n:Entity {uuid: $uuid})
+        SET n.summary = $summary,
+            n.summaryEmbedding = $embedding,
+            n.embedding = ${vectorParam(this.driver, 'embedding')},
+            n.summaryRefreshedAt = datetime($refreshedAt),
+            n.pendingSummaries = []
+        `,
+        { uuid: entity.uuid, summary, embedding, refreshedAt: utcNow().toISOString() },
+      );
+      this.emitNodeEvent('node.updated', entity, { summary });
+    };
+  }
+
+  private async linkEpisodeToEntities(
+    episode: EpisodicNodeImpl,
+    entities: EntityNodeImpl[],
+  ): Promise<void> {
+    for (const entity of entities) {
+      const edge = new EpisodicEdgeImpl({
+        uuid: '',
+        groupId: episode.groupId,
+        sourceNodeUuid: episode.uuid,
+        targetNodeUuid: entity.uuid,
+        createdAt: utcNow(),
+      });
+
+      await edge.save(this.driver);
+    }
+  }
+
+  /**
+   * Plan writing the facts of an episode: restated facts gain the episode as a
+   * source, new ones are created and close the facts they contradict. Returns
+   * the writes, the new edges and the uuids of the restated edges.
+   */
+  private async planRelationWrites(
+    resolved: ResolvedRelation[],
+    episode: EpisodicNodeImpl,
+  ): Promise<{ writes: PendingWrite[]; created: EntityEdgeImpl[]; restated: string[] }> {
+    const writes: PendingWrite[] = [];
+    const created: EntityEdgeImpl[] = [];
+    const restated: string[] = [];
+    if (resolved.length === 0) return { writes, created, restated };
+
+    const factOf = (relation: ExtractedRelation, source: EntityNodeImpl, target: EntityNodeImpl) =>
+      relation.fact || `${source.name} ${relation.relationName} ${target.name}`;
+
+    // Embed the facts of every relation in one batched call
+    const factEmbeddings = await this.embedder.embedBatch(
+      resolved.map(({ relation, source, target }) => factOf(relation, source, target)),
+    );
+
+    // An episode stating the same relation twice writes it once
+    const planned = new Set<string>();
+    const invalidated = new Set<string>();
+    for (const [i, { relation, source, target }] of resolved.entries()) {
+      const key = `${source.uuid}|${target.uuid}|${relation.relationName}`;
+      if (planned.has(key)) continue;
+      planned.add(key);
+
+      const existingEdge = await this.findExistingRelation(
+        source.uuid,
+        target.uuid,
+        relation.relationName,
+      );
+
+      if (existingEdge) {
+        // The fact is restated, so the episode supports it as well
+        restated.push(existingEdge.uuid);
+        const episodes = existingEdge.episodes ?? [];
+        const { [episode.uuid]: previousQuote, ...otherQuotes } = existingEdge.episodeQuotes ?? {};
+        const supported = episodes.includes(episode.uuid);
+
+        // A new version of the episode closes again the facts its fact contradicts
+        const invalidations = supported
+          ? await this.planInvalidations(existingEdge, source, target, episode, invalidated)
+          : [];
+        const changed = !supported || previousQuote !== relation.quote;
+        if (!changed && invalidations.length === 0) continue;
+
+        const update = {
+          episodes: supported ? episodes : [...episodes, episode.uuid],
+          episodeQuotes: {
+            ...otherQuotes,
+            ...(relation.quote ? { [episode.uuid]: relation.quote } : {}),
+          },
+        };
+        writes.push(async () => {
+          if (changed) {
+            await this.driver.executeQuery(
+              `
+              MATCH (:Entity)-[r:RELATES_TO {uuid: $uuid}]->(:Entity)
+              SET r.episodes = $episodes,
+                  r.episodeQuotes = $episodeQuotes
+              `,
+              {
+                uuid: existingEdge.uuid,
+                episodes: update.episodes,
+                episodeQuotes: JSON.stringify(update.episodeQuotes),
+              },
+            );
+            this.emitEdgeEvent('edge.updated', existingEdge, update);
+          }
+          for (const write of invalidations) {
+            await write();
+          }
+        });
+      } else {
+        const fact = factOf(relation, source, target);
+        const edge = new EntityEdgeImpl({
+          uuid: '',
+          groupId: episode.groupId,
+          sourceNodeUuid: source.uuid,
+          targetNodeUuid: target.uuid,
+          name: relation.relationName,
+          fact,
+          factEmbedding: factEmbeddings[i],
+          attributes: relation.attributes,
+          factIds: [],
+          episodes: [episode.uuid],
+          episodeQuotes: relation.quote ? { [episode.uuid]: relation.quote } : {},
+          validAt: parseDbDate(relation.validAt) ?? episode.validAt,
+          invalidAt: parseDbDate(relation.invalidAt) ?? undefined,
+          createdAt: utcNow(),
+        });
+        created.push(edge);
+
+        const invalidations = await this.planInvalidations(
+          edge,
+          source,
+          target,
+          episode,
+          invalidated,
+        );
+        writes.push(async () => {
+          await edge.save(this.driver);
+          this.emitEdgeEvent('edge.created', edge, eventPayload(edge));
+          for (const write of invalidations) {
+            await write();
+          }
+        });
+      }
+    }
+
+    return { writes, created, restated };
+  }
+
+  /**
+   * Ask the LLM which currently valid facts about the new edge's entities are
+   * contradicted by it, and plan closing their validity window at the new
+   * edge's validAt. A contradicting fact that started later instead closes the
+   * new edge's window; the edge is then given its closed window now, and the
+   * returned writes store it. Facts already closed by this episode, in `invalidated`,
+   * or only stated by it are left alone.
+   */
+  private async planInvalidations(
+    edge: EntityEdgeImpl,
+    source: EntityNodeImpl,
+    target: EntityNodeImpl,
+    episode: EpisodicNodeImpl,
+    invalidated: Set<string>,
+  ): Promise<PendingWrite[]> {
+    const rows = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (s:Entity)-[r:RELATES_TO]->(t:Entity)
+      WHERE r.groupId = $groupId
+        AND r.uuid <> $uuid
+        AND (r.expiredAt IS NULL OR r.invalidatedBy = $episodeUuid)
+        AND (s.uuid IN $entityUuids OR t.uuid IN $entityUuids)
+      RETURN r, s.name AS sourceName, t.name AS targetName
+      `,
+      {
+        groupId: edge.groupId,
+        uuid: edge.uuid,
+        episodeUuid: episode.uuid,
+        entityUuids: [source.uuid, target.uuid],
+      },
+    );
+    // Facts invalidated by a previous version of the episode are restored first
+    const restored = (data: any) =>
+      data.invalidatedBy === episode.uuid
+        ? { ...data, invalidAt: null, expiredAt: null, invalidatedBy: null }
+        : data;
+    const candidates = rows
+      .map((row) => ({ ...row, r: restored(row.r.properties || row.r) }))
+      .filter(
+        ({ r }) =>
+          !invalidated.has(r.uuid) && !(r.episodes?.length === 1 && r.episodes[0] === episode.uuid),
+      );
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const existingFacts = candidates
+      .map((c, i) => `${i}: ${c.r.fact || `${c.sourceName} ${c.r.name} ${c.targetName}`}`)
+      .join('\n');
+
+    const prompt = `
+Determine which existing facts are contradicted by a new fact.
+
+New fact: ${edge.fact}
+
+Existing facts:
+${existingFacts}
+
+Instructions:
+1. A fact is contradicted when it can no longer be true at the same time as the new fact
+   (for example, a person working at a different company than before)
+2. Facts that merely add information or are compatible with the new fact are NOT contradicted
+3. Return the ids of the contradicted facts, or an empty list if there are none
+
+Respond with valid JSON matching this structure:
+{
+  "contradictedFactIds": [0]
+}`;
+
+    const response = await this.llmClient.generateStructuredResponse(
+      prompt,
+      ContradictionResultSchema,
+    );
+
+    const writes: PendingWrite[] = [];
+    const expiredAt = utcNow();
+    let supersededByExisting = false;
+
+    for (const id of new Set(response.contradictedFactIds)) {
+      const candidate = candidates[id];
+      if (!candidate) continue;
+
+      const existing = candidate.r;
+      const existingValidAt = parseDbDate(existing.validAt);
+      const existingInvalidAt = parseDbDate(existing.invalidAt);
+
+      // Facts whose validity windows do not overlap cannot contradict each other
+      if (existingInvalidAt && existingInvalidAt.getTime() <= edge.validAt.getTime()) continue;
+      if (
+        edge.invalidAt &&
+        existingValidAt &&
+        edge.invalidAt.getTime() <= existingValidAt.getTime()
+      ) {
+        continue;
+      }
+
+      // When backfilling, the new fact may be the older one and ends where the existing one starts
+      if (existingValidAt && existingValidAt.getTime() > edge.validAt.getTime()) {
+        if (!edge.invalidAt || edge.invalidAt.getTime() > existingValidAt.getTime()) {
+          edge.invalidAt = existingValidAt;
+          edge.expiredAt = expiredAt;
+          supersededByExisting = true;
+        }
+        continue;
+      }
+
+      invalidated.add(existing.uuid);
+      const invalidAt = edge.validAt.toISOString();
+      writes.push(async () => {
+        await this.driver.executeQuery(
+          `
+          MATCH (s)-[r:RELATES_TO {uuid: $uuid}]->(t)
+          SET r.invalidAt = datetime($invalidAt),
+              r.expiredAt = datetime($expiredAt),
+              r.invalidatedBy = $episodeUuid
+          `,
+          {
+            uuid: existing.uuid,
+            invalidAt,
+            expiredAt: expiredAt.toISOString(),
+            episodeUuid: episode.uuid,
+          },
+        );
+        this.emitEdgeEvent('edge.invalidated', existing, {
+          invalidAt,
+          expiredAt: expiredAt.toISOString(),
+          invalidatedBy: episode.uuid,
+        });
+      });
+    }
+
+    if (supersededByExisting) {
+      const invalidAt = edge.invalidAt!.toISOString();
+      writes.push(async () => {
+        await this.driver.executeQuery(
+          `
+          MATCH (s)-[r:RELATES_TO {uuid: $uuid}]->(t)
+          SET r.invalidAt = datetime($invalidAt),
+              r.expiredAt = datetime($expiredAt)
+          `,
+          { uuid: edge.uuid, invalidAt, expiredAt: expiredAt.toISOString() },
+        );
+        this.emitEdgeEvent('edge.invalidated', edge, {
+          invalidAt,
+          expiredAt: expiredAt.toISOString(),
+        });
+      });
+    }
+    return writes;
+  }
+
+  private async findExistingRelation(
+    sourceUuid: string,
+    targetUuid: string,
+    relationName: string,
+  ): Promise<EntityEdgeImpl | null> {
+    const result = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (s:Entity {uuid: $sourceUuid})-[r:RELATES_TO {name: $relationName}]->(t:Entity {uuid: $targetUuid})
+      WHERE r.expiredAt IS NULL
+      RETURN r
+      LIMIT 1
+      `,
+      { sourceUuid, targetUuid, relationName },
+    );
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    return entityEdgeFromRow(result[0].r.properties || result[0].r, sourceUuid, targetUuid);
+  }
+
+  async search(params: SearchParams): Promise<Node[]> {
+    const results = await this.searchNodes(params);
+    return results.map((result) => result.node);
+  }
+
+  /**
+   * Rank nodes by keyword (BM25) and semantic (cosine) relevance, plus graph
+   * distance from `centerNodeUuid` when given, combined by `reranker`
+   */
+  async searchNodes(params: SearchParams): Promise<NodeSearchResult[]> {
+    // Entity type and attribute filters only match entities
+    const nodeTypes =
+      params.entityTypes || params.attributes
+        ? (['entity'] as const)
+        : params.nodeTypes || ['entity', 'episodic', 'community'];
+
+    return this.searchNodeLayer(
+      params,
+      nodeTypes.map((type) => NODE_TYPE_LABELS[type]),
+      { ...params, searchMethods: searchMethods(params.searchType) },
+      Math.floor(params.limit || 10),
+      () => this.embedder.embed(params.query),
+    );
+  }
+
+  /**
+   * Rank entity edges by their fact text (BM25) and fact embedding (cosine), plus
+   * graph distance from `centerNodeUuid` when given, combined by `reranker`.
+   * With `asOf`, only facts valid at that time are returned.
+   */
+  async searchFacts(params: FactSearchParams): Promise<FactSearchResult[]> {
+    return this.searchFactLayer(
+      params,
+      { ...params, searchMethods: searchMethods(params.searchType) },
+      Math.floor(params.limit || 10),
+      () => this.embedder.embed(params.query),
+    );
+  }
+
+  /**
+   * Search the layers of the graph `config` covers (facts, entities, episodes
+   * and communities), each with its own retrieval methods and reranker. The
+   * presets in `search/recipes` cover the common cases.
+   */
+  async searchWithConfig(
+    params: GraphSearchParams,
+    config: SearchConfig = COMBINED_HYBRID_SEARCH_RRF,
+  ): Promise<SearchResults> {
+    const limit = Math.floor(config.limit || 10);
+    // Layers share the query embedding
+    let embedding: Promise<number[]> | undefined;
+    const embedQuery = () => (embedding ??= this.embedder.embed(params.query));
+    // Entity type and attribute filters only apply to entities
+    const unfiltered = { ...params, entityTypes: undefined, attributes: undefined };
+
+    const [edges, nodes, episodes, communities] = await Promise.all([
+      config.edgeConfig ? this.searchFactLayer(params, config.edgeConfig, limit, embedQuery) : [],
+      config.nodeConfig
+        ? this.searchNodeLayer(params, ['Entity'], config.nodeConfig, limit, embedQuery)
+        : [],
+      config.episodeConfig
+        ? this.searchNodeLayer(unfiltered, ['Episodic'], config.episodeConfig, limit, embedQuery)
+        : [],
+      config.communityConfig
+        ? this.searchNodeLayer(unfiltered, ['Community'], config.communityConfig, limit, embedQuery)
+        : [],
+    ]);
+
+    return { edges, nodes, episodes, communities };
+  }
+
+  private async searchNodeLayer(
+    params: GraphSearchParams,
+    labels: string[],
+    config: LayerSearchConfig,
+    limit: number,
+    embedQuery: () => Promise<number[]>,
+  ): Promise<NodeSearchResult[]> {
+    checkReranker(config, params);
+    const methods = new Set(config.searchMethods);
+    const filter: NodeSearchFilter = {
+      groupId: params.groupId || this.defaultGroupId,
+      labels,
+      entityTypes: params.entityTypes,
+      attributes: params.attributes,
+      asOf: params.asOf,
+      // Each retrieval method over-fetches so that fusion has candidates to choose from
+      limit: limit * 2,
+    };
+
+    const embedding =
+      methods.has('cosine_similarity') || config.reranker === 'mmr'
+        ? await embedQuery()
+        : undefined;
+
+    const rankings = await Promise.all([
+      methods.has('bm25') ? this.nodeFulltextSearch(params.query, filter) : [],
+      methods.has('cosine_similarity') ? this.nodeSimilaritySearch(embedding!, filter) : [],
+      methods.has('bfs') && params.centerNodeUuid
+        ? this.nodeDistanceSearch(params.centerNodeUuid, params.maxDepth ?? 3, filter)
+        : [],
+    ]);
+
+    // The queries only pre-filter attributes by their serialized form
+    const matching = rankings.map((ranking) =>
+      ranking.filter((candidate) => matchesAttributes(candidate.node, params.attributes)),
+    );
+
+    const fused = await this.fuseRankings(matching, embedding, config, limit, (pool) => {
+      switch (config.reranker) {
+        case 'node_distance':
+          return this.nodeDistanceScores(
+            pool.map((candidate) => candidate.uuid),
+            params,
+          );
+        case 'episode_mentions':
+          return this.episodeMentionCounts(pool.map((candidate) => candidate.uuid));
+        default:
+          return this.crossEncoder.rerank(
+            params.query,
+            pool.map((candidate) => nodePassage(candidate.node)),
+          );
+      }
+    });
+    return fused.map(({ candidate, score }) => ({ node: candidate.node, score }));
+  }
+
+  private async searchFactLayer(
+    params: GraphSearchParams,
+    config: LayerSearchConfig,
+    limit: number,
+    embedQuery: () => Promise<number[]>,
+  ): Promise<FactSearchResult[]> {
+    checkReranker(config, params);
+    const methods = new Set(config.searchMethods);
+    const filter: FactSearchFilter = {
+      groupId: params.groupId || this.defaultGroupId,
+      asOf: params.asOf,
+      limit: limit * 2,
+    };
+
+    const embedding =
+      methods.has('cosine_similarity') || config.reranker === 'mmr'
+        ? await embedQuery()
+        : undefined;
+
+    const rankings = await Promise.all([
+      methods.has('bm25') ? this.factFulltextSearch(params.query, filter) : [],
+      methods.has('cosine_similarity') ? this.factSimilaritySearch(embedding!, filter) : [],
+      methods.has('bfs') && params.centerNodeUuid
+        ? this.factDistanceSearch(params.centerNodeUuid, params.maxDepth ?? 3, filter)
+        : [],
+    ]);
+
+    const fused = await this.fuseRankings(rankings, embedding, config, limit, async (pool) => {
+      switch (config.reranker) {
+        case 'node_distance':
+          return this.nodeDistanceScores(
+            pool.map((candidate) => candidate.sourceNode.uuid),
+            params,
+          );
+        case 'episode_mentions':
+          return pool.map((candidate) => candidate.edge.episodes?.length ?? 0);
+        default:
+          return this.crossEncoder.rerank(
+            params.query,
+            pool.map((candidate) => candidate.edge.fact ?? candidate.edge.name),
+          );
+      }
+    });
+    return fused.map(({ candidate, score }) => ({
+      edge: candidate.edge,
+      sourceNode: candidate.sourceNode,
+      targetNode: candidate.targetNode,
+      score,
+    }));
+  }
+
+  /**
+   * Combine the rankings of a search layer by RRF or MMR. Other rerankers
+   * `rescore` the top `limit * 2` RRF candidates instead.
+   */
+  private async fuseRankings<T extends SearchCandidate>(
+    rankings: T[][],
+    embedding: number[] | undefined,
+    config: Pick<LayerSearchConfig, 'reranker' | 'mmrLambda'>,
+    limit: number,
+    rescore: (pool: T[]) => Promise<number[]>,
+  ): Promise<{ candidate: T; score: number }[]> {
+    const candidates = new Map<string, T>();
+    for (const ranking of rankings) {
+      for (const candidate of ranking) {
+        candidates.set(candidate.uuid, candidate);
+      }
+    }
+
+    const reranker = config.reranker ?? 'rrf';
+    const ranked =
+      reranker === 'mmr'
+        ? maximalMarginalRelevance(
+            embedding!,
+            [...candidates.values()],
+            config.mmrLambda ?? 0.5,
+            limit,
+          )
+        : reciprocalRankFusion(rankings.map((ranking) => ranking.map((c) => c.uuid)));
+
+    if (reranker !== 'rrf' && reranker !== 'mmr' && ranked.length > 0) {
+      const pool = ranked.slice(0, limit * 2).map(({ uuid }) => candidates.get(uuid)!);
+      const scores = await rescore(pool);
+      // The sort is stable, so candidates scored alike keep their RRF order
+      return pool
+        .map((candidate, i) => ({ candidate, score: scores[i] }))
+        .sort((x, y) => y.score - x.score)
+        .slice(0, limit);
+    }
+
+    return ranked.slice(0, limit).map(({ uuid, score }) => ({
+      candidate: candidates.get(uuid)!,
+      score,
+    }));
+  }
+
+  /** 1 / (1 + hops) from the center node to each node, 0 for nodes out of reach */
+  private async nodeDistanceScores(uuids: string[], params: GraphSearchParams): Promise<number[]> {
+    const centerNodeUuid = params.centerNodeUuid!;
+    const results = await this.driver.executeQuery<any[]>(
+      `
+      MATCH path = (center {uuid: $centerNodeUuid})
+        -[:RELATES_TO|MENTIONS|HAS_MEMBER*1..${Math.max(1, Math.floor(params.maxDepth ?? 3))}]-(n)
+      WHERE n.uuid IN $uuids
+      WITH n, min(length(path)) AS distance
+      RETURN n.uuid AS uuid, distance
+      `,
+      { centerNodeUuid, uuids },
+    );
+
+    const distances = new Map(results.map((result) => [result.uuid, Number(result.distance)]));
+    distances.set(centerNodeUuid, 0);
+    return uuids.map((uuid) => (distances.has(uuid) ? 1 / (1 + distances.get(uuid)!) : 0));
+  }
+
+  /** Number of episodes that mention each node */
+  private async episodeMentionCounts(uuids: string[]): Promise<number[]> {
+    const results = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (e:Episodic)-[:MENTIONS]->(n)
+      WHERE n.uuid IN $uuids
+      WITH n, count(e) AS mentions
+      RETURN n.uuid AS uuid, mentions
+      `,
+      { uuids },
+    );
+
+    const mentions = new Map(results.map((result) => [result.uuid, Number(result.mentions)]));
+    return uuids.map((uuid) => mentions.get(uuid) ?? 0);
+  }
+
+  private async nodeFulltextSearch(
+    query: string,
+    filter: NodeSearchFilter,
+  ): Promise<NodeSearchCandidate[]> {
+    const terms = nameTokens(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const where = `n.groupId = $groupId AND ${nodeLabelFilter(filter.labels)}
+      ${entityPropertyFilter(filter)}`;
+    const params = {
+      groupId: filter.groupId,
+      limit: filter.limit,
+      indexLimit: filter.limit * INDEX_OVERFETCH,
+      asOf: filter.asOf?.toISOString(),
+      ...entityPropertyParams(filter),
+    };
+
+    try {
+      switch (this.driver.provider) {
+        case GraphProvider.NEO4J: {
+          const results = await this.driver.executeQuery<any[]>(
+            `
+            CALL db.index.fulltext.queryNodes('${NODE_FULLTEXT_INDEX}', $query, {limit: $indexLimit})
+            YIELD node AS n, score
+            WITH n, score
+            WHERE ${where}
+            ${filter.asOf ? nodeKnownAsOf('score') : ''}
+            RETURN n, labels(n) AS labels, score
+            ORDER BY score DESC
+            LIMIT $limit
+            `,
+            { ...params, query: terms.join(' OR ') },
+          );
+          return results.map((result) => this.toNodeSearchCandidate(result, result.score));
+        }
+
+        case GraphProvider.FALKORDB: {
+          // FalkorDB keeps one full-text index per label
+          const perLabel = await Promise.all(
+            filter.labels.map((label) =>
+              this.driver.executeQuery<any[]>(
+                `
+                CALL db.idx.fulltext.queryNodes('${label}', $query)
+                YIELD node AS n, score
+                WITH n, score
+                WHERE n.groupId = $groupId ${entityPropertyFilter(filter)}
+                ${filter.asOf ? nodeKnownAsOf('score') : ''}
+                RETURN n, labels(n) AS labels, score
+                ORDER BY score DESC
+                LIMIT $limit
+                `,
+                { ...params, query: terms.join(' | ') },
+              ),
+            ),
+          );
+          return perLabel
+            .flat()
+            .map((result) => this.toNodeSearchCandidate(result, result.score))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, filter.limit);
+        }
+      }
+    } catch (error) {
+      console.warn(`Full-text index query failed, falling back to a scan: ${error}`);
+    }
+
+    const results = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (n)
+      WHERE ${where}
+      ${filter.asOf ? nodeKnownAsOf() : ''}
+      RETURN n, labels(n) AS labels
+      `,
+      params,
+    );
+
+    const byUuid = new Map<string, any>();
+    for (const result of results) {
+      byUuid.set((result.n.properties || result.n).uuid, result);
+    }
+    const documents = results.map((result) => {
+      const data = result.n.properties || result.n;
+      return {
+        uuid: data.uuid,
+        text: [data.name, data.summary, data.content].filter(Boolean).join(' '),
+      };
+    });
+
+    return bm25Scores(query, documents)
+      .slice(0, filter.limit)
+      .map(({ uuid, score }) => this.toNodeSearchCandidate(byUuid.get(uuid), score));
+  }
+
+  private async nodeSimilaritySearch(
+    embedding: number[],
+    filter: NodeSearchFilter,
+  ): Promise<NodeSearchCandidate[]> {
+    const queryNorm = Math.sqrt(embedding.reduce((total, x) => total + x * x, 0));
+    if (queryNorm === 0) {
+      return [];
+    }
+
+    const params = {
+      groupId: filter.groupId,
+      embedding,
+      queryNorm,
+      limit: filter.limit,
+      asOf: filter.asOf?.toISOString(),
+      ...entityPropertyParams(filter),
+    };
+
+    if (hasVectorIndexes(this.driver.provider)) {
+      try {
+        // One vector index per label
+        const perLabel = await Promise.all(
+          filter.labels.map((label) =>
+            this.driver.executeQuery<any[]>(
+              `
+              ${vectorIndexQuery(this.driver.provider, 'node', label, filter.limit)}
+              WHERE n.groupId = $groupId ${entityPropertyFilter(filter)}
+              ${filter.asOf ? nodeKnownAsOf('similarity') : ''}
+              RETURN n, labels(n) AS labels, similarity
+              ORDER BY similarity DESC
+              LIMIT $limit
+              `,
+              params,
+            ),
+          ),
+        );
+        return perLabel
+          .flat()
+          .map((result) => this.toNodeSearchCandidate(result, result.similarity))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, filter.limit);
+      } catch (error) {
+        console.warn(`Vector index query failed, falling back to a scan: ${error}`);
+      }
+    }
+
+    const results = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (n)
+      WHERE n.groupId = $groupId
+        AND ${nodeLabelFilter(filter.labels)}
+        AND n.embedding IS NOT NULL
+        AND size(n.embedding) = size($embedding)
+        ${entityPropertyFilter(filter)}
+      ${filter.asOf ? nodeKnownAsOf() : ''}
+      ${cosineSimilarityTo('n.embedding', 'n')}
+      ORDER BY similarity DESC
+      LIMIT $limit
+      RETURN n, labels(n) AS labels, similarity
+      `,
+      params,
+    );
+
+    return results.map((result) => this.toNodeSearchCandidate(result, result.similarity));
+  }
+
+  private async nodeDistanceSearch(
+    centerNodeUuid: string,
+    maxDepth: number,
+    filter: NodeSearchFilter,
+  ): Promise<NodeSearchCandidate[]> {
+    const results = await this.driver.executeQuery<any[]>(
+      `
+      MATCH path = (center {uuid: $centerNodeUuid})
+        -[:RELATES_TO|MENTIONS|HAS_MEMBER*1..${Math.max(1, Math.floor(maxDepth))}]-(n)
+      WHERE n.groupId = $groupId
+        AND ${nodeLabelFilter(filter.labels)}
+        AND n.uuid <> $centerNodeUuid
+        ${entityPropertyFilter(filter)}
+      WITH n, min(length(path)) AS distance
+      ${filter.asOf ? nodeKnownAsOf('distance') : ''}
+      RETURN n, labels(n) AS labels, distance
+      ORDER BY distance ASC
+      LIMIT $limit
+      `,
+      {
+        centerNodeUuid,
+        groupId: filter.groupId,
+        limit: filter.limit,
+        asOf: filter.asOf?.toISOString(),
+        ...entityPropertyParams(filter),
+      },
+    );
+
+    return results.map((result) => this.toNodeSearchCandidate(result, 1 / Number(result.distance)));
+  }
+
+  private toNodeSearchCandidate(result: any, score: number): NodeSearchCandidate {
+    const nodeData = result.n.properties || result.n;
+    const labels: string[] = result.labels || [];
+    let node: Node;
+
+    if (labels.includes('Entity')) {
+      node = new EntityNodeImpl({ ...nodeData, labels });
+    } else if (labels.includes('Episodic')) {
+      node = new EpisodicNodeImpl({ ...nodeData, labels });
+    } else if (labels.includes('Community')) {
+      node = new CommunityNodeImpl({ ...nodeData, labels });
+    } else {
+      throw new Error(`Unknown node type for labels: ${labels}`);
+    }
+
+    return { uuid: node.uuid, node, embedding: nodeData.embedding, score: Number(score) };
+  }
+
+  private async factFulltextSearch(
+    query: string,
+    filter: FactSearchFilter,
+  ): Promise<FactSearchCandidate[]> {
+    const terms = nameTokens(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const params = {
+      groupId: filter.groupId,
+      limit: filter.limit,
+      indexLimit: filter.limit * INDEX_OVERFETCH,
+      asOf: filter.asOf?.toISOString(),
+    };
+    const matchFacts = `
+      WITH r, score
+      MATCH (s:Entity)-[r]->(t:Entity)
+      WHERE r.groupId = $groupId
+      ${filter.asOf ? FACT_VALID_AS_OF : ''}
+      RETURN s, labels(s) AS sourceLabels, r, t, labels(t) AS targetLabels, score
+      ORDER BY score DESC
+      LIMIT $limit
+    `;
+
+    try {
+      switch (this.driver.provider) {
+        case GraphProvider.NEO4J: {
+          const results = await this.driver.executeQuery<any[]>(
+            `
+            CALL db.index.fulltext.queryRelationships(
+              '${FACT_FULLTEXT_INDEX}', $query, {limit: $indexLimit}
+            )
+            YIELD relationship AS r, score
+            ${matchFacts}
+            `,
+            { ...params, query: terms.join(' OR ') },
+          );
+          return results.map((result) => this.toFactSearchCandidate(result, result.score));
+        }
+
+        case GraphProvider.FALKORDB: {
+          const results = await this.driver.executeQuery<any[]>(
+            `
+            CALL db.idx.fulltext.queryRelationships('RELATES_TO', $query)
+            YIELD relationship AS r, score
+            ${matchFacts}
+            `,
+            { ...params, query: terms.join(' | ') },
+          );
+          return results.map((result) => this.toFactSearchCandidate(result, result.score));
+        }
+      }
+    } catch (error) {
+      console.warn(`Full-text index query failed, falling back to a scan: ${error}`);
+    }
+
+    const results = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (s:Entity)-[r:RELATES_TO]->(t:Entity)
+      WHERE r.groupId = $groupId
+      ${filter.asOf ? FACT_VALID_AS_OF : ''}
+      RETURN s, labels(s) AS sourceLabels, r, t, labels(t) AS targetLabels
+      `,
+      params,
+    );
+
+    const byUuid = new Map<string, any>();
+    for (const result of results) {
+      byUuid.set((result.r.properties || result.r).uuid, result);
+    }
+    const documents = results.map((result) => {
+      const data = result.r.properties || result.r;
+      return { uuid: data.uuid, text: [data.name, data.fact].filter(Boolean).join(' ') };
+    });
+
+    return bm25Scores(query, documents)
+      .slice(0, filter.limit)
+      .map(({ uuid, score }) => this.toFactSearchCandidate(byUuid.get(uuid), score));
+  }
+
+  private async factSimilaritySearch(
+    embedding: number[],
+    filter: FactSearchFilter,
+  ): Promise<FactSearchCandidate[]> {
+    const queryNorm = Math.sqrt(embedding.reduce((total, x) => total + x * x, 0));
+    if (queryNorm === 0) {
+      return [];
+    }
+
+    const params = {
+      groupId: filter.groupId,
+      embedding,
+      queryNorm,
+      limit: filter.limit,
+      asOf: filter.asOf?.toISOString(),
+    };
+
+    if (hasVectorIndexes(this.driver.provider)) {
+      try {
+        const results = await this.driver.executeQuery<any[]>(
+          `
+          ${vectorIndexQuery(this.driver.provider, 'relationship', 'RELATES_TO', filter.limit)}
+          MATCH (s:Entity)-[r]->(t:Entity)
+          WHERE r.groupId = $groupId
+          ${filter.asOf ? FACT_VALID_AS_OF : ''}
+          RETURN s, labels(s) AS sourceLabels, r, t, labels(t) AS targetLabels, similarity
+          ORDER BY similarity DESC
+          LIMIT $limit
+          `,
+          params,
+        );
+        return results.map((result) => this.toFactSearchCandidate(result, result.similarity));
+      } catch (error) {
+        console.warn(`Vector index query failed, falling back to a scan: ${error}`);
+      }
+    }
+
+    const results = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (s:Entity)-[r:RELATES_TO]->(t:Entity)
+      WHERE r.groupId = $groupId
+        AND r.factEmbedding IS NOT NULL
+        AND size(r.factEmbedding) = size($embedding)
+      ${filter.asOf ? FACT_VALID_AS_OF : ''}
+      ${cosineSimilarityTo('r.factEmbedding', 's, r, t')}
+      ORDER BY similarity DESC
+      LIMIT $limit
+      RETURN s, labels(s) AS sourceLabels, r, t, labels(t) AS targetLabels, similarity
+      `,
+      params,
+    );
+
+    return results.map((result) => this.toFactSearchCandidate(result, result.similarity));
+  }
+
+  private async factDistanceSearch(
+    centerNodeUuid: string,
+    maxDepth: number,
+    filter: FactSearchFilter,
+  ): Promise<FactSearchCandidate[]> {
+    const results = await this.driver.executeQuery<any[]>(
+      `
+      MATCH path = (center:Entity {uuid: $centerNodeUuid})
+        -[:RELATES_TO*1..${Math.max(1, Math.floor(maxDepth))}]-(:Entity)
+      WITH last(relationships(path)).uuid AS uuid, min(length(path)) AS distance
+      MATCH (s:Entity)-[r:RELATES_TO]->(t:Entity)
+      WHERE r.uuid = uuid
+        AND r.groupId = $groupId
+      ${filter.asOf ? FACT_VALID_AS_OF : ''}
+      RETURN s, labels(s) AS sourceLabels, r, t, labels(t) AS targetLabels, distance
+      ORDER BY distance ASC
+      LIMIT $limit
+      `,
+      {
+        centerNodeUuid,
+        groupId: filter.groupId,
+        limit: filter.limit,
+        asOf: filter.asOf?.toISOString(),
+      },
+    );
+
+    return results.map((result) => this.toFactSearchCandidate(result, 1 / Number(result.distance)));
+  }
+
+  private toFactSearchCandidate(result: any, score: number): FactSearchCandidate {
+    const edgeData = result.r.properties || result.r;
+    const sourceData = result.s.properties || result.s;
+    const targetData = result.t.properties || result.t;
+
+    const edge = new EntityEdgeImpl({
+      ...edgeData,
+      sourceNodeUuid: sourceData.uuid,
+      targetNodeUuid: targetData.uuid,
+      createdAt: parseDbDate(edgeData.createdAt) ?? undefined,
+      validAt: parseDbDate(edgeData.validAt)!,
+      invalidAt: parseDbDate(edgeData.invalidAt) ?? undefined,
+      expiredAt: parseDbDate(edgeData.expiredAt) ?? undefined,
+    });
+
+    return {
+      uuid: edge.uuid,
+      edge,
+      sourceNode: new EntityNodeImpl({ ...sourceData, labels: result.sourceLabels || ['Entity'] }),
+      targetNode: new EntityNodeImpl({ ...targetData, labels: result.targetLabels || ['Entity'] }),
+      embedding: edgeData.factEmbedding,
+      score: Number(score),
+    };
+  }
+
+  /**
+   * Get a node by UUID, or null if `asOf` is given and the node was not yet known then
+   */
+  async getNode(uuid: string, asOf?: Date): Promise<Node | null> {
+    const node = await Node.getByUuid(this.driver, uuid);
+    if (!node || !asOf) {
+      return node;
+    }
+
+    const result = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (n {uuid: $uuid})
+      ${nodeKnownAsOf()}
+      RETURN n.uuid AS uuid
+      `,
+      { uuid, asOf: asOf.toISOString() },
+    );
+
+    return result.length > 0 ? node : null;
+  }
+
+  /**
+   * Get an edge by UUID, or null if `asOf` is given and the edge was not valid then.
+   * Entity edges are valid from validAt until invalidAt; other edges follow their nodes.
+   */
+  async getEdge(uuid: string, asOf?: Date): Promise<Edge | null> {
+    const edge = await Edge.getByUuid(this.driver, uuid);
+    if (!edge || !asOf) {
+      return edge;
+    }
+
+    if (edge instanceof EntityEdgeImpl) {
+      const validAt = parseDbDate(edge.validAt);
+      const invalidAt = parseDbDate(edge.invalidAt);
+      const isValid =
+        (!validAt || validAt.getTime() <= asOf.getTime()) &&
+        (!invalidAt || invalidAt.getTime() > asOf.getTime());
+      return isValid ? edge : null;
+    }
+
+    const [source, target] = await Promise.all([
+      this.getNode(edge.sourceNodeUuid, asOf),
+      this.getNode(edge.targetNodeUuid, asOf),
+    ]);
+    return source && target ? edge : null;
+  }
+
+  async deleteNode(uuid: string): Promise<void> {
+    const node = await this.getNode(uuid);
+    if (node) {
+      await node.delete(this.driver);
+      this.emitNodeEvent('node.deleted', node);
+    }
+  }
+
+  async deleteEdge(uuid: string): Promise<void> {
+    const edge = await this.getEdge(uuid);
+    if (edge) {
+      await edge.delete(this.driver);
+      this.emitEdgeEvent('edge.deleted', edge, {}, edgeLabel(edge));
+    }
+  }
+
+  /**
+   * Remove an episode along with the knowledge only it supports: RELATES_TO
+   * edges it is the sole episode of are deleted, other edges it supports drop
+   * it from their episodes, and entities it mentioned that no other episode
+   * mentions are deleted, as are communities left without members. Facts it
+   * invalidated are valid again. Summaries of the remaining entities are left
+   * as they are.
+   */
+  async removeEpisode(uuid: string): Promise<void> {
+    const [episode] = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (e:Episodic {uuid: $uuid})
+      RETURN e.uuid AS uuid, e.groupId AS groupId
+      `,
+      { uuid },
+    );
+    if (!episode) {
+      throw new Error(`Episode not found: ${uuid}`);
+    }
+
+    await this.inWriteTransaction(async () => {
+      await this.restoreInvalidatedFacts(uuid);
+      const mentioned = await this.detachEpisode(uuid);
+
+      await this.driver.executeQuery(
+        `
+        MATCH (e:Episodic {uuid: $uuid})
+        DETACH DELETE e
+        `,
+        { uuid },
+      );
+      this.emitNodesDeleted('Episodic', episode.groupId, [uuid]);
+
+      await this.deleteUnmentionedEntities(episode, mentioned);
+    });
+  }
+
+  /**
+   * Reopen the validity window of the facts an episode invalidated
+   */
+  private async restoreInvalidatedFacts(episodeUuid: string): Promise<void> {
+    const restored = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (:Entity)-[r:RELATES_TO]->(:Entity)
+      WHERE r.invalidatedBy = $episodeUuid
+      RETURN r.uuid AS uuid, r.groupId AS groupId
+      `,
+      { episodeUuid },
+    );
+    if (restored.length === 0) return;
+
+    await this.driver.executeQuery(
+      `
+      MATCH (:Entity)-[r:RELATES_TO]->(:Entity)
+      WHERE r.invalidatedBy = $episodeUuid
+      SET r.invalidAt = null,
+          r.expiredAt = null,
+          r.invalidatedBy = null
+      `,
+      { episodeUuid },
+    );
+    restored.forEach((row) =>
+      this.emitEdgeEvent('edge.updated', row, {
+        invalidAt: null,
+        expiredAt: null,
+        invalidatedBy: null,
+      }),
+    );
+  }
+
+  /**
+   * Withdraw an episode's support from the graph: delete the RELATES_TO edges
+   * only it supports, drop it from the episodes of the others and delete its
+   * MENTIONS edges. Edges in `keep` stay as they are. Returns the entities it
+   * mentioned and their communities.
+   */
+  private async detachEpisode(
+    uuid: string,
+    keep: string[] = [],
+  ): Promise<{ entityUuids: string[]; communityUuids: string[] }> {
+    const supported = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (:Entity)-[r:RELATES_TO]->(:Entity)
+      WHERE $uuid IN r.episodes
+      RETURN r
+      `,
+      { uuid },
+    );
+    const edges = supported
+      .map((row) => new EntityEdgeImpl(row.r.properties || row.r))
+      .filter((edge) => !keep.includes(edge.uuid));
+    const orphanedEdges = edges.filter((edge) => edge.episodes.length === 1);
+    if (orphanedEdges.length > 0) {
+      await Edge.deleteByUuids(this.driver, orphanedEdges.map((edge) => edge.uuid));
+      orphanedEdges.forEach((edge) => this.emitEdgeEvent('edge.deleted', edge));
+    }
+    for (const edge of edges.filter((edge) => edge.episodes.length > 1)) {
+      const episodes = edge.episodes.filter((other) => other !== uuid);
+      const episodeQuotes = Object.fromEntries(
+        Object.entries(edge.episodeQuotes).filter(([episodeUuid]) => episodeUuid !== uuid),
+      );
+      await this.driver.executeQuery(
+        `
+        MATCH (:Entity)-[r:RELATES_TO {uuid: $uuid}]->(:Entity)
+        SET r.episodes = $episodes,
+            r.episodeQuotes = $episodeQuotes
+        `,
+        { uuid: edge.uuid, episodes, episodeQuotes: JSON.stringify(episodeQuotes) },
+      );
+      this.emitEdgeEvent('edge.updated', edge, { episodes, episodeQuotes });
+    }
+
+    const mentioned = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (:Episodic {uuid: $uuid})-[:MENTIONS]->(n:Entity)
+      OPTIONAL MATCH (c:Community)-[:HAS_MEMBER]->(n)
+      RETURN n.uuid AS uuid, c.uuid AS communityUuid
+      `,
+      { uuid },
+    );
+
+    await this.driver.executeQuery(
+      `
+      MATCH (:Episodic {uuid: $uuid})-[m:MENTIONS]->(:Entity)
+      DELETE m
+      `,
+      { uuid },
+    );
+
+    return {
+      entityUuids: [...new Set(mentioned.map((row) => row.uuid))],
+      communityUuids: [...new Set(mentioned.map((row) => row.communityUuid).filter(Boolean))],
+    };
+  }
+
+  /**
+   * Delete the given entities of the episode's group that no episode other
+   * than `episode` mentions, then the given communities left without members.
+   * The episode is excluded explicitly since an updated episode mentions its
+   * new entities again.
+   */
+  private async deleteUnmentionedEntities(
+    episode: Pick<EpisodicNode, 'uuid' | 'groupId'>,
+    { entityUuids, communityUuids }: { entityUuids: string[]; communityUuids: string[] },
+  ): Promise<void> {
+    const stillMentioned = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (e:Episodic)-[:MENTIONS]->(n:Entity)
+      WHERE n.uuid IN $uuids AND e.uuid <> $episodeUuid
+      RETURN n.uuid AS uuid
+      `,
+      { uuids: entityUuids, episodeUuid: episode.uuid },
+    );
+    const keep = new Set(stillMentioned.map((row) => row.uuid));
+    const orphanedEntities = entityUuids.filter((entityUuid) => !keep.has(entityUuid));
+    if (orphanedEntities.length === 0) return;
+
+    await this.driver.executeQuery(
+      `
+      MATCH (n:Entity)
+      WHERE n.uuid IN $uuids
+      DETACH DELETE n
+      `,
+      { uuids: orphanedEntities },
+    );
+    this.emitNodesDeleted('Entity', episode.groupId, orphanedEntities);
+
+    const populated = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (c:Community)-[:HAS_MEMBER]->(n:Entity)
+      WHERE c.uuid IN $uuids AND NOT n.uuid IN $deleted
+      RETURN c.uuid AS uuid
+      `,
+      { uuids: communityUuids, deleted: orphanedEntities },
+    );
+    const populatedUuids = new Set(populated.map((row) => row.uuid));
+    const emptied = communityUuids.filter((communityUuid) => !populatedUuids.has(communityUuid));
+    await this.driver.executeQuery(
+      `
+      MATCH (c:Community)
+      WHERE c.uuid IN $uuids
+      DETACH DELETE c
+      `,
+      { uuids: emptied },
+    );
+    this.emitNodesDeleted('Community', episode.groupId, emptied);
+  }
+
+  /**
+   * The episodes a fact was learned from, oldest first, each with the sentence
+   * stating it. Sentences quoted at extraction are returned as stored; for
+   * other episodes the sentence sharing the most words with the fact is used.
+   */
+  async getProvenance(edgeUuid: string): Promise<FactProvenance[]> {
+    const [row] = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (:Entity)-[r:RELATES_TO {uuid: $uuid}]->(:Entity)
+      RETURN r
+      `,
+      { uuid: edgeUuid },
+    );
+    if (!row) {
+      throw new Error(`Fact not found: ${edgeUuid}`);
+    }
+    const edge = new EntityEdgeImpl(row.r.properties || row.r);
+
+    const episodes = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (e:Episodic)
+      WHERE e.uuid IN $uuids
+      RETURN e
+      ORDER BY e.validAt
+      `,
+      { uuids: edge.episodes ?? [] },
+    );
+
+    return episodes.map((result) => {
+      const data = result.e.properties || result.e;
+      return {
+        episodeUuid: data.uuid,
+        episodeName: data.name,
+        referenceId: data.referenceId ?? undefined,
+        validAt: parseDbDate(data.validAt) ?? utcNow(),
+        createdAt: parseDbDate(data.createdAt) ?? utcNow(),
+        quote: edge.episodeQuotes[data.uuid] ?? findQuote(data.content, edge.fact ?? edge.name),
+      };
+    });
+  }
+
+  // ========================================
+  // COMMUNITIES
+  // ========================================
+
+  /**
+   * Rebuild the group's communities: cluster entities over current RELATES_TO
+   * edges with label propagation and write one summarized Community node per
+   * cluster of two or more entities. Existing communities are replaced in one
+   * transaction once every cluster is summarized.
+   */
+  async buildCommunities(groupId?: string): Promise<CommunityNode[]> {
+    const group = groupId || this.defaultGroupId;
+
+    const [entities, edges] = await Promise.all([
+      this.driver.executeQuery<any[]>(
+        `
+        MATCH (n:Entity {groupId: $groupId})
+        RETURN n
+        `,
+        { groupId: group },
+      ),
+      this.driver.executeQuery<any[]>(
+        `
+        MATCH (a:Entity {groupId: $groupId})-[r:RELATES_TO]->(b:Entity)
+        WHERE r.expiredAt IS NULL
+        RETURN a.uuid AS source, b.uuid AS target, count(r) AS weight
+        `,
+        { groupId: group },
+      ),
+    ]);
+
+    const entityMap = new Map<string, EntityNodeImpl>();
+    for (const row of entities) {
+      const data = row.n.properties || row.n;
+      entityMap.set(data.uuid, new EntityNodeImpl(data));
+    }
+
+    const graph: WeightedGraph = new Map();
+    for (const edge of edges) {
+      if (entityMap.has(edge.source) && entityMap.has(edge.target)) {
+        addWeightedEdge(graph, edge.source, edge.target, Number(edge.weight));
+      }
+    }
+
+    const clusters: { community: CommunityNodeImpl; members: EntityNodeImpl[] }[] = [];
+    for (const cluster of labelPropagation(graph)) {
+      if (cluster.length < 2) continue;
+
+      const members = cluster.map((uuid) => entityMap.get(uuid)!);
+      const { name, summary } = await this.summarizeCommunity(members);
+
+      const community = new CommunityNodeImpl({
+        uuid: '',
+        name,
+        groupId: group,
+        communityLevel: 0,
+        summary,
+        summaryEmbedding: await this.embedder.embed(summary),
+        labels: [],
+        createdAt: utcNow(),
+      });
+      clusters.push({ community, members });
+    }
+
+    await this.inWriteTransaction(async () => {
+      const replaced = await this.driver.executeQuery<any[]>(
+        `
+        MATCH (c:Community {groupId: $groupId})
+        RETURN c.uuid AS uuid
+        `,
+        { groupId: group },
+      );
+      await this.driver.executeQuery(
+        `
+        MATCH (c:Community {groupId: $groupId})
+        DETACH DELETE c
+        `,
+        { groupId: group },
+      );
+      this.emitNodesDeleted(
+        'Community',
+        group,
+        replaced.map((row) => row.uuid),
+      );
+
+      for (const { community, members } of clusters) {
+        await community.save(this.driver);
+        this.emitNodeEvent('node.created', community);
+
+        for (const member of members) {
+          await this.addCommunityMember(community, member);
+        }
+      }
+    });
+
+    return clusters.map(({ community }) => community);
+  }
+
+  /**
+   * Plan attaching entities that belong to no community to the community most
+   * of their neighbours belong to, counting the planned `createdEdges`, and
+   * fold their summaries into the community's. Returns the writes and the
+   * uuids of the communities gaining members.
+   */
+  private async planCommunityUpdates(
+    entities: EntityNodeImpl[],
+    createdEdges: EntityEdgeImpl[],
+    groupId: string,
+  ): Promise<{ writes: PendingWrite[]; communityUuids: string[] }> {
+    const existing = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (c:Community {groupId: $groupId})
+      RETURN c.uuid AS uuid
+      LIMIT 1
+      `,
+      { groupId },
+    );
+    if (existing.length === 0) {
+      return { writes: [], communityUuids: [] };
+    }
+
+    // Memberships and communities as the planned writes leave them
+    const joined = new Map<string, CommunityNodeImpl>();
+    const updated = new Map<string, CommunityNodeImpl>();
+    const writes: PendingWrite[] = [];
+
+    for (const entity of entities) {
+      if (joined.has(entity.uuid)) continue;
+      const [membership] = await this.driver.executeQuery<any[]>(
+        `
+        MATCH (c:Community)-[:HAS_MEMBER]->(:Entity {uuid: $uuid})
+        RETURN c.uuid AS uuid
+        LIMIT 1
+        `,
+        { uuid: entity.uuid },
+      );
+      if (membership) continue;
+
+      // One neighbour per currently valid fact
+      const related = await this.driver.executeQuery<any[]>(
+        `
+        MATCH (:Entity {uuid: $uuid})-[r:RELATES_TO]-(n:Entity)
+        WHERE r.expiredAt IS NULL
+        RETURN n.uuid AS uuid
+        `,
+        { uuid: entity.uuid },
+      );
+      const neighbours = [
+        ...related.map((row) => row.uuid as string),
+        ...createdEdges
+          .filter((edge) => !edge.expiredAt)
+          .flatMap((edge) =>
+            edge.sourceNodeUuid === entity.uuid
+              ? [edge.targetNodeUuid]
+              : edge.targetNodeUuid === entity.uuid
+                ? [edge.sourceNodeUuid]
+                : [],
+          ),
+      ];
+      if (neighbours.length === 0) continue;
+
+      const members = await this.driver.executeQuery<any[]>(
+        `
+        MATCH (c:Community)-[:HAS_MEMBER]->(n:Entity)
+        WHERE n.uuid IN $uuids
+        RETURN c, n.uuid AS member
+        `,
+        { uuids: [...new Set(neighbours)] },
+      );
+      const communityOf = new Map(joined);
+      for (const row of members) {
+        const data = row.c.properties || row.c;
+        communityOf.set(row.member, updated.get(data.uuid) ?? new CommunityNodeImpl(data));
+      }
+
+      const weights = new Map<string, { community: CommunityNodeImpl; weight: number }>();
+      for (const neighbour of neighbours) {
+        const community = communityOf.get(neighbour);
+        if (!community) continue;
+        const entry = weights.get(community.uuid) ?? { community, weight: 0 };
+        entry.weight += 1;
+        weights.set(community.uuid, entry);
+      }
+      const [best] = [...weights.values()].sort((a, b) => b.weight - a.weight);
+      if (!best) continue;
+
+      const { community } = best;
+      const { name, summary } = await this.summarizeCommunity([entity], community);
+      community.name = name;
+      community.summary = summary;
+      community.summaryEmbedding = await this.embedder.embed(summary);
+      community.createdAt = parseDbDate(community.createdAt) ?? utcNow();
+      updated.set(community.uuid, community);
+      joined.set(entity.uuid, community);
+
+      writes.push(async () => {
+        await community.save(this.driver);
+        await this.addCommunityMember(community, entity);
+        this.emitNodeEvent('node.updated', community, { name, summary });
+      });
+    }
+
+    return { writes, communityUuids: [...updated.keys()] };
+  }
+
+  private async summarizeCommunity(
+    members: EntityNodeImpl[],
+    existing?: CommunityNodeImpl,
+  ): Promise<{ name: string; summary: string }> {
+    const memberList = members
+      .slice(0, MAX_COMMUNITY_SUMMARY_MEMBERS)
+      .map((member) => `- ${member.name}: ${member.summary}`)
+      .join('\n');
+
+    const context = existing
+      ? [
+          `Existing community: ${existing.name}`,
+          `Existing summary: ${existing.summary}`,
+          '',
+          'New members:',
+        ].join('\n')
+      : 'Members:';
+
+    return this.llmClient.generateStructuredResponse(
+      `
+Summarize a community of closely related entities from a knowledge graph.
+
+${context}
+${memberList}
+
+Instructions:
+1. Write a summary describing what the members have in common and how they relate
+2. Give the community a short descriptive name (a few words)
+3. When updating an existing community, keep its relevant information
+
+Respond with valid JSON matching this structure:
+{
+  "name": "string",
+  "summary": "string"
+}`,
+      CommunitySummarySchema,
+    );
+  }
+
+  private async addCommunityMember(
+    community: CommunityNodeImpl,
+    entity: EntityNodeImpl,
+  ): Promise<void> {
+    const edge = new CommunityEdgeImpl({
+      uuid: '',
+      groupId: community.groupId,
+      sourceNodeUuid: community.uuid,
+      targetNodeUuid: entity.uuid,
+      name: 'HAS_MEMBER',
+      createdAt: utcNow(),
+    });
+    await edge.save(this.driver);
+  }
+
+  // ========================================
+  // ENTITY MERGE AND SPLIT
+  // ========================================
+
+  /**
+   * Fold duplicate entities into `keepUuid`: their MENTIONS and RELATES_TO edges
+   * are moved to the kept entity, factIds are unioned, and the summary and
+   * embedding are regenerated. Relations between the merged entities are
+   * dropped and kept in the audit record. The summary is merged before the
+   * graph is changed, in one transaction.
+   */
+  async mergeEntities(keepUuid: string, mergeUuids: string[]): Promise<EntityNode> {
+    const uuids = [...new Set(mergeUuids)].filter((uuid) => uuid !== keepUuid);
+    if (uuids.length === 0) {
+      throw new Error('mergeEntities requires at least one entity to merge');
+    }
+
+    const [keep, ...merged] = await this.loadEntities([keepUuid, ...uuids]);
+    const foreign = merged.find((entity) => entity.groupId !== keep.groupId);
+    if (foreign) {
+      throw new Error(`Cannot merge entity ${foreign.uuid} from group ${foreign.groupId}`);
+    }
+
+    const summary = await this.mergeSummaries(keep.name, [
+      keep.summary,
+      ...merged.map((entity) => entity.summary),
+    ]);
+    const writeSummary = await this.updateEntitySummary(keep, summary);
+
+    keep.factIds = [...new Set([keep, ...merged].flatMap((entity) => entity.factIds || []))];
+    // Attributes of the kept entity win over those of the merged ones
+    const attributes = Object.assign(
+      {},
+      ...merged.map((entity) => entity.attributes),
+      keep.attributes,
+    );
+    const writeAttributes =
+      Object.keys(attributes).length > 0 ? this.updateEntityAttributes(keep, attributes) : null;
+
+    await this.inTransaction(async () => {
+      const internal = await this.driver.executeQuery<any[]>(
+        `
+        MATCH (a:Entity)-[r:RELATES_TO]->(b:Entity)
+        WHERE a.uuid IN $uuids AND b.uuid IN $uuids
+        RETURN r, a.uuid AS sourceUuid, b.uuid AS targetUuid
+        `,
+        { uuids: [keepUuid, ...uuids] },
+      );
+      const dropped = internal.map((row) =>
+        entityEdgeFromRow(row.r.properties || row.r, row.sourceUuid, row.targetUuid),
+      );
+      if (dropped.length > 0) {
+        await Edge.deleteByUuids(
+          this.driver,
+          dropped.map((edge) => edge.uuid),
+        );
+        dropped.forEach((edge) => this.emitEdgeEvent('edge.deleted', edge));
+      }
+
+      const entries: EntityAuditEntry[] = [];
+      for (const entity of merged) {
+        entries.push({
+          uuid: entity.uuid,
+          name: entity.name,
+          entityType: entity.entityType,
+          summary: entity.summary,
+          ...(await this.moveEntityEdges(entity.uuid, keepUuid)),
+          droppedEdges: dropped
+            .filter((edge) => [edge.sourceNodeUuid, edge.targetNodeUuid].includes(entity.uuid))
+            .map(eventPayload),
+          attributes: entity.attributes,
+          factIds: entity.factIds || [],
+        });
+      }
+
+      await this.driver.executeQuery(
+        `
+        MATCH (n:Entity)
+        WHERE n.uuid IN $uuids
+        DETACH DELETE n
+        `,
+        { uuids },
+      );
+      this.emitNodesDeleted('Entity', keep.groupId, uuids);
+
+      await writeSummary();
+      await this.driver.executeQuery(
+        `
+        MATCH (n:Entity {uuid: $uuid})
+        SET n.factIds = $factIds
+        `,
+        { uuid: keepUuid, factIds: keep.factIds },
+      );
+      this.emitNodeEvent('node.updated', keep, { factIds: keep.factIds });
+      await writeAttributes?.();
+
+      await this.saveAuditRecord('merge', keep, entries);
+    });
+
+    return keep;
+  }
+
+  /**
+   * Carve a new entity out of `uuid`, moving the given episode mentions and
+   * relations to it and recreating the given dropped relations. Passing an
+   * entry from a merge audit record undoes that merge. The original entity's
+   * summary, attributes and factIds are left for the caller to revise.
+   */
+  async splitEntity(uuid: string, params: SplitEntityParams): Promise<EntityNode> {
+    const [source] = await this.loadEntities([uuid]);
+
+    const entity = new EntityNodeImpl({
+      uuid: params.uuid || '',
+      name: params.name,
+      groupId: source.groupId,
+      entityType: params.entityType || source.entityType,
+      summary: params.summary,
+      summaryEmbedding: await this.embedder.embed(params.summary),
+      labels: [],
+      attributes: params.attributes,
+      factIds: params.factIds,
+      createdAt: utcNow(),
+    });
+
+    // Audit records leave embeddings out, so recreated facts are embedded again
+    const dropped = (params.droppedEdges ?? []).map((data: any) =>
+      entityEdgeFromRow(data, data.sourceNodeUuid, data.targetNodeUuid),
+    );
+    const factEmbeddings =
+      dropped.length > 0
+        ? await this.embedder.embedBatch(dropped.map((edge) => edge.fact || edge.name))
+        : [];
+    dropped.forEach((edge, i) => (edge.factEmbedding = factEmbeddings[i]));
+
+    await this.inTransaction(async () => {
+      await entity.save(this.driver);
+      this.emitNodeEvent('node.created', entity);
+
+      // A dropped edge comes back once both of its entities exist again
+      const present = await this.driver.executeQuery<any[]>(
+        `
+        MATCH (n:Entity)
+        WHERE n.uuid IN $uuids
+        RETURN n.uuid AS uuid
+        `,
+        { uuids: dropped.flatMap((edge) => [edge.sourceNodeUuid, edge.targetNodeUuid]) },
+      );
+      const existing = await this.driver.executeQuery<any[]>(
+        `
+        MATCH (:Entity)-[r:RELATES_TO]->(:Entity)
+        WHERE r.uuid IN $uuids
+        RETURN r.uuid AS uuid
+        `,
+        { uuids: dropped.map((edge) => edge.uuid) },
+      );
+      const entityUuids = new Set(present.map((row) => row.uuid));
+      const edgeUuids = new Set(existing.map((row) => row.uuid));
+      for (const edge of dropped) {
+        if (edgeUuids.has(edge.uuid)) continue;
+        if (!entityUuids.has(edge.sourceNodeUuid) || !entityUuids.has(edge.targetNodeUuid)) {
+          continue;
+        }
+        await edge.save(this.driver);
+        this.emitEdgeEvent('edge.created', edge);
+      }
+
+      const moved = await this.moveEntityEdges(uuid, entity.uuid, {
+        episodeUuids: params.episodeUuids ?? [],
+        edgeUuids: params.edgeUuids ?? [],
+      });
+
+      const shared = await this.driver.executeQuery<any[]>(
+        `
+        MATCH (episode:Episodic)-[:MENTIONS]->(:Entity {uuid: $uuid})
+        WHERE episode.uuid IN $episodeUuids
+        RETURN episode.uuid AS uuid
+        `,
+        { uuid, episodeUuids: params.sharedEpisodeUuids ?? [] },
+      );
+      for (const { uuid: episodeUuid } of shared) {
+        await new EpisodicEdgeImpl({
+          uuid: '',
+          groupId: source.groupId,
+          sourceNodeUuid: episodeUuid,
+          targetNodeUuid: entity.uuid,
+          createdAt: utcNow(),
+        }).save(this.driver);
+      }
+      moved.sharedEpisodeUuids = shared.map((row) => row.uuid);
+
+      await this.saveAuditRecord('split', source, [
+        {
+          uuid: entity.uuid,
+          name: entity.name,
+          entityType: entity.entityType,
+          summary: entity.summary,
+          ...moved,
+        },
+      ]);
+    });
+
+    return entity;
+  }
+
+  /**
+   * Merge and split records involving an entity, oldest first
+   */
+  async getEntityAuditLog(uuid: string): Promise<EntityAuditRecord[]> {
+    const result = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (a:EntityAudit)
+      WHERE a.targetUuid = $uuid OR $uuid IN a.entityUuids
+      RETURN a
+      ORDER BY a.createdAt
+      `,
+      { uuid },
+    );
+
+    return result.map((row) => {
+      const data = row.a.properties || row.a;
+      return {
+        uuid: data.uuid,
+        groupId: data.groupId,
+        action: data.action,
+        targetUuid: data.targetUuid,
+        entities: JSON.parse(data.entities),
+        createdAt: parseDbDate(data.createdAt) ?? utcNow(),
+      };
+    });
+  }
+
+  private async loadEntities(uuids: string[]): Promise<EntityNodeImpl[]> {
+    const result = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (n:Entity)
+      WHERE n.uuid IN $uuids
+      RETURN n
+      `,
+      { uuids },
+    );
+
+    const byUuid = new Map<string, EntityNodeImpl>();
+    for (const row of result) {
+      const data = row.n.properties || row.n;
+      byUuid.set(data.uuid, new EntityNodeImpl(data));
+    }
+
+    return uuids.map((uuid) => {
+      const entity = byUuid.get(uuid);
+      if (!entity) {
+        throw new Error(`Entity not found: ${uuid}`);
+      }
+      return entity;
+    });
+  }
+
+  /**
+   * Re-point MENTIONS and RELATES_TO edges from one entity to another, keeping
+   * their properties. Without a filter every edge moves. An episode already
+   * mentioning the target keeps its single MENTIONS edge.
+   */
+  private async moveEntityEdges(
+    fromUuid: string,
+    toUuid: string,
+    filter: { episodeUuids?: string[]; edgeUuids?: string[] } = {},
+  ): Promise<Pick<EntityAuditEntry, 'episodeUuids' | 'sharedEpisodeUuids' | 'edgeUuids'>> {
+    const params = {
+      fromUuid,
+      toUuid,
+      episodeUuids: filter.episodeUuids ?? null,
+      edgeUuids: filter.edgeUuids ?? null,
+    };
+
+    const alreadyLinked = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (episode:Episodic)-[m:MENTIONS]->(from:Entity {uuid: $fromUuid})
+      WHERE $episodeUuids IS NULL OR episode.uuid IN $episodeUuids
+      MATCH (episode)-[:MENTIONS]->(to:Entity {uuid: $toUuid})
+      DELETE m
+      RETURN episode.uuid AS uuid
+      `,
+      params,
+    );
+
+    const relinked = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (episode:Episodic)-[m:MENTIONS]->(from:Entity {uuid: $fromUuid})
+      WHERE $episodeUuids IS NULL OR episode.uuid IN $episodeUuids
+      MATCH (to:Entity {uuid: $toUuid})
+      CREATE (episode)-[moved:MENTIONS]->(to)
+      SET moved = properties(m)
+      DELETE m
+      RETURN episode.uuid AS uuid
+      `,
+      params,
+    );
+
+    const outgoing = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (from:Entity {uuid: $fromUuid})-[r:RELATES_TO]->(other:Entity)
+      WHERE $edgeUuids IS NULL OR r.uuid IN $edgeUuids
+      MATCH (to:Entity {uuid: $toUuid})
+      CREATE (to)-[moved:RELATES_TO]->(other)
+      SET moved = properties(r)
+      DELETE r
+      RETURN moved.uuid AS uuid, moved.groupId AS groupId
+      `,
+      params,
+    );
+    outgoing.forEach((row) => this.emitEdgeEvent('edge.updated', row, { sourceNodeUuid: toUuid }));
+
+    const incoming = await this.driver.executeQuery<any[]>(
+      `
+      MATCH (other:Entity)-[r:RELATES_TO]->(from:Entity {uuid: $fromUuid})
+      WHERE $edgeUuids IS NULL OR r.uuid IN $edgeUuids
+      MATCH (to:Entity {uuid: $toUuid})
+      CREATE (other)-[moved:RELATES_TO]->(to)
+      SET moved = properties(r)
+      DELETE r
+      RETURN moved.uuid AS uuid, moved.groupId AS groupId
+      `,
+      params,
+    );
+    incoming.forEach((row) => this.emitEdgeEvent('edge.updated', row, { targetNodeUuid: toUuid }));
+
+    return {
+      episodeUuids: relinked.map((row) => row.uuid),
+      sharedEpisodeUuids: alreadyLinked.map((row) => row.uuid),
+      edgeUuids: [...outgoing, ...incoming].map((row) => row.uuid),
+    };
+  }
+
+  private async saveAuditRecord(
+    action: EntityAuditRecord['action'],
+    target: EntityNodeImpl,
+    entities: EntityAuditEntry[],
+  ): Promise<void> {
+    await this.driver.executeQuery(
+      `
+      CREATE (a:EntityAudit {
+        uuid: $uuid,
+        groupId: $groupId,
+        action: $action,
+        targetUuid: $targetUuid,
+        entityUuids: $entityUuids,
+        entities: $entities,
+        createdAt: datetime($createdAt)
+      })
+      `,
+      {
+        uuid: uuidv4(),
+        groupId: target.groupId,
+        action,
+        targetUuid: target.uuid,
+        entityUuids: entities.map((entity) => entity.uuid),
+        entities: JSON.stringify(entities),
+        createdAt: utcNow().toISOString(),
+      },
+    );
   }
 
   async close(): Promise<void> {
@@ -446,7 +4175,7 @@ Respond with valid JSON matching this structure:
   }
 
   async createIndexes(): Promise<void> {
-    return this.driver.createIndexes();
+    return this.driver.createIndexes({ embeddingDimensions: this.embedder.dimensions });
   }
 
   async clearDatabase(): Promise<void> {
@@ -7,6 +7,7 @@ export * from './core/edges.js';
 export * from './drivers/driver.js';
 export * from './drivers/neo4j.js';
 export * from './drivers/falkordb.js';
+export * from './drivers/memory.js';
 export * from './drivers/rdf-driver.js';
 
 export * from './llm/client.js';
@@ -16,7 +17,18 @@ export * from './llm/anthropic.js';
 export * from './embedders/client.js';
 export * from './embedders/openai.js';
 
+export * from './cross-encoder/llm-reranker.js';
+export * from './cross-encoder/lexical-reranker.js';
+
+export * from './search/config.js';
+export * from './search/recipes.js';
+
 export * from './utils/datetime.js';
+export * from './utils/similarity.js';
+export * from './utils/ranking.js';
+export * from './utils/concurrency.js';
+export * from './utils/json-mapping.js';
+export * from './utils/chunking.js';
 
 // Zep Memory System exports
 export * from './zep/index.js';
@@ -0,0 +1,46 @@
+/**
+ * How the candidates of a search layer are retrieved: by keywords (BM25), by
+ * embedding (cosine similarity), or by graph distance from the center node of
+ * the search (BFS), which is skipped when no center node is given
+ */
+export type SearchMethod = 'bm25' | 'cosine_similarity' | 'bfs';
+
+/**
+ * How the rankings of a search layer are combined. 'rrf' fuses them by rank
+ * and 'mmr' trades relevance for diversity; the others rescore the best RRF
+ * candidates: 'node_distance' by hops from the center node, 'episode_mentions'
+ * by the number of episodes that mention them and 'cross_encoder' by the
+ * configured cross-encoder
+ */
+export type SearchReranker = 'rrf' | 'mmr' | 'node_distance' | 'episode_mentions' | 'cross_encoder';
+
+export interface LayerSearchConfig<R extends SearchReranker = SearchReranker> {
+  searchMethods: SearchMethod[];
+  /** Defaults to 'rrf' */
+  reranker?: R;
+  /** MMR trade-off between relevance (1) and diversity (0); defaults to 0.5 */
+  mmrLambda?: number;
+}
+
+/** Facts (entity edges); node distance is measured to their source entity */
+export type EdgeSearchConfig = LayerSearchConfig;
+
+/** Entities */
+export type NodeSearchConfig = LayerSearchConfig;
+
+export type EpisodeSearchConfig = LayerSearchConfig<'rrf' | 'mmr' | 'cross_encoder'>;
+
+export type CommunitySearchConfig = LayerSearchConfig<'rrf' | 'mmr' | 'cross_encoder'>;
+
+/**
+ * Which layers of the graph a search covers and how each one is ranked; layers
+ * without a config are not searched
+ */
+export interface SearchConfig {
+  edgeConfig?: EdgeSearchConfig;
+  nodeConfig?: NodeSearchConfig;
+  episodeConfig?: EpisodeSearchConfig;
+  communityConfig?: CommunitySearchConfig;
+  /** Results per layer; defaults to 10 */
+  limit?: number;
+}
@@ -0,0 +1,93 @@
+import { SearchConfig } from './config.js';
+
+// Preset search configs; spread one to change its limit, e.g.
+// { ...EDGE_HYBRID_SEARCH_RRF, limit: 20 }
+
+/** Edges, entities, episodes and communities by keywords and embeddings, fused by RRF */
+export const COMBINED_HYBRID_SEARCH_RRF: SearchConfig = {
+  edgeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'rrf' },
+  nodeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'rrf' },
+  episodeConfig: { searchMethods: ['bm25'], reranker: 'rrf' },
+  communityConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'rrf' },
+};
+
+/** Edges, entities, episodes and communities, diversified by MMR */
+export const COMBINED_HYBRID_SEARCH_MMR: SearchConfig = {
+  edgeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'mmr' },
+  nodeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'mmr' },
+  episodeConfig: { searchMethods: ['bm25'], reranker: 'rrf' },
+  communityConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'mmr' },
+};
+
+/**
+ * Edges, entities, episodes and communities, with edges and entities also found
+ * around the center node, all rescored by the cross-encoder
+ */
+export const COMBINED_HYBRID_SEARCH_CROSS_ENCODER: SearchConfig = {
+  edgeConfig: { searchMethods: ['bm25', 'cosine_similarity', 'bfs'], reranker: 'cross_encoder' },
+  nodeConfig: { searchMethods: ['bm25', 'cosine_similarity', 'bfs'], reranker: 'cross_encoder' },
+  episodeConfig: { searchMethods: ['bm25'], reranker: 'cross_encoder' },
+  communityConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'cross_encoder' },
+};
+
+export const EDGE_HYBRID_SEARCH_RRF: SearchConfig = {
+  edgeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'rrf' },
+};
+
+export const EDGE_HYBRID_SEARCH_MMR: SearchConfig = {
+  edgeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'mmr' },
+};
+
+/** Needs a center node */
+export const EDGE_HYBRID_SEARCH_NODE_DISTANCE: SearchConfig = {
+  edgeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'node_distance' },
+};
+
+export const EDGE_HYBRID_SEARCH_EPISODE_MENTIONS: SearchConfig = {
+  edgeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'episode_mentions' },
+};
+
+export const EDGE_HYBRID_SEARCH_CROSS_ENCODER: SearchConfig = {
+  edgeConfig: { searchMethods: ['bm25', 'cosine_similarity', 'bfs'], reranker: 'cross_encoder' },
+};
+
+export const NODE_HYBRID_SEARCH_RRF: SearchConfig = {
+  nodeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'rrf' },
+};
+
+export const NODE_HYBRID_SEARCH_MMR: SearchConfig = {
+  nodeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'mmr' },
+};
+
+/** Needs a center node */
+export const NODE_HYBRID_SEARCH_NODE_DISTANCE: SearchConfig = {
+  nodeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'node_distance' },
+};
+
+export const NODE_HYBRID_SEARCH_EPISODE_MENTIONS: SearchConfig = {
+  nodeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'episode_mentions' },
+};
+
+export const NODE_HYBRID_SEARCH_CROSS_ENCODER: SearchConfig = {
+  nodeConfig: { searchMethods: ['bm25', 'cosine_similarity', 'bfs'], reranker: 'cross_encoder' },
+};
+
+export const EPISODE_HYBRID_SEARCH_RRF: SearchConfig = {
+  episodeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'rrf' },
+};
+
+export const EPISODE_HYBRID_SEARCH_CROSS_ENCODER: SearchConfig = {
+  episodeConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'cross_encoder' },
+};
+
+export const COMMUNITY_HYBRID_SEARCH_RRF: SearchConfig = {
+  communityConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'rrf' },
+};
+
+export const COMMUNITY_HYBRID_SEARCH_MMR: SearchConfig = {
+  communityConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'mmr' },
+};
+
+export const COMMUNITY_HYBRID_SEARCH_CROSS_ENCODER: SearchConfig = {
+  communityConfig: { searchMethods: ['bm25', 'cosine_similarity'], reranker: 'cross_encoder' },
+};
@@ -0,0 +1,229 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { episodeText, lengthVector, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('should bound calls in flight and settle every item in input order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (ms, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(ms);
+      inFlight--;
+      if (index === 3) throw new Error('boom');
+      return ms * 2;
+    });
+
+    assert.strictEqual(maxInFlight, 2);
+    assert.deepStrictEqual(
+      results.map((r) => (r.status === 'fulfilled' ? r.value : (r.reason as Error).message)),
+      [60, 20, 40, 'boom', 10],
+    );
+  });
+});
+
+describe('Graphzep.addEpisodesBulk', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let embedBatchCalls: string[][];
+  let embedCalls: string[];
+  let extractionsInFlight: number;
+  let maxExtractionsInFlight: number;
+  let mergePrompts: string[];
+
+  // Entities and relations the stub LLM extracts from each episode
+  const extractions: Record<string, any> = {
+    'Alice works at Acme.': {
+      entities: [
+        { name: 'Alice', entityType: 'Person', summary: 'Alice works at Acme' },
+        { name: 'Acme', entityType: 'Company', summary: 'Acme is a company' },
+      ],
+      relations: [{ sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT' }],
+    },
+    'alice likes tea.': {
+      entities: [
+        { name: 'alice', entityType: 'Person', summary: 'Alice likes tea' },
+        { name: 'Tea', entityType: 'Drink', summary: 'Tea is a drink' },
+      ],
+      relations: [{ sourceName: 'alice', targetName: 'Tea', relationName: 'LIKES' }],
+    },
+    'Bob founded Acme.': {
+      entities: [
+        { name: 'Bob', entityType: 'Person', summary: 'Bob founded Acme' },
+        { name: 'Acme', entityType: 'Company', summary: 'Acme is a company' },
+      ],
+      relations: [{ sourceName: 'Bob', targetName: 'Acme', relationName: 'FOUNDED' }],
+    },
+  };
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    extractionsInFlight = 0;
+    maxExtractionsInFlight = 0;
+
+    const { embedder, calls, batches } = scriptedEmbedder(lengthVector);
+    embedCalls = calls;
+    embedBatchCalls = batches;
+
+    const { llmClient, prompts } = scriptedLLM({
+      merge: () => ({ summary: 'Alice works at Acme and likes tea' }),
+      extraction: async (prompt) => {
+        const content = episodeText(prompt);
+        extractionsInFlight++;
+        maxExtractionsInFlight = Math.max(maxExtractionsInFlight, extractionsInFlight);
+        await sleep(10);
+        extractionsInFlight--;
+
+        if (!extractions[content]) throw new Error(`Extraction failed for ${content}`);
+        return extractions[content];
+      },
+    });
+    mergePrompts = prompts.merge;
+
+    graphzep = new Graphzep({ driver, llmClient, embedder, groupId: 'g' });
+  });
+
+  const entityNames = async () =>
+    (await driver.executeQuery<any[]>('MATCH (e:Entity) RETURN e.name AS name ORDER BY name')).map(
+      (row) => row.name,
+    );
+
+  it('should embed episodes in one batch and bound extraction concurrency', async () => {
+    const contents = ['Alice works at Acme.', 'alice likes tea.', 'Bob founded Acme.'];
+    const results = await graphzep.addEpisodesBulk(
+      contents.map((content) => ({ content })),
+      { concurrency: 2 },
+    );
+
+    assert(results.every((r) => r.success));
+    assert.deepStrictEqual(
+      results.map((r) => (r.success ? r.episode.content : null)),
+      contents,
+    );
+    assert.strictEqual(maxExtractionsInFlight, 2);
+    assert.deepStrictEqual(embedBatchCalls[0], contents);
+    assert.deepStrictEqual(embedCalls, []);
+  });
+
+  it('should dedupe entities across the batch before writing', async () => {
+    await graphzep.addEpisodesBulk([
+      { content: 'Alice works at Acme.' },
+      { content: 'alice likes tea.' },
+      { content: 'Bob founded Acme.' },
+    ]);
+
+    assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice', 'Bob', 'Tea']);
+
+    // Differing summaries of Alice are merged; identical ones of Acme are not
+    assert.strictEqual(mergePrompts.length, 1);
+    assert(mergePrompts[0].includes('Entity: Alice'));
+    const [alice] = await driver.executeQuery<any[]>(
+      "MATCH (e:Entity {name: 'Alice'}) RETURN e.summary AS summary",
+    );
+    assert.strictEqual(alice.summary, 'Alice works at Acme and likes tea');
+
+    // All unique summaries are embedded in a single batch
+    assert.deepStrictEqual(embedBatchCalls[1], [
+      'Alice works at Acme and likes tea',
+      'Acme is a company',
+      'Tea is a drink',
+      'Bob founded Acme',
+    ]);
+
+    const [{ mentions }] = await driver.executeQuery<any[]>(
+      "MATCH (:Episodic)-[:MENTIONS]->(e:Entity {name: 'Acme'}) RETURN count(e) AS mentions",
+    );
+    assert.strictEqual(mentions, 2);
+
+    const facts = await driver.executeQuery<any[]>(
+      'MATCH (s:Entity)-[r:RELATES_TO]->(t:Entity) RETURN r.fact AS fact ORDER BY fact',
+    );
+    assert.deepStrictEqual(
+      facts.map((row) => row.fact),
+      ['Alice LIKES Tea', 'Alice WORKS_AT Acme', 'Bob FOUNDED Acme'],
+    );
+  });
+
+  it('should report failed episodes without aborting the batch', async () => {
+    const results = await graphzep.addEpisodesBulk([
+      { content: 'Alice works at Acme.' },
+      { content: 'Unparseable.' },
+      { content: 'Bob founded Acme.' },
+    ]);
+
+    assert.deepStrictEqual(
+      results.map((r) => r.success),
+      [true, false, true],
+    );
+    assert(!results[1].success && results[1].error.message.includes('Unparseable.'));
+
+    const [{ episodes }] = await driver.executeQuery<any[]>(
+      'MATCH (e:Episodic) RETURN count(e) AS episodes',
+    );
+    assert.strictEqual(episodes, 2);
+    assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice', 'Bob']);
+  });
+
+  it('should write the entities of a failed episode with a later one mentioning them', async () => {
+    const created: string[] = [];
+    graphzep.on('node.created', (event) => {
+      if (event.label === 'Entity') created.push(event.payload.name as string);
+    });
+    graphzep.use({
+      stage: 'persist',
+      after: (context) => {
+        if (context.params.content === 'Alice works at Acme.') throw new Error('Vetoed');
+      },
+    });
+
+    const results = await graphzep.addEpisodesBulk([
+      { content: 'Alice works at Acme.' },
+      { content: 'alice likes tea.' },
+    ]);
+
+    assert.deepStrictEqual(
+      results.map((r) => r.success),
+      [false, true],
+    );
+    // Acme is only mentioned by the rolled back episode
+    assert.deepStrictEqual(await entityNames(), ['Alice', 'Tea']);
+    assert.deepStrictEqual(created.sort(), ['Alice', 'Tea']);
+  });
+
+  it('should report a failing batched embedding in the results of its episodes', async () => {
+    // Episode contents end with a period, entity summaries do not
+    const { embedder } = scriptedEmbedder((text) => {
+      if (!text.endsWith('.')) throw new Error('Embedder unavailable');
+      return lengthVector(text);
+    });
+    const { llmClient } = scriptedLLM({ extraction: (prompt) => extractions[episodeText(prompt)] });
+    graphzep = new Graphzep({ driver, llmClient, embedder, groupId: 'g' });
+
+    const results = await graphzep.addEpisodesBulk([
+      { content: 'Alice works at Acme.' },
+      { content: 'Bob founded Acme.' },
+    ]);
+
+    assert(results.every((r) => !r.success && r.error.message === 'Embedder unavailable'));
+    assert.deepStrictEqual(await entityNames(), []);
+
+    const failing = scriptedEmbedder(() => {
+      throw new Error('Embedder unavailable');
+    });
+    graphzep = new Graphzep({ driver, llmClient, embedder: failing.embedder, groupId: 'g' });
+    const unembedded = await graphzep.addEpisodesBulk([{ content: 'Alice works at Acme.' }]);
+    assert(!unembedded[0].success && unembedded[0].error.message === 'Embedder unavailable');
+  });
+
+  it('should return nothing for an empty batch', async () => {
+    assert.deepStrictEqual(await graphzep.addEpisodesBulk([]), []);
+    assert.deepStrictEqual(embedBatchCalls, []);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { CommunityNodeImpl } from '../core/nodes.js';
+import { WeightedGraph, addWeightedEdge, labelPropagation } from '../utils/label-propagation.js';
+import { extractionOf, lengthVector, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+describe('labelPropagation', () => {
+  it('should separate strongly connected groups joined by a weak edge', () => {
+    const graph: WeightedGraph = new Map();
+    for (const [a, b] of [
+      ['a1', 'a2'],
+      ['a2', 'a3'],
+      ['a1', 'a3'],
+      ['b1', 'b2'],
+      ['b2', 'b3'],
+      ['b1', 'b3'],
+    ]) {
+      addWeightedEdge(graph, a, b, 2);
+    }
+    addWeightedEdge(graph, 'a3', 'b1');
+
+    assert.deepStrictEqual(labelPropagation(graph), [
+      ['a1', 'a2', 'a3'],
+      ['b1', 'b2', 'b3'],
+    ]);
+  });
+
+  it('should follow edge weights and ignore self loops', () => {
+    const graph: WeightedGraph = new Map();
+    addWeightedEdge(graph, 'x', 'y', 5);
+    addWeightedEdge(graph, 'x', 'z', 1);
+    addWeightedEdge(graph, 'z', 'w', 3);
+    addWeightedEdge(graph, 'w', 'w', 10);
+
+    assert.deepStrictEqual(labelPropagation(graph), [
+      ['w', 'z'],
+      ['x', 'y'],
+    ]);
+  });
+});
+
+describe('Communities', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let summaryPrompts: string[];
+
+  beforeEach(async () => {
+    driver = new InMemoryDriver();
+
+    const { llmClient, prompts } = scriptedLLM({
+      extraction: () =>
+        extractionOf(
+          { entities: ['Dave', 'Alice'], relations: [['Dave', 'KNOWS', 'Alice']] },
+          'Person',
+        ),
+    });
+    summaryPrompts = prompts.community;
+
+    graphzep = new Graphzep({
+      driver,
+      llmClient,
+      embedder: scriptedEmbedder(lengthVector).embedder,
+      groupId: 'g',
+    });
+
+    await driver.executeQuery(`
+      CREATE (alice:Entity {uuid: 'alice', name: 'Alice', summary: 'Alice', groupId: 'g'}),
+             (bob:Entity {uuid: 'bob', name: 'Bob', summary: 'Bob', groupId: 'g'}),
+             (carol:Entity {uuid: 'carol', name: 'Carol', summary: 'Carol', groupId: 'g'}),
+             (x:Entity {uuid: 'x', name: 'X', summary: 'X', groupId: 'g'}),
+             (y:Entity {uuid: 'y', name: 'Y', summary: 'Y', groupId: 'g'}),
+             (loner:Entity {uuid: 'loner', name: 'Loner', summary: 'Loner', groupId: 'g'}),
+             (alice)-[:RELATES_TO {uuid: 'r1', name: 'KNOWS', groupId: 'g'}]->(bob),
+             (bob)-[:RELATES_TO {uuid: 'r2', name: 'KNOWS', groupId: 'g'}]->(carol),
+             (carol)-[:RELATES_TO {uuid: 'r3', name: 'KNOWS', groupId: 'g'}]->(alice),
+             (x)-[:RELATES_TO {uuid: 'r4', name: 'USES', groupId: 'g'}]->(y)
+    `);
+  });
+
+  const membersOf = async () =>
+    driver.executeQuery<any[]>(`
+      MATCH (c:Community)-[:HAS_MEMBER]->(e:Entity)
+      WITH c, e ORDER BY e.name
+      RETURN c.name AS community, collect(e.name) AS members
+      ORDER BY community
+    `);
+
+  it('should write a summarized community per cluster of related entities', async () => {
+    const communities = await graphzep.buildCommunities();
+
+    assert.strictEqual(communities.length, 2);
+    assert(communities.every((c) => c instanceof CommunityNodeImpl && c.communityLevel === 0));
+    assert(communities.every((c) => c.summaryEmbedding && c.summaryEmbedding.length === 2));
+    assert.strictEqual(summaryPrompts.length, 2);
+
+    assert.deepStrictEqual(await membersOf(), [
+      { community: 'Alice + Bob + Carol', members: ['Alice', 'Bob', 'Carol'] },
+      { community: 'X + Y', members: ['X', 'Y'] },
+    ]);
+
+    const results = await graphzep.search({ query: 'About', limit: 20 });
+    assert.strictEqual(results.filter((node) => node instanceof CommunityNodeImpl).length, 2);
+  });
+
+  it('should replace existing communities when rebuilt', async () => {
+    await graphzep.buildCommunities();
+    await graphzep.buildCommunities();
+
+    const [{ total }] = await driver.executeQuery<any[]>(
+      'MATCH (c:Community) RETURN count(c) AS total',
+    );
+    assert.strictEqual(total, 2);
+  });
+
+  it('should keep the existing communities when summarizing a rebuild fails', async () => {
+    await graphzep.buildCommunities();
+    const before = await membersOf();
+
+    const failing = new Graphzep({
+      driver,
+      llmClient: scriptedLLM({
+        community: () => {
+          throw new Error('LLM unavailable');
+        },
+      }).llmClient,
+      embedder: scriptedEmbedder(lengthVector).embedder,
+      groupId: 'g',
+    });
+    await assert.rejects(failing.buildCommunities(), /LLM unavailable/);
+
+    assert.deepStrictEqual(await membersOf(), before);
+  });
+
+  it('should add new entities to their neighbours community during addEpisode', async () => {
+    await graphzep.buildCommunities();
+    summaryPrompts.length = 0;
+
+    await graphzep.addEpisode({ content: 'Dave knows Alice.' });
+
+    assert.strictEqual(summaryPrompts.length, 1);
+    assert(summaryPrompts[0].includes('Existing community: Alice + Bob + Carol'));
+    assert.deepStrictEqual(await membersOf(), [
+      { community: 'Alice + Bob + Carol + Dave', members: ['Alice', 'Bob', 'Carol', 'Dave'] },
+      { community: 'X + Y', members: ['X', 'Y'] },
+    ]);
+  });
+
+  it('should leave communities untouched when none have been built', async () => {
+    await graphzep.addEpisode({ content: 'Dave knows Alice.' });
+
+    assert.strictEqual(summaryPrompts.length, 0);
+    assert.deepStrictEqual(await membersOf(), []);
+  });
+});
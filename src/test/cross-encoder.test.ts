@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { LLMRerankerClient } from '../cross-encoder/llm-reranker.js';
+import { LexicalRerankerClient } from '../cross-encoder/lexical-reranker.js';
+import { ZepRetrieval } from '../zep/retrieval.js';
+import { RerankingStrategy } from '../zep/types.js';
+
+// An LLM that answers each scoring prompt with the next reply
+const llmReplying = (...replies: (string | Error)[]) => {
+  const prompts: string[] = [];
+  const llmClient = {
+    generateResponse: async (prompt: string) => {
+      prompts.push(prompt);
+      const reply = replies.shift()!;
+      if (reply instanceof Error) throw reply;
+      return { content: reply };
+    },
+  };
+  return { llmClient: llmClient as any, prompts };
+};
+
+describe('LexicalRerankerClient', () => {
+  it('should score passages by query term coverage and BM25', async () => {
+    const scores = await new LexicalRerankerClient().rerank('italian cheese', [
+      'Team sport',
+      'Italian noodles',
+      'Italian dish with cheese',
+    ]);
+
+    assert.strictEqual(scores[0], 0);
+    assert.strictEqual(scores[2], 1);
+    assert(scores[1] > 0 && scores[1] < 1);
+  });
+});
+
+describe('LLMRerankerClient', () => {
+  it('should score passages in batched prompts', async () => {
+    const { llmClient, prompts } = llmReplying('{"0": 2, "1": 9}', '{"0": 5}');
+    const reranker = new LLMRerankerClient(llmClient, { batchSize: 2, concurrency: 1 });
+
+    const scores = await reranker.rerank('Where does Alice work?', [
+      'Bob plays football',
+      'Alice works\nat Acme',
+      'Alice lives in Lyon',
+    ]);
+
+    assert.deepStrictEqual(scores, [0.2, 0.9, 0.5]);
+    assert.strictEqual(prompts.length, 2);
+    assert(prompts[0].includes('Query: Where does Alice work?'));
+    assert(prompts[0].includes('[1] Alice works at Acme'));
+    assert(prompts[1].includes('[0] Alice lives in Lyon'));
+  });
+
+  it('should parse the common shapes of score replies', async () => {
+    const replies = [
+      'Here are the scores:\n```json\n{"scores": [{"id": 1, "score": 8}, {"id": 0, "score": 3}]}\n```',
+      '[3, "8.0"]',
+      '{"passage_0": 3, "passage_1": 8}',
+      '[0]: 3\n[1]: 8',
+      '{"0": -4, "1": 15}',
+    ];
+    const { llmClient } = llmReplying(...replies);
+    const reranker = new LLMRerankerClient(llmClient);
+
+    for (const expected of [
+      [0.3, 0.8],
+      [0.3, 0.8],
+      [0.3, 0.8],
+      [0.3, 0.8],
+      [0, 1],
+    ]) {
+      assert.deepStrictEqual(await reranker.rerank('query', ['a', 'b']), expected);
+    }
+  });
+
+  it('should fall back for passages the LLM did not score', async () => {
+    const { llmClient } = llmReplying('{"0": 10}', new Error('Rate limited'));
+    const reranker = new LLMRerankerClient(llmClient, {
+      batchSize: 2,
+      fallback: { rerank: async (_query, documents) => documents.map(() => 0.25) },
+    });
+
+    const scores = await reranker.rerank('query', ['a', 'b', 'c']);
+
+    assert.deepStrictEqual(scores, [1, 0.25, 0.25]);
+  });
+});
+
+describe('ZepRetrieval cross-encoder reranking', () => {
+  const memory = (uuid: string, content: string) => ({
+    m: {
+      properties: {
+        uuid,
+        sessionId: 's',
+        content,
+        memoryType: 'episodic',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        validFrom: '2024-01-01T00:00:00.000Z',
+        accessCount: 0,
+      },
+    },
+    facts: [],
+    score: 1,
+  });
+
+  it('should rescore the top results with the cross-encoder and drop the rest', async () => {
+    const driver = {
+      executeQuery: async () => [
+        memory('m1', 'Alice likes tea'),
+        memory('m2', 'Alice works at Acme'),
+        memory('m3', 'Acme is hiring'),
+      ],
+    };
+    const crossEncoder = {
+      rerank: async (_query: string, documents: string[]) =>
+        documents.map((document) => (document.includes('works') ? 0.9 : 0.2)),
+    };
+    const retrieval = new ZepRetrieval({} as any, driver as any, crossEncoder);
+
+    const results = await retrieval.search({
+      query: 'Where does Alice work?',
+      searchType: 'keyword',
+      rerank: true,
+      reranking: { strategy: RerankingStrategy.CROSS_ENCODER, topK: 2 },
+    });
+
+    assert.deepStrictEqual(
+      results.map((result) => [result.memory.uuid, result.score]),
+      [
+        ['m2', 0.9],
+        ['m1', 0.2],
+      ],
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { chunkText } from '../utils/chunking.js';
+import { episodeText, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+const words = (count: number, prefix = 'w') =>
+  Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('chunkText', () => {
+  it('should cut overlapping windows of tokens', () => {
+    const chunks = chunkText(words(10), { chunkBy: 'tokens', chunkSize: 4, chunkOverlap: 1 });
+
+    assert.deepStrictEqual(
+      chunks.map((chunk) => chunk.content),
+      ['w0 w1 w2 w3', 'w3 w4 w5 w6', 'w6 w7 w8 w9'],
+    );
+  });
+
+  it('should end chunks at section boundaries and repeat whole sections', () => {
+    const text = ['# Intro', words(3, 'a'), '', words(3, 'b'), '', '# Results', words(8, 'c')].join(
+      '\n',
+    );
+
+    const chunks = chunkText(text, { chunkSize: 13, chunkOverlap: 4 });
+
+    assert.deepStrictEqual(
+      chunks.map((chunk) => chunk.content),
+      [
+        `# Intro\n${words(3, 'a')}\n\n${words(3, 'b')}`,
+        `${words(3, 'b')}\n\n# Results\n${words(8, 'c')}`,
+      ],
+    );
+    assert.strictEqual(text.slice(chunks[1].start, chunks[1].end), chunks[1].content);
+
+    // Without room for the overlap, the next section starts a chunk of its own
+    assert.deepStrictEqual(
+      chunkText(text, { chunkSize: 10, chunkOverlap: 4 }).map((chunk) => chunk.content),
+      [`# Intro\n${words(3, 'a')}\n\n${words(3, 'b')}`, `# Results\n${words(8, 'c')}`],
+    );
+  });
+
+  it('should reject an overlap as large as the chunks', () => {
+    assert.throws(() => chunkText('text', { chunkSize: 4, chunkOverlap: 4 }), /chunkOverlap/);
+  });
+});
+
+describe('Document ingestion', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let extractions: string[];
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    const { llmClient, prompts } = scriptedLLM({
+      extraction: (prompt) => {
+        const text = episodeText(prompt);
+        if (text.includes('fail')) throw new Error('Extraction failed');
+        // Every chunk mentions Alice and an entity of its own
+        const [topic] = text.split(' ');
+        return {
+          entities: [
+            { name: 'Alice', entityType: 'Person', summary: 'Alice' },
+            { name: topic, entityType: 'Topic', summary: topic },
+          ],
+          relations: [{ sourceName: 'Alice', targetName: topic, relationName: 'WROTE_ABOUT' }],
+        };
+      },
+    });
+    extractions = prompts.extraction;
+    graphzep = new Graphzep({
+      driver,
+      llmClient,
+      embedder: scriptedEmbedder().embedder,
+      groupId: 'g',
+    });
+  });
+
+  const count = async (label: string) =>
+    (await driver.executeQuery<any[]>(`MATCH (n:${label}) RETURN n.uuid AS uuid`)).length;
+
+  const content = ['Physics is fun.', 'Chemistry is fun.', 'Biology is fun.'].join('\n\n');
+
+  it('should ingest chunks as a chain of episodes under a document', async () => {
+    const { document, chunks } = await graphzep.addDocument(
+      { name: 'Transcript', content, referenceId: 'doc-1', chunkSize: 3, chunkOverlap: 0 },
+      { concurrency: 1 },
+    );
+
+    assert.strictEqual(document.chunkCount, 3);
+    assert(chunks.every((chunk) => chunk.success));
+    const episodes = chunks.map((chunk) => (chunk.success ? chunk.episode : null)!);
+    assert.deepStrictEqual(
+      episodes.map((episode) => episode.name),
+      ['Transcript (1/3)', 'Transcript (2/3)', 'Transcript (3/3)'],
+    );
+
+    const linked = await driver.executeQuery<any[]>(
+      `
+      MATCH (d:Document {uuid: $uuid})-[c:HAS_CHUNK]->(e:Episodic)
+      OPTIONAL MATCH (e)-[:NEXT]->(next:Episodic)
+      RETURN d.referenceId AS referenceId, c.index AS index, e.uuid AS uuid, next.uuid AS next
+      ORDER BY index
+      `,
+      { uuid: document.uuid },
+    );
+    assert.deepStrictEqual(linked, [
+      { referenceId: 'doc-1', index: 0, uuid: episodes[0].uuid, next: episodes[1].uuid },
+      { referenceId: 'doc-1', index: 1, uuid: episodes[1].uuid, next: episodes[2].uuid },
+      { referenceId: 'doc-1', index: 2, uuid: episodes[2].uuid, next: null },
+    ]);
+
+    const alice = await driver.executeQuery<any[]>("MATCH (n:Entity {name: 'Alice'}) RETURN n");
+    assert.strictEqual(alice.length, 1);
+  });
+
+  it('should leave failed chunks out of the chain', async () => {
+    const { document, chunks } = await graphzep.addDocument({
+      name: 'Transcript',
+      content: ['Physics is fun.', 'Chemistry will fail.', 'Biology is fun.'].join('\n\n'),
+      chunkSize: 3,
+      chunkOverlap: 0,
+    });
+
+    assert.deepStrictEqual(
+      chunks.map((chunk) => chunk.success),
+      [true, false, true],
+    );
+    const chain = await driver.executeQuery<any[]>(
+      `
+      MATCH (:Document {uuid: $uuid})-[c:HAS_CHUNK]->(e:Episodic)-[:NEXT]->(next:Episodic)
+      RETURN c.index AS index, next.name AS next
+      `,
+      { uuid: document.uuid },
+    );
+    assert.deepStrictEqual(chain, [{ index: 0, next: 'Transcript (3/3)' }]);
+  });
+
+  it('should update a document added again with its referenceId', async () => {
+    const first = await graphzep.addDocument({
+      name: 'Transcript',
+      content,
+      referenceId: 'doc-1',
+      chunkSize: 3,
+      chunkOverlap: 0,
+    });
+    extractions.length = 0;
+
+    const { document, chunks } = await graphzep.addDocument({
+      name: 'Transcript v2',
+      content: ['Physics is fun.', 'Geology is fun.'].join('\n\n'),
+      referenceId: 'doc-1',
+      chunkSize: 3,
+      chunkOverlap: 0,
+    });
+
+    assert.strictEqual(document.uuid, first.document.uuid);
+    assert.strictEqual(document.chunkCount, 2);
+    // Only the chunk whose text changed is extracted again
+    assert.strictEqual(extractions.length, 1);
+    assert.match(episodeText(extractions[0]), /^Geology/);
+    const episodes = chunks.map((chunk) => (chunk.success ? chunk.episode : null)!);
+    assert.deepStrictEqual(
+      episodes.map((episode) => episode.uuid),
+      first.chunks.slice(0, 2).map((chunk) => (chunk.success ? chunk.episode.uuid : null)),
+    );
+
+    const linked = await driver.executeQuery<any[]>(
+      `
+      MATCH (d:Document)-[c:HAS_CHUNK]->(e:Episodic)
+      OPTIONAL MATCH (e)-[:NEXT]->(next:Episodic)
+      RETURN d.name AS name, c.index AS index, e.uuid AS uuid, next.uuid AS next
+      ORDER BY index
+      `,
+    );
+    assert.deepStrictEqual(linked, [
+      { name: 'Transcript v2', index: 0, uuid: episodes[0].uuid, next: episodes[1].uuid },
+      { name: 'Transcript v2', index: 1, uuid: episodes[1].uuid, next: null },
+    ]);
+    assert.strictEqual(await count('Document'), 1);
+    // The third chunk is past the new end
+    assert.strictEqual(await count('Episodic'), 2);
+  });
+
+  it('should remove the chunks it stored when the document cannot be written', async () => {
+    const begin = driver.beginTransaction.bind(driver);
+    driver.beginTransaction = async () => {
+      const transaction = await begin();
+      return {
+        ...transaction,
+        executeQuery: async (query: string, params?: Record<string, any>) => {
+          if (query.includes('Document')) throw new Error('Write failed');
+          return transaction.executeQuery(query, params);
+        },
+      };
+    };
+
+    await assert.rejects(
+      graphzep.addDocument({ name: 'Transcript', content, chunkSize: 3, chunkOverlap: 0 }),
+      /Write failed/,
+    );
+
+    assert.strictEqual(await count('Episodic'), 0);
+    assert.strictEqual(await count('Entity'), 0);
+  });
+});
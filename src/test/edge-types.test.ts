@@ -0,0 +1,124 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { z } from 'zod';
+import { Graphzep, AddEpisodeParams } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { EntityEdgeImpl } from '../core/edges.js';
+import { scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+const entityTypes = {
+  Person: z.object({}),
+  Company: z.object({}),
+  Product: z.object({}),
+};
+
+const edgeTypes = {
+  WORKS_AT: z
+    .object({ role: z.string().describe('Job title at the company') })
+    .describe('Employment of a person by a company'),
+  MAKES: z.object({}),
+};
+
+const edgeTypeMap = [
+  { source: 'Person', target: 'Company', edgeTypes: ['WORKS_AT'] },
+  { source: 'Company', target: 'Entity', edgeTypes: ['MAKES'] },
+];
+
+describe('Custom edge types', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let extractionPrompts: string[];
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    const { llmClient, prompts } = scriptedLLM({
+      extraction: () => ({
+        entities: [
+          { name: 'Alice', entityType: 'Person', summary: 'Alice' },
+          { name: 'Bob', entityType: 'Person', summary: 'Bob' },
+          { name: 'Acme', entityType: 'Company', summary: 'Acme' },
+          { name: 'Rocket', entityType: 'Product', summary: 'Rocket' },
+        ],
+        relations: [
+          {
+            sourceName: 'Alice',
+            targetName: 'Acme',
+            relationName: 'works_at',
+            attributes: { role: 'Engineer', salary: 100 },
+          },
+          { sourceName: 'Acme', targetName: 'Rocket', relationName: 'Makes' },
+          // A registered type between entity types it is not allowed for
+          { sourceName: 'Alice', targetName: 'Bob', relationName: 'WORKS_AT' },
+          // A relation naming no registered type
+          { sourceName: 'Alice', targetName: 'Bob', relationName: 'KNOWS' },
+        ],
+      }),
+    });
+    extractionPrompts = prompts.extraction;
+
+    graphzep = new Graphzep({
+      driver,
+      llmClient,
+      embedder: scriptedEmbedder(() => [1, 1]).embedder,
+      groupId: 'g',
+    });
+  });
+
+  const episode: AddEpisodeParams = {
+    content: 'Alice works at Acme as an engineer and knows Bob. Acme makes the Rocket.',
+    entityTypes,
+    edgeTypes,
+    edgeTypeMap,
+  };
+
+  const edges = async () =>
+    (
+      await driver.executeQuery<any[]>(
+        `
+        MATCH (s:Entity)-[e:RELATES_TO]->(t:Entity)
+        RETURN s.name AS source, e AS edge, t.name AS target
+        ORDER BY source, target
+        `,
+      )
+    ).map((row) => ({
+      triple: `${row.source} ${row.edge.name} ${row.target}`,
+      attributes: new EntityEdgeImpl(row.edge).attributes,
+    }));
+
+  it('should describe relation types and allowed pairs to the LLM', async () => {
+    await graphzep.addEpisode(episode);
+
+    const [prompt] = extractionPrompts;
+    assert(prompt.includes('Relation types:\n- WORKS_AT: Employment of a person by a company'));
+    assert(prompt.includes('   - role: Job title at the company'));
+    assert(prompt.includes('- Person -> Company: WORKS_AT'));
+    assert(prompt.includes('- Company -> any entity: MAKES'));
+  });
+
+  it('should normalise relation names and fall back for pairs that are not allowed', async () => {
+    await graphzep.addEpisode(episode);
+
+    assert.deepStrictEqual(await edges(), [
+      { triple: 'Acme MAKES Rocket', attributes: {} },
+      { triple: 'Alice WORKS_AT Acme', attributes: { role: 'Engineer' } },
+      { triple: 'Alice RELATES_TO Bob', attributes: {} },
+      { triple: 'Alice KNOWS Bob', attributes: {} },
+    ]);
+  });
+
+  it('should reject relations that are not allowed when asked to', async () => {
+    await graphzep.addEpisode({ ...episode, edgeTypeFallback: 'reject' });
+
+    assert.deepStrictEqual(
+      (await edges()).map((edge) => edge.triple),
+      ['Acme MAKES Rocket', 'Alice WORKS_AT Acme'],
+    );
+  });
+
+  it('should allow every relation type between any entities without an edge type map', async () => {
+    await graphzep.addEpisode({ ...episode, edgeTypeMap: undefined });
+
+    assert(!extractionPrompts[0].includes('Allowed relation types:'));
+    assert((await edges()).some((edge) => edge.triple === 'Alice WORKS_AT Bob'));
+  });
+});
@@ -0,0 +1,405 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { EntityNodeImpl } from '../core/nodes.js';
+import { episodeText, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+interface ScriptedEpisode {
+  entities: { name: string; entityType: string; summary: string }[];
+  relations?: { sourceName: string; targetName: string; relationName: string }[];
+}
+
+/**
+ * Embedder returning the configured vector for known texts and a fresh
+ * one-hot vector (orthogonal to everything else) for any other text.
+ */
+function createEmbedder(vectors: Record<string, number[]>) {
+  const assigned = new Map<string, number[]>(Object.entries(vectors));
+  return scriptedEmbedder((text) => {
+    if (!assigned.has(text)) {
+      const vector = new Array(32).fill(0);
+      vector[8 + assigned.size] = 1;
+      assigned.set(text, vector);
+    }
+    return assigned.get(text)!;
+  }).embedder;
+}
+
+function createLLM(
+  episodes: Record<string, ScriptedEpisode>,
+  resolve: (prompt: string) => { duplicateOf: number | null; summary: string | null },
+) {
+  const { llmClient, prompts } = scriptedLLM({
+    duplicate: resolve,
+    extraction: (prompt) => {
+      const episode = episodes[episodeText(prompt)];
+      return { entities: episode.entities, relations: episode.relations ?? [] };
+    },
+  });
+
+  return { client: llmClient, resolutionPrompts: prompts.duplicate, mergePrompts: prompts.merge };
+}
+
+async function getEntities(driver: InMemoryDriver) {
+  return driver.executeQuery<any[]>(`
+    MATCH (n:Entity)
+    RETURN n.name AS name, n.summary AS summary, n.summaryEmbedding AS embedding
+    ORDER BY name
+  `);
+}
+
+describe('Entity resolution', () => {
+  let driver: InMemoryDriver;
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+  });
+
+  it('should merge an LLM-confirmed duplicate found by embedding similarity', async () => {
+    const episodes: Record<string, ScriptedEpisode> = {
+      'Robert Smith is an engineer at Acme.': {
+        entities: [{ name: 'Robert Smith', entityType: 'Person', summary: 'Engineer at Acme' }],
+      },
+      'Bob joined the platform team.': {
+        entities: [
+          { name: 'Bob', entityType: 'Person', summary: 'Engineer on the platform team' },
+          { name: 'Platform Team', entityType: 'Team', summary: 'A team' },
+        ],
+        relations: [{ sourceName: 'Bob', targetName: 'Platform Team', relationName: 'MEMBER_OF' }],
+      },
+    };
+    const { client, resolutionPrompts } = createLLM(episodes, (prompt) =>
+      prompt.includes('New entity: Bob')
+        ? { duplicateOf: 0, summary: 'Engineer at Acme on the platform team' }
+        : { duplicateOf: null, summary: null },
+    );
+    const graphzep = new Graphzep({
+      driver,
+      llmClient: client,
+      embedder: createEmbedder({
+        'Engineer at Acme': [1, 0, 0],
+        'Engineer on the platform team': [0.9, 0.3, 0],
+      }),
+    });
+
+    await graphzep.addEpisode({ content: 'Robert Smith is an engineer at Acme.' });
+    const episode = await graphzep.addEpisode({ content: 'Bob joined the platform team.' });
+
+    assert.strictEqual(resolutionPrompts.length, 1);
+    assert(resolutionPrompts[0].includes('0: Robert Smith (Person) - Engineer at Acme'));
+
+    const entities = await getEntities(driver);
+    assert.deepStrictEqual(
+      entities.map((e) => [e.name, e.summary]),
+      [
+        ['Platform Team', 'A team'],
+        ['Robert Smith', 'Engineer at Acme on the platform team'],
+      ],
+    );
+    assert.notDeepStrictEqual(entities[1].embedding, [1, 0, 0]);
+
+    const links = await driver.executeQuery<any[]>(
+      `
+      MATCH (:Episodic {uuid: $uuid})-[:MENTIONS]->(n:Entity)
+      RETURN n.name AS name ORDER BY name
+      `,
+      { uuid: episode.uuid },
+    );
+    assert.deepStrictEqual(
+      links.map((l) => l.name),
+      ['Platform Team', 'Robert Smith'],
+    );
+
+    const relations = await driver.executeQuery<any[]>(`
+      MATCH (s:Entity)-[r:RELATES_TO]->(t:Entity)
+      RETURN s.name AS source, r.name AS name, t.name AS target
+    `);
+    assert.deepStrictEqual(relations, [
+      { source: 'Robert Smith', name: 'MEMBER_OF', target: 'Platform Team' },
+    ]);
+  });
+
+  it('should keep candidates the LLM rejects as separate entities', async () => {
+    const episodes: Record<string, ScriptedEpisode> = {
+      'Bob Smith runs the bakery.': {
+        entities: [{ name: 'Bob Smith', entityType: 'Person', summary: 'Runs the bakery' }],
+      },
+      'Bob Jones fixed the roof.': {
+        entities: [{ name: 'Bob Jones', entityType: 'Person', summary: 'Fixed the roof' }],
+      },
+    };
+    const { client, resolutionPrompts } = createLLM(episodes, () => ({
+      duplicateOf: null,
+      summary: null,
+    }));
+    const graphzep = new Graphzep({
+      driver,
+      llmClient: client,
+      embedder: createEmbedder({}),
+    });
+
+    await graphzep.addEpisode({ content: 'Bob Smith runs the bakery.' });
+    await graphzep.addEpisode({ content: 'Bob Jones fixed the roof.' });
+
+    // Found by the shared "bob" name token despite orthogonal embeddings
+    assert.strictEqual(resolutionPrompts.length, 1);
+    assert.deepStrictEqual(
+      (await getEntities(driver)).map((e) => e.name),
+      ['Bob Jones', 'Bob Smith'],
+    );
+  });
+
+  it('should merge summaries of exact name matches without asking for confirmation', async () => {
+    const episodes: Record<string, ScriptedEpisode> = {
+      'Alice is a chemist.': {
+        entities: [{ name: 'Alice', entityType: 'Person', summary: 'A chemist' }],
+      },
+      'alice moved to Lyon.': {
+        entities: [{ name: 'alice', entityType: 'Person', summary: 'Lives in Lyon' }],
+      },
+      'Alice is still a chemist.': {
+        entities: [{ name: 'Alice', entityType: 'Person', summary: 'A chemist Lives in Lyon' }],
+      },
+    };
+    const { client, resolutionPrompts, mergePrompts } = createLLM(episodes, () => {
+      throw new Error('exact matches should not need confirmation');
+    });
+    const graphzep = new Graphzep({
+      driver,
+      llmClient: client,
+      embedder: createEmbedder({}),
+    });
+
+    await graphzep.addEpisode({ content: 'Alice is a chemist.' });
+    await graphzep.addEpisode({ content: 'alice moved to Lyon.' });
+    await graphzep.addEpisode({ content: 'Alice is still a chemist.' });
+
+    assert.strictEqual(resolutionPrompts.length, 0);
+    assert.strictEqual(mergePrompts.length, 1);
+
+    const entities = await getEntities(driver);
+    assert.strictEqual(entities.length, 1);
+    assert.strictEqual(entities[0].name, 'Alice');
+    assert.strictEqual(entities[0].summary, 'A chemist Lives in Lyon');
+  });
+
+  it('should not consult the LLM when nothing is similar enough', async () => {
+    const episodes: Record<string, ScriptedEpisode> = {
+      'Paris is in France.': {
+        entities: [
+          { name: 'Paris', entityType: 'City', summary: 'Capital of France' },
+          { name: 'France', entityType: 'Country', summary: 'A country in Europe' },
+        ],
+      },
+    };
+    const { client, resolutionPrompts } = createLLM(episodes, () => {
+      throw new Error('no candidates expected');
+    });
+    const graphzep = new Graphzep({
+      driver,
+      llmClient: client,
+      embedder: createEmbedder({}),
+    });
+
+    await graphzep.addEpisode({ content: 'Paris is in France.' });
+
+    assert.strictEqual(resolutionPrompts.length, 0);
+    assert.strictEqual((await getEntities(driver)).length, 2);
+  });
+});
+
+describe('Entity merge and split', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let mergePrompts: string[];
+  const uuids: Record<string, string> = {};
+
+  const episodes: Record<string, ScriptedEpisode> = {
+    'Robert Smith works at Acme.': {
+      entities: [
+        { name: 'Robert Smith', entityType: 'Person', summary: 'Works at Acme' },
+        { name: 'Acme', entityType: 'Company', summary: 'A company' },
+      ],
+      relations: [{ sourceName: 'Robert Smith', targetName: 'Acme', relationName: 'WORKS_AT' }],
+    },
+    'Bob likes jazz.': {
+      entities: [
+        { name: 'Bob', entityType: 'Person', summary: 'Likes jazz' },
+        { name: 'Jazz', entityType: 'Genre', summary: 'A music genre' },
+      ],
+      relations: [{ sourceName: 'Bob', targetName: 'Jazz', relationName: 'LIKES' }],
+    },
+    'Bob is Robert Smith.': {
+      entities: [
+        { name: 'Bob', entityType: 'Person', summary: 'Likes jazz' },
+        { name: 'Robert Smith', entityType: 'Person', summary: 'Works at Acme' },
+      ],
+      relations: [{ sourceName: 'Bob', targetName: 'Robert Smith', relationName: 'SAME_AS' }],
+    },
+  };
+
+  const relations = () =>
+    driver.executeQuery<any[]>(`
+      MATCH (s:Entity)-[r:RELATES_TO]->(t:Entity)
+      RETURN s.name AS source, r.name AS name, t.name AS target
+      ORDER BY name
+    `);
+
+  const mentions = (episodeUuid: string) =>
+    driver.executeQuery<any[]>(
+      `
+      MATCH (:Episodic {uuid: $uuid})-[:MENTIONS]->(n:Entity)
+      RETURN n.name AS name ORDER BY name
+      `,
+      { uuid: episodeUuid },
+    );
+
+  beforeEach(async () => {
+    driver = new InMemoryDriver();
+    const llm = createLLM(episodes, () => ({ duplicateOf: null, summary: null }));
+    mergePrompts = llm.mergePrompts;
+    graphzep = new Graphzep({
+      driver,
+      llmClient: llm.client,
+      embedder: createEmbedder({}),
+    });
+
+    for (const content of Object.keys(episodes)) {
+      uuids[content] = (await graphzep.addEpisode({ content })).uuid;
+    }
+    for (const row of await driver.executeQuery<any[]>(
+      'MATCH (n:Entity) RETURN n.name AS name, n.uuid AS uuid',
+    )) {
+      uuids[row.name] = row.uuid;
+    }
+
+    await driver.executeQuery(
+      `
+      MATCH (r:Entity {uuid: $robert}), (b:Entity {uuid: $bob})
+      SET r.factIds = ['f1'], b.factIds = ['f2', 'f1'], b.attributes = $attributes
+      `,
+      {
+        robert: uuids['Robert Smith'],
+        bob: uuids['Bob'],
+        attributes: JSON.stringify({ instrument: 'saxophone' }),
+      },
+    );
+  });
+
+  it('should move edges to the kept entity and regenerate its summary', async () => {
+    const kept = await graphzep.mergeEntities(uuids['Robert Smith'], [uuids['Bob']]);
+
+    assert.strictEqual(kept.uuid, uuids['Robert Smith']);
+    assert.deepStrictEqual(kept.factIds, ['f1', 'f2']);
+    assert.strictEqual(mergePrompts.length, 1);
+
+    const stored = await graphzep.getNode(uuids['Robert Smith']);
+    assert(stored instanceof EntityNodeImpl);
+    assert.strictEqual(stored.summary, 'Works at Acme Likes jazz');
+    assert.deepStrictEqual(stored.factIds, ['f1', 'f2']);
+    assert.strictEqual(await graphzep.getNode(uuids['Bob']), null);
+
+    assert.deepStrictEqual(await relations(), [
+      { source: 'Robert Smith', name: 'LIKES', target: 'Jazz' },
+      { source: 'Robert Smith', name: 'WORKS_AT', target: 'Acme' },
+    ]);
+    assert.deepStrictEqual(
+      (await mentions(uuids['Bob likes jazz.'])).map((m) => m.name),
+      ['Jazz', 'Robert Smith'],
+    );
+    assert.deepStrictEqual(
+      (await mentions(uuids['Bob is Robert Smith.'])).map((m) => m.name),
+      ['Robert Smith'],
+    );
+  });
+
+  it('should undo a merge with splitEntity', async () => {
+    await graphzep.mergeEntities(uuids['Robert Smith'], [uuids['Bob']]);
+
+    const [record] = await graphzep.getEntityAuditLog(uuids['Bob']);
+    assert.strictEqual(record.action, 'merge');
+    assert.strictEqual(record.targetUuid, uuids['Robert Smith']);
+    const [entry] = record.entities;
+    assert.strictEqual(entry.name, 'Bob');
+    assert.deepStrictEqual(entry.episodeUuids, [uuids['Bob likes jazz.']]);
+    assert.deepStrictEqual(entry.sharedEpisodeUuids, [uuids['Bob is Robert Smith.']]);
+    assert.strictEqual(entry.edgeUuids.length, 1);
+    // The relation between the merged entities is gone but recorded
+    assert.deepStrictEqual(
+      entry.droppedEdges?.map((edge) => [edge.name, edge.sourceNodeUuid, edge.targetNodeUuid]),
+      [['SAME_AS', uuids['Bob'], uuids['Robert Smith']]],
+    );
+    assert.deepStrictEqual(entry.droppedEdges[0].episodes, [uuids['Bob is Robert Smith.']]);
+    assert.deepStrictEqual(entry.attributes, { instrument: 'saxophone' });
+    assert.deepStrictEqual(entry.factIds, ['f2', 'f1']);
+
+    const restored = await graphzep.splitEntity(uuids['Robert Smith'], entry);
+
+    assert.strictEqual(restored.uuid, uuids['Bob']);
+    assert.strictEqual(restored.summary, 'Likes jazz');
+    const stored = await graphzep.getNode(uuids['Bob']);
+    assert(stored instanceof EntityNodeImpl);
+    assert.deepStrictEqual(stored.attributes, { instrument: 'saxophone' });
+    assert.deepStrictEqual(stored.factIds, ['f2', 'f1']);
+    assert.deepStrictEqual(await relations(), [
+      { source: 'Bob', name: 'LIKES', target: 'Jazz' },
+      { source: 'Bob', name: 'SAME_AS', target: 'Robert Smith' },
+      { source: 'Robert Smith', name: 'WORKS_AT', target: 'Acme' },
+    ]);
+    const [sameAs] = await driver.executeQuery<any[]>(
+      `
+      MATCH ()-[r:RELATES_TO {name: 'SAME_AS'}]->()
+      RETURN r.uuid AS uuid, r.episodes AS episodes, r.factEmbedding AS factEmbedding
+      `,
+    );
+    assert.strictEqual(sameAs.uuid, entry.droppedEdges[0].uuid);
+    assert.deepStrictEqual(sameAs.episodes, [uuids['Bob is Robert Smith.']]);
+    assert(sameAs.factEmbedding.length > 0);
+    assert.deepStrictEqual(
+      (await mentions(uuids['Bob is Robert Smith.'])).map((m) => m.name),
+      ['Bob', 'Robert Smith'],
+    );
+
+    const log = await graphzep.getEntityAuditLog(uuids['Robert Smith']);
+    assert.deepStrictEqual(
+      log.map((r) => r.action),
+      ['merge', 'split'],
+    );
+  });
+
+  it('should leave the entities untouched when the merged summary fails', async () => {
+    const failing = new Graphzep({
+      driver,
+      llmClient: scriptedLLM({
+        merge: () => {
+          throw new Error('LLM unavailable');
+        },
+      }).llmClient,
+      embedder: createEmbedder({}),
+    });
+
+    await assert.rejects(
+      failing.mergeEntities(uuids['Robert Smith'], [uuids['Bob']]),
+      /LLM unavailable/,
+    );
+
+    assert(await graphzep.getNode(uuids['Bob']));
+    assert.deepStrictEqual(
+      (await relations()).map((relation) => relation.name),
+      ['LIKES', 'SAME_AS', 'WORKS_AT'],
+    );
+    assert.deepStrictEqual(await graphzep.getEntityAuditLog(uuids['Bob']), []);
+  });
+
+  it('should reject unknown entities and empty merges', async () => {
+    await assert.rejects(
+      graphzep.mergeEntities(uuids['Robert Smith'], ['missing']),
+      /Entity not found: missing/,
+    );
+    await assert.rejects(
+      graphzep.mergeEntities(uuids['Robert Smith'], [uuids['Robert Smith']]),
+      /at least one entity/,
+    );
+  });
+});
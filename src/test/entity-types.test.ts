@@ -0,0 +1,129 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { z } from 'zod';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { EntityNodeImpl } from '../core/nodes.js';
+import { scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+const entityTypes = {
+  Preference: z
+    .object({
+      category: z.string().describe("The category of the preference, e.g. 'Food'"),
+      description: z.string().describe('Brief description of the preference'),
+    })
+    .describe('Something a person likes or dislikes'),
+  Requirement: z.object({
+    project_name: z.string().describe('The project the requirement belongs to'),
+    priority: z.number().optional().describe('Priority from 1 to 5'),
+  }),
+};
+
+describe('Custom entity types', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let extractionPrompts: string[];
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    const { llmClient, prompts } = scriptedLLM({
+      extraction: () => ({
+        entities: [
+          {
+            name: 'Green tea',
+            entityType: 'Preference',
+            summary: 'Alice likes green tea',
+            attributes: { category: 'Food', description: 'Likes green tea', mood: 'calm' },
+          },
+          {
+            name: 'Coffee',
+            entityType: 'Preference',
+            summary: 'Alice dislikes coffee',
+            attributes: { category: 'Drinks', description: 'Dislikes coffee' },
+          },
+          {
+            name: 'Dark mode',
+            entityType: 'Requirement',
+            summary: 'The app needs a dark mode',
+            attributes: { project_name: 'App', priority: 'high' },
+          },
+          {
+            name: 'Alice',
+            entityType: 'Person',
+            summary: 'Alice',
+            attributes: { age: 30 },
+          },
+        ],
+        relations: [],
+      }),
+    });
+    extractionPrompts = prompts.extraction;
+
+    graphzep = new Graphzep({
+      driver,
+      llmClient,
+      embedder: scriptedEmbedder(() => [1, 1]).embedder,
+      groupId: 'g',
+    });
+  });
+
+  const entities = async () =>
+    new Map(
+      (await driver.executeQuery<any[]>('MATCH (n:Entity) RETURN n')).map((row) => {
+        const entity = new EntityNodeImpl(row.n);
+        return [entity.name, entity];
+      }),
+    );
+
+  it('should describe the entity types and their fields to the LLM', async () => {
+    await graphzep.addEpisode({ content: 'Alice likes green tea.', entityTypes });
+
+    const [prompt] = extractionPrompts;
+    assert(prompt.includes('- Preference: Something a person likes or dislikes'));
+    assert(prompt.includes("   - category: The category of the preference, e.g. 'Food'"));
+    assert(prompt.includes('   - priority (optional): Priority from 1 to 5'));
+    assert(prompt.includes('or "Entity" if none fits'));
+  });
+
+  it('should constrain classification and persist validated attributes', async () => {
+    await graphzep.addEpisode({ content: 'Alice likes green tea.', entityTypes });
+
+    const byName = await entities();
+    assert.strictEqual(byName.get('Green tea')!.entityType, 'Preference');
+    assert.deepStrictEqual(byName.get('Green tea')!.attributes, {
+      category: 'Food',
+      description: 'Likes green tea',
+    });
+    // Invalid fields are dropped one by one
+    assert.deepStrictEqual(byName.get('Dark mode')!.attributes, { project_name: 'App' });
+    // Types that are not registered fall back to the generic type without attributes
+    assert.strictEqual(byName.get('Alice')!.entityType, 'Entity');
+    assert.deepStrictEqual(byName.get('Alice')!.attributes, {});
+  });
+
+  it('should ignore attributes when no entity types are given', async () => {
+    await graphzep.addEpisode({ content: 'Alice likes green tea.' });
+
+    const byName = await entities();
+    assert.strictEqual(byName.get('Alice')!.entityType, 'Person');
+    assert.deepStrictEqual(byName.get('Green tea')!.attributes, {});
+    assert(!extractionPrompts[0].includes('Entity types:'));
+  });
+
+  it('should filter search results by entity type and attributes', async () => {
+    await graphzep.addEpisode({ content: 'Alice likes green tea.', entityTypes });
+
+    const names = async (params: object) =>
+      (await graphzep.searchNodes({ query: 'Alice tea coffee app', limit: 10, ...params }))
+        .map((result) => result.node.name)
+        .sort();
+
+    assert.deepStrictEqual(await names({ entityTypes: ['Preference'] }), ['Coffee', 'Green tea']);
+    assert.deepStrictEqual(await names({ attributes: { category: 'Food' } }), ['Green tea']);
+    assert.deepStrictEqual(
+      await names({ entityTypes: ['Requirement'], attributes: { project_name: 'App' } }),
+      ['Dark mode'],
+    );
+    assert.deepStrictEqual(await names({ attributes: { category: 'Music' } }), []);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { EpisodeType } from '../types/index.js';
+import { lengthVector, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+describe('Extraction context', () => {
+  let driver: InMemoryDriver;
+  let extractionPrompts: string[];
+
+  const createGraphzep = (previousEpisodesWindow?: number) => {
+    const { llmClient, prompts } = scriptedLLM();
+    extractionPrompts = prompts.extraction;
+
+    return new Graphzep({
+      driver,
+      llmClient,
+      embedder: scriptedEmbedder(lengthVector).embedder,
+      groupId: 'g',
+      previousEpisodesWindow,
+    });
+  };
+
+  const at = (day: number) => new Date(Date.UTC(2024, 0, day));
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+  });
+
+  it('should show previous episodes of the same group, oldest first', async () => {
+    const graphzep = createGraphzep(2);
+    await graphzep.addEpisode({ content: 'First episode.', referenceTime: at(1) });
+    await graphzep.addEpisode({ content: 'Second episode.', referenceTime: at(2) });
+    await graphzep.addEpisode({ content: 'Third episode.', referenceTime: at(3) });
+    await graphzep.addEpisode({ content: 'Other group.', referenceTime: at(3), groupId: 'h' });
+    await graphzep.addEpisode({ content: 'Later episode.', referenceTime: at(9) });
+    extractionPrompts.length = 0;
+
+    await graphzep.addEpisode({ content: 'She finished that project.', referenceTime: at(4) });
+
+    const [prompt] = extractionPrompts;
+    assert(prompt.includes('Previous episodes (oldest first, for context only):'));
+    assert(prompt.includes(`- [${at(2).toISOString()}] Second episode.`));
+    assert(prompt.indexOf('Second episode.') < prompt.indexOf('Third episode.'));
+    assert(!prompt.includes('First episode.'));
+    assert(!prompt.includes('Other group.'));
+    assert(!prompt.includes('Later episode.'));
+    assert(prompt.includes('"she" or "that project"'));
+    assert(!prompt.includes('Speaker:'));
+  });
+
+  it('should leave out context when the window is zero', async () => {
+    const graphzep = createGraphzep(0);
+    await graphzep.addEpisode({ content: 'First episode.', referenceTime: at(1) });
+    await graphzep.addEpisode({ content: 'Second episode.', referenceTime: at(2) });
+
+    assert(!extractionPrompts[1].includes('Previous episodes'));
+  });
+
+  it('should parse messages into speaker and addressee and keep the speaker', async () => {
+    const graphzep = createGraphzep();
+    await graphzep.addEpisode({
+      content: 'Bob: How was your trip?',
+      episodeType: EpisodeType.MESSAGE,
+      referenceTime: at(1),
+    });
+    await graphzep.addEpisode({
+      content: 'Alice: I loved Rome, you should go.',
+      episodeType: EpisodeType.MESSAGE,
+      referenceTime: at(2),
+    });
+
+    const prompt = extractionPrompts[1];
+    assert(prompt.includes('from the following message'));
+    assert(prompt.includes('Speaker: Alice\nAddressee: Bob'));
+    assert(prompt.includes('entity named exactly "Alice"'));
+    assert(prompt.includes('to the addressee "Bob"'));
+    assert(prompt.includes('Bob: How was your trip?'));
+
+    // Both speakers become entities although the LLM extracted none
+    const names = await driver.executeQuery<any[]>(
+      'MATCH (e:Entity) RETURN e.name AS name ORDER BY name',
+    );
+    assert.deepStrictEqual(
+      names.map((row) => row.name),
+      ['Alice', 'Bob'],
+    );
+  });
+
+  it('should take the addressee from a multi-speaker message', async () => {
+    const graphzep = createGraphzep();
+    await graphzep.addEpisode({
+      content: 'Carol: Did you call me?\nDan: Yes, about the launch.',
+      episodeType: EpisodeType.MESSAGE,
+    });
+
+    assert(extractionPrompts[0].includes('Speaker: Carol\nAddressee: Dan'));
+  });
+
+  it('should not take times or links for speakers', async () => {
+    const graphzep = createGraphzep();
+    for (const content of [
+      'Meet at 10:30 tomorrow.',
+      'https://example.com/docs is down again',
+      'Deadline moved to 2024-05-01: tell the team',
+    ]) {
+      await graphzep.addEpisode({ content, episodeType: EpisodeType.MESSAGE });
+    }
+    await graphzep.addEpisode({
+      content: "Mary-Jane O'Neil: the docs are at https://example.com",
+      episodeType: EpisodeType.MESSAGE,
+    });
+
+    assert(extractionPrompts.slice(0, 3).every((prompt) => !prompt.includes('Speaker:')));
+    assert(extractionPrompts[3].includes("Speaker: Mary-Jane O'Neil"));
+    const names = await driver.executeQuery<any[]>('MATCH (e:Entity) RETURN e.name AS name');
+    assert.deepStrictEqual(
+      names.map((row) => row.name),
+      ["Mary-Jane O'Neil"],
+    );
+  });
+
+  it('should show earlier episodes of a bulk batch as context', async () => {
+    const graphzep = createGraphzep();
+    await graphzep.addEpisode({ content: 'Stored episode.', referenceTime: at(1) });
+    extractionPrompts.length = 0;
+
+    await graphzep.addEpisodesBulk(
+      [
+        { content: 'Batch second.', referenceTime: at(3) },
+        { content: 'Batch first.', referenceTime: at(2) },
+      ],
+      { concurrency: 1 },
+    );
+
+    const [second, first] = extractionPrompts;
+    assert(first.includes('Stored episode.'));
+    assert(!first.includes('Batch second.'));
+    assert(second.indexOf('Stored episode.') < second.indexOf('Batch first.'));
+  });
+});
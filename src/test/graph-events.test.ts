@@ -0,0 +1,125 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep, GraphEvent } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { episodeText, lengthVector, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+const employers: Record<string, string> = {
+  'Alice works at Acme.': 'Acme',
+  'Alice now works at Initech.': 'Initech',
+};
+
+describe('Graph events', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let events: GraphEvent[];
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    events = [];
+    graphzep = new Graphzep({
+      driver,
+      llmClient: scriptedLLM({
+        contradiction: (prompt) => ({ contradictedFactIds: prompt.includes('Initech') ? [0] : [] }),
+        extraction: (prompt) => {
+          const employer = employers[episodeText(prompt)];
+          return {
+            entities: [
+              { name: 'Alice', entityType: 'Person', summary: 'Alice' },
+              { name: employer, entityType: 'Company', summary: employer },
+            ],
+            relations: [{ sourceName: 'Alice', targetName: employer, relationName: 'WORKS_AT' }],
+          };
+        },
+      }).llmClient,
+      embedder: scriptedEmbedder(lengthVector).embedder,
+      groupId: 'g',
+    });
+    graphzep.on('*', (event) => void events.push(event));
+  });
+
+  const summary = () => events.map((event) => `${event.type} ${event.label}`);
+
+  it('should emit what an ingested episode created once it is committed', async () => {
+    const episode = await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+
+    assert.deepStrictEqual(summary(), [
+      'node.created Entity',
+      'node.created Entity',
+      'node.created Episodic',
+      'edge.created RELATES_TO',
+      'episode.ingested Episodic',
+    ]);
+    assert(events.every((event) => event.groupId === 'g' && event.occurredAt instanceof Date));
+
+    const fact = events.find((event) => event.type === 'edge.created')!;
+    assert.strictEqual(fact.payload.fact, 'Alice WORKS_AT Acme');
+    assert.strictEqual(fact.payload.factEmbedding, undefined);
+    assert.deepStrictEqual(fact.payload.episodes, [episode.uuid]);
+
+    const ingested = events.at(-1)!;
+    assert.strictEqual(ingested.uuid, episode.uuid);
+    assert.strictEqual(ingested.payload.content, 'Alice works at Acme.');
+    assert.strictEqual((ingested.payload.entityUuids as string[]).length, 2);
+    // Payloads are meant to be forwarded as is
+    assert.doesNotThrow(() => JSON.stringify(events));
+  });
+
+  it('should emit the invalidation of contradicted facts', async () => {
+    await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+    const acme = events.find((event) => event.type === 'edge.created')!;
+    events = [];
+
+    const episode = await graphzep.addEpisode({ content: 'Alice now works at Initech.' });
+
+    const invalidated = events.find((event) => event.type === 'edge.invalidated')!;
+    assert.strictEqual(invalidated.uuid, acme.uuid);
+    assert.strictEqual(invalidated.payload.invalidatedBy, episode.uuid);
+  });
+
+  it('should emit the deletions of a removed episode', async () => {
+    const episode = await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+    events = [];
+
+    await graphzep.removeEpisode(episode.uuid);
+
+    assert.deepStrictEqual(summary(), [
+      'edge.deleted RELATES_TO',
+      'node.deleted Episodic',
+      'node.deleted Entity',
+      'node.deleted Entity',
+    ]);
+  });
+
+  it('should not emit changes that were rolled back', async () => {
+    graphzep.use({
+      stage: 'persist',
+      after: () => {
+        throw new Error('Vetoed');
+      },
+    });
+
+    await assert.rejects(graphzep.addEpisode({ content: 'Alice works at Acme.' }), /Vetoed/);
+
+    assert.deepStrictEqual(events, []);
+  });
+
+  it('should deliver events by type and survive failing listeners', async () => {
+    const ingested: string[] = [];
+    const listener = (event: GraphEvent) => void ingested.push(event.uuid);
+    graphzep
+      .on('node.created', () => {
+        throw new Error('Listener failed');
+      })
+      .on('episode.ingested', async () => {
+        throw new Error('Listener failed');
+      })
+      .on('episode.ingested', listener);
+
+    const episode = await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+    graphzep.off('episode.ingested', listener);
+    await graphzep.addEpisode({ content: 'Alice now works at Initech.' });
+
+    assert.deepStrictEqual(ingested, [episode.uuid]);
+  });
+});
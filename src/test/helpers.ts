@@ -0,0 +1,179 @@
+import { BaseLLMClient, LLMResponse } from '../llm/client.js';
+import { BaseEmbedderClient } from '../embedders/client.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { GraphDriver } from '../types/index.js';
+
+/**
+ * Test doubles for the LLM and embedder Graphzep calls during ingestion.
+ *
+ * The scripted LLM tells Graphzep's structured prompts apart by a phrase each
+ * one contains, answers them with per-kind handlers and records them by kind.
+ */
+export type PromptKind = 'extraction' | 'duplicate' | 'merge' | 'contradiction' | 'community';
+
+const PROMPT_MARKERS: [PromptKind, string][] = [
+  ['duplicate', 'duplicate of an existing one'],
+  ['merge', 'Merge descriptions'],
+  ['contradiction', 'contradicted by a new fact'],
+  ['community', 'Summarize a community'],
+];
+
+export const promptKind = (prompt: string): PromptKind =>
+  PROMPT_MARKERS.find(([, marker]) => prompt.includes(marker))?.[0] ?? 'extraction';
+
+/** First line of the text an extraction prompt asks about */
+export const episodeText = (prompt: string): string => prompt.match(/Text: (.*)/)?.[1] ?? '';
+
+/** Lines of a prompt listing items as "- item" */
+export const listItems = (prompt: string): string[] =>
+  [...prompt.matchAll(/^- (.*)$/gm)].map((match) => match[1]);
+
+export type ScriptedHandlers = {
+  [K in PromptKind]?: (prompt: string) => unknown;
+};
+
+const DEFAULT_HANDLERS: Required<ScriptedHandlers> = {
+  extraction: () => ({ entities: [], relations: [] }),
+  duplicate: () => ({ duplicateOf: null, summary: null }),
+  merge: (prompt) => ({ summary: listItems(prompt).join(' ') }),
+  contradiction: () => ({ contradictedFactIds: [] }),
+  // Named after the listed members, prefixed by the community being updated
+  community: (prompt) => {
+    const names = [...prompt.matchAll(/^- ([^:]+):/gm)].map((match) => match[1]);
+    const existing = prompt.match(/Existing community: (.*)/)?.[1];
+    return {
+      name: existing ? `${existing} + ${names.join(' + ')}` : names.join(' + '),
+      summary: `About ${names.join(', ')}`,
+    };
+  },
+};
+
+/**
+ * LLM stub answering each structured prompt with the handler for its kind, or
+ * a neutral default: no entities, no duplicate, no contradiction
+ */
+class ScriptedLLMClient extends BaseLLMClient {
+  readonly prompts: Record<PromptKind, string[]> = {
+    extraction: [],
+    duplicate: [],
+    merge: [],
+    contradiction: [],
+    community: [],
+  };
+
+  constructor(private handlers: ScriptedHandlers) {
+    super({ model: 'scripted' });
+  }
+
+  async generateResponse<T = string>(): Promise<LLMResponse<T>> {
+    return { content: 'summary' as T };
+  }
+
+  async generateStructuredResponse<T>(prompt: string): Promise<T> {
+    const kind = promptKind(prompt);
+    this.prompts[kind].push(prompt);
+    return (this.handlers[kind] ?? DEFAULT_HANDLERS[kind])(prompt) as T;
+  }
+}
+
+export function scriptedLLM(handlers: ScriptedHandlers = {}) {
+  const llmClient = new ScriptedLLMClient(handlers);
+  return { llmClient, prompts: llmClient.prompts };
+}
+
+/** Entities by name and relations as [source, relation, target] */
+export interface ScriptedEpisode {
+  entities: string[];
+  relations: [string, string, string][];
+}
+
+export const extractionOf = (episode: ScriptedEpisode, entityType = 'Entity') => ({
+  entities: episode.entities.map((name) => ({ name, entityType, summary: name })),
+  relations: episode.relations.map(([sourceName, relationName, targetName]) => ({
+    sourceName,
+    relationName,
+    targetName,
+  })),
+});
+
+/** Extraction handler for episodes scripted by their text */
+export const extractEpisodes =
+  (episodes: Record<string, ScriptedEpisode>) =>
+  (prompt: string): ReturnType<typeof extractionOf> =>
+    extractionOf(episodes[episodeText(prompt)]);
+
+/**
+ * Embedder stub computing each vector with `embed`; it records the texts of
+ * single calls and of each batch
+ */
+class ScriptedEmbedder extends BaseEmbedderClient {
+  readonly calls: string[] = [];
+  readonly batches: string[][] = [];
+
+  constructor(private vector: (text: string) => number[]) {
+    super();
+  }
+
+  async embed(text: string): Promise<number[]> {
+    this.calls.push(text);
+    return this.vector(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    this.batches.push(texts);
+    return texts.map((text) => this.vector(text));
+  }
+}
+
+export function scriptedEmbedder(embed: (text: string) => number[] = () => [1, 0]) {
+  const embedder = new ScriptedEmbedder(embed);
+  return { embedder, calls: embedder.calls, batches: embedder.batches };
+}
+
+/** Vector following the text length, so texts of equal length look alike */
+export const lengthVector = (text: string): number[] => [text.length, 1];
+
+const isGraphElement = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date) &&
+  'uuid' in value;
+
+/**
+ * View of an in-memory graph whose rows hold nodes and relationships the way
+ * the Neo4j driver returns them: properties under `properties`, node labels
+ * under `labels`
+ */
+export function neo4jShaped(driver: InMemoryDriver): GraphDriver {
+  const shape = (value: unknown): unknown => {
+    if (!isGraphElement(value)) return value;
+    const { labels, ...properties } = value;
+    return labels ? { labels, properties } : { properties };
+  };
+
+  const shapeRows =
+    (run: GraphDriver['executeQuery']): GraphDriver['executeQuery'] =>
+    async <T>(query: string, params?: Record<string, any>) => {
+      const rows = await run<unknown>(query, params);
+      if (!Array.isArray(rows)) return rows as T;
+      return rows.map((row) =>
+        Object.fromEntries(Object.entries(row).map(([key, value]) => [key, shape(value)])),
+      ) as T;
+    };
+
+  return {
+    provider: driver.provider,
+    executeQuery: shapeRows((query, params) => driver.executeQuery(query, params)),
+    close: () => driver.close(),
+    createIndexes: () => driver.createIndexes(),
+    beginTransaction: async () => {
+      const transaction = await driver.beginTransaction();
+      return {
+        executeQuery: shapeRows((query, params) => transaction.executeQuery(query, params)),
+        commit: () => transaction.commit(),
+        rollback: () => transaction.rollback(),
+      };
+    },
+  };
+}
@@ -0,0 +1,222 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import {
+  ScriptedEpisode,
+  episodeText,
+  extractEpisodes,
+  scriptedEmbedder,
+  scriptedLLM,
+} from './helpers.js';
+
+const episodes: Record<string, ScriptedEpisode> = {
+  'Alice works at Acme and lives in Lyon.': {
+    entities: ['Alice', 'Acme', 'Lyon'],
+    relations: [
+      ['Alice', 'WORKS_AT', 'Acme'],
+      ['Alice', 'LIVES_IN', 'Lyon'],
+    ],
+  },
+  'Alice works at Acme.': {
+    entities: ['Alice', 'Acme'],
+    relations: [['Alice', 'WORKS_AT', 'Acme']],
+  },
+  'Alice moved to Initech.': {
+    entities: ['Alice', 'Initech'],
+    relations: [['Alice', 'WORKS_AT', 'Initech']],
+  },
+  'Alice moved to Initech in May.': {
+    entities: ['Alice', 'Initech'],
+    relations: [['Alice', 'WORKS_AT', 'Initech']],
+  },
+  'Alice likes tea.': {
+    entities: ['Alice', 'Tea'],
+    relations: [['Alice', 'LIKES', 'Tea']],
+  },
+};
+
+// Working at Initech contradicts working at Acme
+const contradictions = (prompt: string) => ({
+  contradictedFactIds: prompt.includes('New fact: Alice WORKS_AT Initech')
+    ? [...prompt.matchAll(/^(\d+): Alice WORKS_AT Acme$/gm)].map((match) => Number(match[1]))
+    : [],
+});
+
+describe('Idempotent ingestion', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let extractions: string[];
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    const { llmClient, prompts } = scriptedLLM({
+      extraction: extractEpisodes(episodes),
+      contradiction: contradictions,
+    });
+    extractions = prompts.extraction;
+    graphzep = new Graphzep({
+      driver,
+      llmClient,
+      embedder: scriptedEmbedder().embedder,
+      groupId: 'g',
+    });
+  });
+
+  const episodeUuids = async () =>
+    (await driver.executeQuery<any[]>('MATCH (e:Episodic) RETURN e.uuid AS uuid')).map(
+      (row) => row.uuid,
+    );
+
+  const entityNames = async () =>
+    (await driver.executeQuery<any[]>('MATCH (n:Entity) RETURN n.name AS name ORDER BY name')).map(
+      (row) => row.name,
+    );
+
+  const facts = async () =>
+    driver.executeQuery<any[]>(`
+      MATCH (:Entity)-[r:RELATES_TO]->(:Entity)
+      RETURN r.name AS name, r.episodes AS episodes
+      ORDER BY name
+    `);
+
+  const employers = async () =>
+    driver.executeQuery<any[]>(`
+      MATCH (:Entity)-[r:RELATES_TO {name: 'WORKS_AT'}]->(employer:Entity)
+      RETURN employer.name AS employer, r.uuid AS uuid, r.invalidatedBy AS invalidatedBy
+      ORDER BY employer
+    `);
+
+  it('should ignore a repeated episode with unchanged content', async () => {
+    const params = { content: 'Alice works at Acme.', referenceId: 'message-1' };
+    const first = await graphzep.addEpisode(params);
+    const retry = await graphzep.addEpisode(params);
+
+    assert.strictEqual(retry.uuid, first.uuid);
+    assert.deepStrictEqual(await episodeUuids(), [first.uuid]);
+    assert.deepStrictEqual(extractions.map(episodeText), ['Alice works at Acme.']);
+  });
+
+  it('should update an episode whose content changed and reconcile its facts', async () => {
+    const original = await graphzep.addEpisode({
+      content: 'Alice works at Acme and lives in Lyon.',
+      referenceId: 'message-1',
+    });
+    const [worksAt] = await employers();
+    const updated = await graphzep.addEpisode({
+      content: 'Alice works at Acme.',
+      referenceId: 'message-1',
+    });
+
+    assert.strictEqual(updated.uuid, original.uuid);
+    assert.deepStrictEqual(await episodeUuids(), [original.uuid]);
+    assert.strictEqual(extractions.length, 2);
+    assert.deepStrictEqual(await facts(), [{ name: 'WORKS_AT', episodes: [original.uuid] }]);
+    // The restated fact is kept as it was
+    assert.strictEqual((await employers())[0].uuid, worksAt.uuid);
+    assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice']);
+    assert.strictEqual(
+      ((await graphzep.getNode(original.uuid)) as any).content,
+      'Alice works at Acme.',
+    );
+  });
+
+  it('should restore the facts an updated episode no longer contradicts', async () => {
+    await graphzep.addEpisode({ content: 'Alice works at Acme.', referenceId: 'message-1' });
+    const moved = await graphzep.addEpisode({
+      content: 'Alice moved to Initech.',
+      referenceId: 'message-2',
+    });
+    const [acme, initech] = await employers();
+    assert.strictEqual(acme.invalidatedBy, moved.uuid);
+
+    // Restating the contradicting fact keeps it, and the fact it closed closed
+    await graphzep.addEpisode({
+      content: 'Alice moved to Initech in May.',
+      referenceId: 'message-2',
+    });
+    assert.deepStrictEqual(await employers(), [acme, initech]);
+
+    await graphzep.addEpisode({ content: 'Alice likes tea.', referenceId: 'message-2' });
+    assert.deepStrictEqual(await employers(), [{ ...acme, invalidatedBy: null }]);
+    const [{ expiredAt, invalidAt }] = await driver.executeQuery<any[]>(
+      'MATCH ()-[r:RELATES_TO {uuid: $uuid}]->() RETURN r.expiredAt AS expiredAt, r.invalidAt AS invalidAt',
+      { uuid: acme.uuid },
+    );
+    assert.strictEqual(expiredAt, null);
+    assert.strictEqual(invalidAt, null);
+  });
+
+  it('should ingest concurrent retries of an episode once', async () => {
+    const params = { content: 'Alice works at Acme.', referenceId: 'message-1' };
+    const [first, retry] = await Promise.all([
+      graphzep.addEpisode(params),
+      graphzep.addEpisode(params),
+    ]);
+
+    assert.strictEqual(retry.uuid, first.uuid);
+    assert.deepStrictEqual(await episodeUuids(), [first.uuid]);
+    assert.strictEqual(extractions.length, 1);
+    assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice']);
+  });
+
+  it('should ingest an episode once when a bulk batch and addEpisode race for it', async () => {
+    const params = { content: 'Alice works at Acme.', referenceId: 'message-1' };
+    const [[result], episode] = await Promise.all([
+      graphzep.addEpisodesBulk([params]),
+      graphzep.addEpisode(params),
+    ]);
+
+    assert(result.success);
+    assert.strictEqual(episode.uuid, result.episode!.uuid);
+    assert.deepStrictEqual(await episodeUuids(), [episode.uuid]);
+    assert.strictEqual(extractions.length, 1);
+  });
+
+  it('should reject an episode another writer stored while it was ingested', async () => {
+    const other = new Graphzep({
+      driver,
+      llmClient: scriptedLLM({ extraction: extractEpisodes(episodes) }).llmClient,
+      embedder: scriptedEmbedder().embedder,
+      groupId: 'g',
+    });
+    const params = { content: 'Alice works at Acme.', referenceId: 'message-1' };
+
+    const results = await Promise.allSettled([
+      graphzep.addEpisode(params),
+      other.addEpisode(params),
+    ]);
+
+    assert.deepStrictEqual(results.map((result) => result.status).sort(), [
+      'fulfilled',
+      'rejected',
+    ]);
+    const rejected = results.find((result) => result.status === 'rejected')!;
+    assert.match(String(rejected.reason), /was stored while this one was ingested/);
+    assert.strictEqual((await episodeUuids()).length, 1);
+    assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice']);
+  });
+
+  it('should key episodes by a caller-supplied uuid', async () => {
+    const episode = await graphzep.addEpisode({ content: 'Alice works at Acme.', uuid: 'msg-1' });
+    await graphzep.addEpisode({ content: 'Alice works at Acme.', uuid: 'msg-1' });
+
+    assert.strictEqual(episode.uuid, 'msg-1');
+    assert.deepStrictEqual(await episodeUuids(), ['msg-1']);
+    assert.strictEqual(extractions.length, 1);
+  });
+
+  it('should not ingest repeats within or across bulk batches twice', async () => {
+    await graphzep.addEpisode({ content: 'Alice works at Acme.', referenceId: 'message-1' });
+
+    const results = await graphzep.addEpisodesBulk([
+      { content: 'Alice works at Acme.', referenceId: 'message-1' },
+      { content: 'Alice works at Acme and lives in Lyon.', referenceId: 'message-2' },
+      { content: 'Alice works at Acme and lives in Lyon.', referenceId: 'message-2' },
+    ]);
+
+    assert(results.every((result) => result.success));
+    assert.strictEqual((await episodeUuids()).length, 2);
+    assert.strictEqual(extractions.length, 2);
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { EntityNodeImpl } from '../core/nodes.js';
+import { EpisodeType } from '../types/index.js';
+import { JsonEpisodeMapping, mapJsonEpisode } from '../utils/json-mapping.js';
+import { lengthVector, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+const catalog = {
+  products: [
+    {
+      title: 'Wool Runners',
+      vendor: 'Manybirds',
+      product_type: 'Shoes',
+      body_html: 'Soft runners made with merino wool.',
+      published_at: '2024-08-21T10:07:25-07:00',
+      tags: ['wool', 'runner'],
+      variants: [
+        { sku: 'WR-5', title: '5', price: '35.00', available: true },
+        { sku: 'WR-6', title: '6', price: '35.00', available: false },
+      ],
+    },
+    {
+      title: 'Tree Dashers',
+      vendor: 'Manybirds',
+      product_type: 'Shoes',
+      body_html: '',
+      variants: [{ sku: 'TD-8', title: '8', price: 'n/a' }],
+    },
+    { title: null, vendor: 'Nobody' },
+  ],
+};
+
+const mapping: JsonEpisodeMapping = {
+  entities: {
+    product: {
+      path: 'products[]',
+      entityType: 'Product',
+      nameField: 'title',
+      attributes: {
+        productType: { field: 'product_type', type: 'string' },
+        publishedAt: { field: 'published_at', type: 'date' },
+        tags: { field: 'tags', type: 'string[]' },
+      },
+    },
+    vendor: { path: 'products[]', entityType: 'Vendor', nameField: 'vendor' },
+    variant: {
+      path: 'products[].variants[]',
+      entityType: 'Variant',
+      nameField: 'sku',
+      summaryField: 'title',
+      attributes: {
+        price: { field: 'price', type: 'number' },
+        available: { field: 'available', type: 'boolean' },
+      },
+    },
+  },
+  relations: [
+    { source: 'product', target: 'vendor', relationName: 'SOLD_BY' },
+    { source: 'product', target: 'variant', relationName: 'HAS_VARIANT' },
+  ],
+};
+
+describe('mapJsonEpisode', () => {
+  it('should map fields to entities with typed attributes', () => {
+    const { entities } = mapJsonEpisode(catalog, mapping);
+
+    assert.deepStrictEqual(
+      entities.map((entity) => `${entity.entityType}:${entity.name}`),
+      [
+        'Product:Wool Runners',
+        'Product:Tree Dashers',
+        'Vendor:Manybirds',
+        'Vendor:Nobody',
+        'Variant:WR-5',
+        'Variant:WR-6',
+        'Variant:TD-8',
+      ],
+    );
+    assert.deepStrictEqual(entities[0].attributes, {
+      productType: 'Shoes',
+      publishedAt: '2024-08-21T17:07:25.000Z',
+      tags: ['wool', 'runner'],
+    });
+    assert.deepStrictEqual(entities[4], {
+      name: 'WR-5',
+      entityType: 'Variant',
+      summary: '5',
+      attributes: { price: 35, available: true },
+    });
+    // Values that do not convert are left out
+    assert.deepStrictEqual(entities[6].attributes, {});
+  });
+
+  it('should relate entities from the same or nested objects only', () => {
+    const { relations } = mapJsonEpisode(catalog, mapping);
+
+    assert.deepStrictEqual(
+      relations.map((r) => `${r.sourceName} ${r.relationName} ${r.targetName}`),
+      [
+        'Wool Runners SOLD_BY Manybirds',
+        'Tree Dashers SOLD_BY Manybirds',
+        'Wool Runners HAS_VARIANT WR-5',
+        'Wool Runners HAS_VARIANT WR-6',
+        'Tree Dashers HAS_VARIANT TD-8',
+      ],
+    );
+  });
+
+  it('should name free text after the entity it belongs to', () => {
+    const { texts } = mapJsonEpisode(catalog, { ...mapping, textFields: ['products[].body_html'] });
+
+    assert.deepStrictEqual(texts, ['Wool Runners: Soft runners made with merino wool.']);
+  });
+
+  it('should reject relations to unknown entity mappings', () => {
+    assert.throws(
+      () =>
+        mapJsonEpisode(catalog, {
+          ...mapping,
+          relations: [{ source: 'product', target: 'brand', relationName: 'MADE_BY' }],
+        }),
+      /unknown entity mapping/,
+    );
+  });
+});
+
+describe('JSON episode ingestion', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let extractionPrompts: string[];
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    const { llmClient, prompts } = scriptedLLM({
+      merge: () => ({ summary: 'merged' }),
+      extraction: () => ({
+        entities: [{ name: 'Merino Wool', entityType: 'Material', summary: 'A wool' }],
+        relations: [
+          { sourceName: 'Wool Runners', targetName: 'Merino Wool', relationName: 'MADE_OF' },
+        ],
+      }),
+    });
+    extractionPrompts = prompts.extraction;
+
+    graphzep = new Graphzep({
+      driver,
+      llmClient,
+      embedder: scriptedEmbedder(lengthVector).embedder,
+      groupId: 'g',
+    });
+  });
+
+  const facts = async () =>
+    (
+      await driver.executeQuery<any[]>(
+        'MATCH (:Entity)-[r:RELATES_TO]->(:Entity) RETURN r.fact AS fact ORDER BY fact',
+      )
+    ).map((row) => row.fact);
+
+  it('should write mapped entities and relations without calling the LLM', async () => {
+    await graphzep.addEpisode({
+      content: JSON.stringify(catalog),
+      episodeType: EpisodeType.JSON,
+      jsonMapping: mapping,
+    });
+
+    assert.strictEqual(extractionPrompts.length, 0);
+    assert.deepStrictEqual(await facts(), [
+      'Tree Dashers HAS_VARIANT TD-8',
+      'Tree Dashers SOLD_BY Manybirds',
+      'Wool Runners HAS_VARIANT WR-5',
+      'Wool Runners HAS_VARIANT WR-6',
+      'Wool Runners SOLD_BY Manybirds',
+    ]);
+
+    const [row] = await driver.executeQuery<any[]>("MATCH (n:Entity {name: 'WR-5'}) RETURN n");
+    const variant = new EntityNodeImpl(row.n);
+    assert.strictEqual(variant.entityType, 'Variant');
+    assert.deepStrictEqual(variant.attributes, { price: 35, available: true });
+  });
+
+  it('should send only the mapped free-text fields to the LLM', async () => {
+    await graphzep.addEpisode({
+      content: JSON.stringify(catalog),
+      episodeType: EpisodeType.JSON,
+      jsonMapping: { ...mapping, textFields: ['products[].body_html'] },
+    });
+
+    assert.strictEqual(extractionPrompts.length, 1);
+    assert(
+      extractionPrompts[0].includes('Text: Wool Runners: Soft runners made with merino wool.'),
+    );
+    assert(!extractionPrompts[0].includes('"vendor"'));
+    assert((await facts()).includes('Wool Runners MADE_OF Merino Wool'));
+  });
+
+  it('should merge attributes into an entity seen again', async () => {
+    await graphzep.addEpisode({
+      content: JSON.stringify(catalog),
+      episodeType: EpisodeType.JSON,
+      jsonMapping: mapping,
+    });
+    await graphzep.addEpisode({
+      content: JSON.stringify({ products: [{ sku: 'WR-5', price: 30, stock: 4 }] }),
+      episodeType: EpisodeType.JSON,
+      jsonMapping: {
+        entities: {
+          variant: {
+            path: 'products[]',
+            entityType: 'Variant',
+            nameField: 'sku',
+            summaryField: 'title',
+            attributes: {
+              price: { field: 'price', type: 'number' },
+              stock: { field: 'stock', type: 'number' },
+            },
+          },
+        },
+      },
+    });
+
+    const rows = await driver.executeQuery<any[]>("MATCH (n:Entity {name: 'WR-5'}) RETURN n");
+    assert.strictEqual(rows.length, 1);
+    assert.deepStrictEqual(new EntityNodeImpl(rows[0].n).attributes, {
+      price: 30,
+      available: true,
+      stock: 4,
+    });
+  });
+
+  it('should extract JSON without a mapping through the LLM', async () => {
+    await graphzep.addEpisode({ content: '{"note": "hi"}', episodeType: EpisodeType.JSON });
+
+    assert.strictEqual(extractionPrompts.length, 1);
+  });
+});
@@ -0,0 +1,387 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { CypherSyntaxError, parseCypher } from '../drivers/cypher-parser.js';
+import { Graphzep } from '../graphzep.js';
+import { GraphProvider, GraphTransaction } from '../types/index.js';
+import { EntityNodeImpl, EpisodicNodeImpl } from '../core/nodes.js';
+import { ZepMemoryManager } from '../zep/memory.js';
+import { MemoryType } from '../zep/types.js';
+
+describe('InMemoryDriver', () => {
+  let driver: InMemoryDriver;
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+  });
+
+  describe('Cypher subset', () => {
+    it('should create and match nodes by label and properties', async () => {
+      await driver.executeQuery(
+        "CREATE (a:Entity {uuid: 'a', name: 'Alice', groupId: 'g'}), (b:Entity {uuid: 'b', name: 'Bob', groupId: 'g'})",
+      );
+
+      const result = await driver.executeQuery<any[]>(
+        'MATCH (n:Entity {groupId: $groupId}) RETURN n, labels(n) AS labels ORDER BY n.name',
+        { groupId: 'g' },
+      );
+
+      assert.strictEqual(result.length, 2);
+      assert.strictEqual(result[0].n.name, 'Alice');
+      assert.deepStrictEqual(result[0].labels, ['Entity']);
+      assert.strictEqual(result[0].n.properties.uuid, 'a');
+    });
+
+    it('should MERGE idempotently and apply SET', async () => {
+      const query = `
+        MERGE (n:Entity {uuid: $uuid})
+        SET n.name = $name, n.createdAt = datetime($createdAt)
+        RETURN n
+      `;
+      const params = { uuid: 'x', name: 'X', createdAt: '2024-01-01T00:00:00.000Z' };
+
+      await driver.executeQuery(query, params);
+      await driver.executeQuery(query, { ...params, name: 'X2' });
+
+      const result = await driver.executeQuery<any[]>('MATCH (n:Entity) RETURN n');
+      assert.strictEqual(result.length, 1);
+      assert.strictEqual(result[0].n.name, 'X2');
+      assert(result[0].n.createdAt instanceof Date);
+    });
+
+    it('should match relationships with type alternatives and return type()', async () => {
+      await driver.executeQuery(`
+        CREATE (a:Entity {uuid: 'a'})-[:RELATES_TO {uuid: 'r1', name: 'KNOWS'}]->(b:Entity {uuid: 'b'})
+      `);
+
+      const result = await driver.executeQuery<any[]>(
+        'MATCH (n)-[e:MENTIONS|RELATES_TO {uuid: $uuid}]->(m) RETURN e, type(e) AS relType, m.uuid AS target',
+        { uuid: 'r1' },
+      );
+
+      assert.strictEqual(result.length, 1);
+      assert.strictEqual(result[0].relType, 'RELATES_TO');
+      assert.strictEqual(result[0].e.name, 'KNOWS');
+      assert.strictEqual(result[0].target, 'b');
+    });
+
+    it('should rank with reduce and honour ORDER BY, SKIP and LIMIT', async () => {
+      for (const [uuid, embedding] of [
+        ['low', [0.1, 0.1]],
+        ['high', [0.9, 0.9]],
+        ['mid', [0.5, 0.5]],
+      ] as const) {
+        await driver.executeQuery('CREATE (n:Entity {uuid: $uuid, embedding: $embedding})', {
+          uuid,
+          embedding,
+        });
+      }
+
+      const result = await driver.executeQuery<any[]>(
+        `
+        MATCH (n:Entity)
+        WITH n, reduce(s = 0.0, i IN range(0, size(n.embedding)-1) | s + n.embedding[i] * $q[i]) AS score
+        ORDER BY score DESC
+        SKIP 1
+        LIMIT $limit
+        RETURN n.uuid AS uuid, score
+        `,
+        { q: [1, 1], limit: 1 },
+      );
+
+      assert.deepStrictEqual(
+        result.map((r) => r.uuid),
+        ['mid'],
+      );
+    });
+
+    it('should aggregate with OPTIONAL MATCH producing nulls', async () => {
+      await driver.executeQuery(`
+        CREATE (s:ZepSession {sessionId: 's1'})-[:HAS_MEMORY]->(:ZepMemory {uuid: 'm1'})
+      `);
+      await driver.executeQuery("CREATE (:ZepSession {sessionId: 's2'})");
+
+      const result = await driver.executeQuery<any[]>(`
+        MATCH (s:ZepSession)
+        OPTIONAL MATCH (s)-[:HAS_MEMORY]->(m:ZepMemory)
+        RETURN s.sessionId AS id, collect(m.uuid) AS memories, count(m) AS total
+        ORDER BY id
+      `);
+
+      assert.deepStrictEqual(result, [
+        { id: 's1', memories: ['m1'], total: 1 },
+        { id: 's2', memories: [], total: 0 },
+      ]);
+    });
+
+    it('should evaluate label predicates, CASE and string operators', async () => {
+      await driver.executeQuery(
+        "CREATE (:Entity {name: 'Graph Databases'}), (:Episodic {name: 'notes on graphs'})",
+      );
+
+      const result = await driver.executeQuery<any[]>(`
+        MATCH (n)
+        WHERE (n:Entity OR n:Episodic) AND toLower(n.name) CONTAINS 'graph'
+        RETURN CASE WHEN n:Entity THEN 'entity' ELSE 'episode' END AS kind
+        ORDER BY kind
+      `);
+
+      assert.deepStrictEqual(
+        result.map((r) => r.kind),
+        ['entity', 'episode'],
+      );
+    });
+
+    it('should follow variable-length relationships', async () => {
+      await driver.executeQuery(`
+        CREATE (a:Entity {uuid: 'a'})-[:RELATES_TO]->(b:Entity {uuid: 'b'})-[:RELATES_TO]->(c:Entity {uuid: 'c'})
+      `);
+
+      const result = await driver.executeQuery<any[]>(`
+        MATCH p = (:Entity {uuid: 'a'})-[:RELATES_TO*1..2]-(n:Entity)
+        RETURN n.uuid AS uuid, length(p) AS hops
+        ORDER BY hops
+      `);
+
+      assert.deepStrictEqual(result, [
+        { uuid: 'b', hops: 1 },
+        { uuid: 'c', hops: 2 },
+      ]);
+    });
+
+    it('should refuse to delete connected nodes without DETACH', async () => {
+      await driver.executeQuery(
+        "CREATE (:Entity {uuid: 'a'})-[:RELATES_TO]->(:Entity {uuid: 'b'})",
+      );
+
+      await assert.rejects(driver.executeQuery("MATCH (n {uuid: 'a'}) DELETE n"));
+
+      await driver.executeQuery("MATCH (n {uuid: 'a'}) DETACH DELETE n");
+      assert.deepStrictEqual(driver.getStats(), { nodes: 1, relationships: 0 });
+    });
+
+    it('should reject unsupported syntax', () => {
+      assert.throws(
+        () => parseCypher("LOAD CSV FROM 'file:///x.csv' AS line RETURN line"),
+        CypherSyntaxError,
+      );
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should round-trip the graph through a JSON file', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'graphzep-'));
+      const snapshotPath = path.join(dir, 'graph.json');
+
+      const writer = new InMemoryDriver({ snapshotPath });
+      await writer.executeQuery(
+        "CREATE (:Entity {uuid: 'a', createdAt: datetime('2024-05-01T00:00:00Z')})-[:RELATES_TO {uuid: 'r'}]->(:Entity {uuid: 'b'})",
+      );
+      await writer.close();
+
+      const reader = new InMemoryDriver({ snapshotPath });
+      const result = await reader.executeQuery<any[]>(
+        'MATCH (a)-[r:RELATES_TO]->(b) RETURN a.createdAt AS createdAt, r.uuid AS rel, b.uuid AS target',
+      );
+
+      assert.strictEqual(result.length, 1);
+      assert(result[0].createdAt instanceof Date);
+      assert.strictEqual(result[0].rel, 'r');
+      assert.strictEqual(result[0].target, 'b');
+
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('transactions', () => {
+    const names = async (runner: Pick<GraphTransaction, 'executeQuery'> = driver) =>
+      (
+        await runner.executeQuery<any[]>('MATCH (n:Entity) RETURN n.name AS name ORDER BY name')
+      ).map((row) => row.name);
+
+    beforeEach(async () => {
+      await driver.executeQuery(
+        "CREATE (:Entity {uuid: 'a', name: 'Alice'})-[:RELATES_TO {uuid: 'r', name: 'KNOWS'}]->(:Entity {uuid: 'b', name: 'Bob'})",
+      );
+    });
+
+    it('should keep committed writes', async () => {
+      const transaction = await driver.beginTransaction();
+      await transaction.executeQuery("CREATE (:Entity {uuid: 'c', name: 'Carol'})");
+      await transaction.commit();
+
+      assert.deepStrictEqual(await names(), ['Alice', 'Bob', 'Carol']);
+      await assert.rejects(
+        transaction.executeQuery('MATCH (n) RETURN n'),
+        /Transaction has already ended/,
+      );
+    });
+
+    it('should undo created, updated and deleted nodes and relationships on rollback', async () => {
+      const transaction = await driver.beginTransaction();
+      await transaction.executeQuery(
+        "MATCH (a:Entity {uuid: 'a'}) CREATE (a)-[:RELATES_TO {uuid: 's'}]->(:Entity {uuid: 'c', name: 'Carol'})",
+      );
+      await transaction.executeQuery(
+        "MATCH (b:Entity {uuid: 'b'}) SET b.name = 'Robert', b.uuid = 'b2' REMOVE b:Entity",
+      );
+      await transaction.executeQuery("MATCH (a:Entity {uuid: 'a'}) DETACH DELETE a");
+      assert.deepStrictEqual(await names(transaction), ['Carol']);
+
+      await transaction.rollback();
+
+      assert.deepStrictEqual(await names(), ['Alice', 'Bob']);
+      assert.deepStrictEqual(driver.getStats(), { nodes: 2, relationships: 1 });
+      const [row] = await driver.executeQuery<any[]>(
+        "MATCH (a:Entity {uuid: 'a'})-[r:RELATES_TO {uuid: 'r'}]->(b:Entity {uuid: 'b'}) RETURN r.name AS name",
+      );
+      assert.strictEqual(row.name, 'KNOWS');
+    });
+
+    it('should run transactions one at a time', async () => {
+      const first = await driver.beginTransaction();
+      let secondStarted = false;
+      const second = driver.beginTransaction().then((transaction) => {
+        secondStarted = true;
+        return transaction;
+      });
+
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.strictEqual(secondStarted, false);
+
+      await first.rollback();
+      await (await second).commit();
+      assert.strictEqual(secondStarted, true);
+    });
+
+    it('should hold queries issued outside the open transaction until it ends', async () => {
+      const transaction = await driver.beginTransaction();
+      await transaction.executeQuery("CREATE (:Entity {uuid: 'c', name: 'Carol'})");
+
+      const outside = driver.executeQuery("CREATE (:Entity {uuid: 'd', name: 'Dave'})");
+      const seen = names();
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.deepStrictEqual(await names(transaction), ['Alice', 'Bob', 'Carol']);
+
+      await transaction.rollback();
+      await outside;
+
+      // Outside queries did not see the rolled back write and theirs was not undone
+      assert.deepStrictEqual(await seen, ['Alice', 'Bob', 'Dave']);
+      assert.deepStrictEqual(await names(), ['Alice', 'Bob', 'Dave']);
+    });
+  });
+
+  describe('with Graphzep', () => {
+    const llmClient = {
+      generateResponse: async () => ({ content: 'summary' }),
+      generateStructuredResponse: async (prompt: string) => {
+        if (prompt.includes('factual statements')) {
+          return {
+            facts: [{ subject: 'Alice', predicate: 'knows', object: 'Bob', confidence: 0.9 }],
+          };
+        }
+        return {
+          entities: [
+            { name: 'Alice', entityType: 'Person', summary: 'A person named Alice' },
+            { name: 'Bob', entityType: 'Person', summary: 'A person named Bob' },
+          ],
+          relations: [{ sourceName: 'Alice', targetName: 'Bob', relationName: 'KNOWS' }],
+        };
+      },
+    };
+
+    const embedder = {
+      embed: async (text: string) => [text.length % 5, 1, 0.5],
+      embedBatch: async (texts: string[]) => texts.map((text) => [text.length % 5, 1, 0.5]),
+    };
+
+    it('should run addEpisode, search and deletion in-process', async () => {
+      const graphzep = new Graphzep({
+        driver,
+        llmClient: llmClient as any,
+        embedder: embedder as any,
+        groupId: 'memory-test',
+      });
+
+      assert.strictEqual(driver.provider, GraphProvider.MEMORY);
+
+      const episode = await graphzep.addEpisode({ content: 'Alice met Bob at the conference.' });
+      await graphzep.addEpisode({ content: 'Alice and Bob had lunch.' });
+
+      // Two episodes, two deduplicated entities, four MENTIONS and one RELATES_TO
+      assert.deepStrictEqual(driver.getStats(), { nodes: 4, relationships: 5 });
+
+      const results = await graphzep.search({ query: 'Alice', limit: 10 });
+      assert.strictEqual(results.length, 4);
+      assert(results.some((node) => node instanceof EntityNodeImpl && node.name === 'Alice'));
+
+      const stored = await graphzep.getNode(episode.uuid);
+      assert(stored instanceof EpisodicNodeImpl);
+      assert.strictEqual(stored.content, 'Alice met Bob at the conference.');
+
+      await graphzep.deleteNode(episode.uuid);
+      assert.strictEqual(await graphzep.getNode(episode.uuid), null);
+    });
+
+    it('should roll back every write of an episode that fails halfway', async () => {
+      let failFacts = false;
+      const graphzep = new Graphzep({
+        driver,
+        llmClient: llmClient as any,
+        embedder: {
+          ...embedder,
+          // Fact embeddings are requested after the episode and its entities are written
+          embedBatch: async (texts: string[]) => {
+            if (failFacts && texts.some((text) => text.includes('KNOWS'))) {
+              throw new Error('Embedding service unavailable');
+            }
+            return embedder.embedBatch(texts);
+          },
+        } as any,
+      });
+
+      await graphzep.addEpisode({ content: 'Alice met Bob at the conference.' });
+      const stats = driver.getStats();
+
+      failFacts = true;
+      await assert.rejects(
+        graphzep.addEpisode({ content: 'Carol met Alice and Bob.' }),
+        /Embedding service unavailable/,
+      );
+
+      assert.deepStrictEqual(driver.getStats(), stats);
+    });
+
+    it('should back ZepMemoryManager', async () => {
+      const graphzep = new Graphzep({
+        driver,
+        llmClient: llmClient as any,
+        embedder: embedder as any,
+      });
+      const memoryManager = new ZepMemoryManager(
+        graphzep,
+        llmClient as any,
+        embedder as any,
+        driver,
+      );
+
+      const memory = await memoryManager.addMemory({
+        content: 'Alice knows Bob',
+        sessionId: 'session-1',
+        memoryType: MemoryType.EPISODIC,
+      });
+
+      const stored = await memoryManager.getMemory(memory.uuid);
+      assert.strictEqual(stored?.content, 'Alice knows Bob');
+      assert.strictEqual(stored?.accessCount, 1);
+      assert.strictEqual(stored?.facts?.length, 1);
+
+      const pruned = await memoryManager.pruneMemories({ sessionId: 'session-1' });
+      assert.strictEqual(pruned, 1);
+    });
+  });
+});
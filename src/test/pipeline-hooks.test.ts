@@ -0,0 +1,146 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep, PipelineStage } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { episodeText, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+describe('Ingestion pipeline hooks', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let extractedTexts: string[];
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    extractedTexts = [];
+    graphzep = new Graphzep({
+      driver,
+      llmClient: scriptedLLM({
+        extraction: (prompt) => {
+          extractedTexts.push(episodeText(prompt));
+          return {
+            entities: [
+              { name: 'Alice', entityType: 'Person', summary: 'Alice' },
+              { name: 'Acme', entityType: 'Company', summary: 'Acme' },
+              { name: 'Bob', entityType: 'Person', summary: 'Bob' },
+            ],
+            relations: [
+              { sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT' },
+              { sourceName: 'Alice', targetName: 'Bob', relationName: 'KNOWS' },
+              { sourceName: 'Bob', targetName: 'Acme', relationName: 'SUES' },
+            ],
+          };
+        },
+      }).llmClient,
+      embedder: scriptedEmbedder().embedder,
+      groupId: 'g',
+    });
+  });
+
+  const entities = async () =>
+    driver.executeQuery<any[]>(
+      'MATCH (n:Entity) RETURN n.name AS name, n.attributes AS attributes ORDER BY name',
+    );
+
+  const facts = async () =>
+    (
+      await driver.executeQuery<any[]>(
+        'MATCH (:Entity)-[r:RELATES_TO]->(:Entity) RETURN r.name AS name ORDER BY name',
+      )
+    ).map((row) => row.name);
+
+  it('should run hooks around each stage in order', async () => {
+    const calls: string[] = [];
+    const stages: PipelineStage[] = ['embed', 'extract', 'resolve', 'relate', 'persist'];
+    for (const stage of stages) {
+      graphzep.use({
+        stage,
+        before: () => void calls.push(`before ${stage}`),
+        after: () => void calls.push(`after ${stage}`),
+      });
+    }
+
+    await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+
+    assert.deepStrictEqual(
+      calls,
+      stages.flatMap((stage) => [`before ${stage}`, `after ${stage}`]),
+    );
+  });
+
+  it('should let hooks redact content, enrich and drop entities and veto facts', async () => {
+    graphzep
+      .use({
+        stage: 'embed',
+        before: (context) => {
+          context.params.content = context.params.content.replace(/[\w.]+@[\w.]+/g, '[email]');
+        },
+      })
+      .use({
+        stage: 'extract',
+        after: (context) => {
+          context.entities = context.entities.filter((entity) => entity.name !== 'Bob');
+          context.entities
+            .filter((entity) => entity.name === 'Acme')
+            .forEach((entity) => (entity.attributes = { crmId: 'acc-42' }));
+        },
+      })
+      .use({
+        stage: 'relate',
+        after: (context) => {
+          context.facts = context.facts.filter((fact) => fact.target.name !== 'Acme');
+        },
+      });
+
+    const episode = await graphzep.addEpisode({
+      content: 'Alice (alice@acme.com) works at Acme.',
+    });
+
+    assert.deepStrictEqual(extractedTexts, ['Alice ([email]) works at Acme.']);
+    assert.strictEqual(episode.content, 'Alice ([email]) works at Acme.');
+    assert.deepStrictEqual(
+      (await entities()).map(({ name, attributes }) => [name, JSON.parse(attributes)]),
+      [
+        ['Acme', { crmId: 'acc-42' }],
+        ['Alice', {}],
+      ],
+    );
+    // KNOWS and SUES involve Bob, WORKS_AT is vetoed
+    assert.deepStrictEqual(await facts(), []);
+  });
+
+  it('should roll back an episode whose hook throws', async () => {
+    graphzep.use({
+      stage: 'persist',
+      after: () => {
+        throw new Error('Vetoed');
+      },
+    });
+
+    await assert.rejects(graphzep.addEpisode({ content: 'Alice works at Acme.' }), /Vetoed/);
+
+    assert.deepStrictEqual(await driver.executeQuery<any[]>('MATCH (n) RETURN n'), []);
+  });
+
+  it('should run hooks for each episode of a bulk ingestion', async () => {
+    graphzep.use({
+      stage: 'extract',
+      after: (context) => {
+        if (context.params.content === 'Fail') throw new Error('Rejected');
+        context.relations = context.relations.filter(
+          (relation) => relation.relationName === 'KNOWS',
+        );
+      },
+    });
+
+    const results = await graphzep.addEpisodesBulk([
+      { content: 'Alice knows Bob.' },
+      { content: 'Fail' },
+    ]);
+
+    assert.deepStrictEqual(
+      results.map((result) => result.success),
+      [true, false],
+    );
+    assert.deepStrictEqual(await facts(), ['KNOWS']);
+  });
+});
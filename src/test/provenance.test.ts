@@ -0,0 +1,135 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { GraphDriver } from '../types/index.js';
+import { episodeText, neo4jShaped, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+const relations: Record<string, { fact: string; quote?: string }> = {
+  'Alice joined Acme in 2020. She loves hiking.': {
+    fact: 'Alice works at Acme',
+    quote: 'Alice joined Acme in 2020.',
+  },
+  'We met for lunch. Bob said Alice still works at Acme!': {
+    fact: 'Alice works at Acme',
+  },
+};
+
+describe('Fact provenance', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+
+  const createGraphzep = (graphDriver: GraphDriver) =>
+    new Graphzep({
+      driver: graphDriver,
+      llmClient: scriptedLLM({
+        extraction: (prompt) => {
+          const relation = relations[episodeText(prompt)];
+          return {
+            entities: [
+              { name: 'Alice', entityType: 'Person', summary: 'Alice' },
+              { name: 'Acme', entityType: 'Company', summary: 'Acme' },
+            ],
+            relations: [
+              { sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT', ...relation },
+            ],
+          };
+        },
+      }).llmClient,
+      embedder: scriptedEmbedder().embedder,
+      groupId: 'g',
+    });
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    graphzep = createGraphzep(driver);
+  });
+
+  const worksAt = async () => {
+    const [row] = await driver.executeQuery<any[]>(
+      "MATCH (:Entity)-[r:RELATES_TO {name: 'WORKS_AT'}]->(:Entity) RETURN r.uuid AS uuid",
+    );
+    return row.uuid;
+  };
+
+  it('should return the supporting episodes with the sentences stating the fact', async () => {
+    const later = await graphzep.addEpisode({
+      content: 'We met for lunch. Bob said Alice still works at Acme!',
+      referenceId: 'message-2',
+      referenceTime: new Date('2024-06-01T00:00:00Z'),
+    });
+    const earlier = await graphzep.addEpisode({
+      content: 'Alice joined Acme in 2020. She loves hiking.',
+      referenceTime: new Date('2024-01-01T00:00:00Z'),
+    });
+
+    const provenance = await graphzep.getProvenance(await worksAt());
+
+    assert.deepStrictEqual(
+      provenance.map(({ episodeUuid, referenceId, validAt, quote }) => ({
+        episodeUuid,
+        referenceId,
+        validAt: validAt.toISOString(),
+        quote,
+      })),
+      [
+        {
+          episodeUuid: earlier.uuid,
+          referenceId: undefined,
+          validAt: '2024-01-01T00:00:00.000Z',
+          // As quoted by the LLM
+          quote: 'Alice joined Acme in 2020.',
+        },
+        {
+          episodeUuid: later.uuid,
+          referenceId: 'message-2',
+          validAt: '2024-06-01T00:00:00.000Z',
+          // Found by word overlap with the fact
+          quote: 'Bob said Alice still works at Acme!',
+        },
+      ],
+    );
+    assert(provenance.every((entry) => entry.createdAt instanceof Date));
+  });
+
+  it('should forget the quotes of removed episodes', async () => {
+    const first = await graphzep.addEpisode({
+      content: 'Alice joined Acme in 2020. She loves hiking.',
+    });
+    const second = await graphzep.addEpisode({
+      content: 'We met for lunch. Bob said Alice still works at Acme!',
+    });
+
+    await graphzep.removeEpisode(first.uuid);
+
+    const provenance = await graphzep.getProvenance(await worksAt());
+    assert.deepStrictEqual(
+      provenance.map((entry) => entry.episodeUuid),
+      [second.uuid],
+    );
+    const [row] = await driver.executeQuery<any[]>(
+      'MATCH (:Entity)-[r:RELATES_TO]->(:Entity) RETURN r.episodeQuotes AS quotes',
+    );
+    assert.deepStrictEqual(JSON.parse(row.quotes), {});
+  });
+
+  it('should add the episodes restating a fact read from Neo4j-shaped rows', async () => {
+    graphzep = createGraphzep(neo4jShaped(driver));
+    const first = await graphzep.addEpisode({
+      content: 'Alice joined Acme in 2020. She loves hiking.',
+    });
+    const uuid = await worksAt();
+    const second = await graphzep.addEpisode({
+      content: 'We met for lunch. Bob said Alice still works at Acme!',
+    });
+
+    const [row] = await driver.executeQuery<any[]>(
+      'MATCH (:Entity)-[r:RELATES_TO]->(:Entity) RETURN r.uuid AS uuid, r.episodes AS episodes',
+    );
+    assert.deepStrictEqual(row, { uuid, episodes: [first.uuid, second.uuid] });
+  });
+
+  it('should reject unknown facts', async () => {
+    await assert.rejects(graphzep.getProvenance('missing'), /Fact not found: missing/);
+  });
+});
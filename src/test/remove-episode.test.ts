@@ -0,0 +1,118 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { ScriptedEpisode, extractEpisodes, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+const episodes: Record<string, ScriptedEpisode> = {
+  'Alice works at Acme.': {
+    entities: ['Alice', 'Acme'],
+    relations: [['Alice', 'WORKS_AT', 'Acme']],
+  },
+  'Alice moved to Initech.': {
+    entities: ['Alice', 'Initech'],
+    relations: [['Alice', 'WORKS_AT', 'Initech']],
+  },
+  'Alice, who works at Acme, lives in Lyon.': {
+    entities: ['Alice', 'Acme', 'Lyon'],
+    relations: [
+      ['Alice', 'WORKS_AT', 'Acme'],
+      ['Alice', 'LIVES_IN', 'Lyon'],
+    ],
+  },
+};
+
+describe('Episode removal', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+    graphzep = new Graphzep({
+      driver,
+      llmClient: scriptedLLM({
+        extraction: extractEpisodes(episodes),
+        // Working at Initech contradicts working at Acme
+        contradiction: (prompt) => ({
+          contradictedFactIds: prompt.includes('New fact: Alice WORKS_AT Initech') ? [0] : [],
+        }),
+      }).llmClient,
+      embedder: scriptedEmbedder().embedder,
+      groupId: 'g',
+    });
+  });
+
+  const entityNames = async () =>
+    (await driver.executeQuery<any[]>('MATCH (n:Entity) RETURN n.name AS name ORDER BY name')).map(
+      (row) => row.name,
+    );
+
+  const facts = async () =>
+    driver.executeQuery<any[]>(`
+      MATCH (:Entity)-[r:RELATES_TO]->(:Entity)
+      RETURN r.name AS name, r.episodes AS episodes
+      ORDER BY name
+    `);
+
+  it('should record the episodes supporting each fact', async () => {
+    const first = await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+    const second = await graphzep.addEpisode({
+      content: 'Alice, who works at Acme, lives in Lyon.',
+    });
+
+    assert.deepStrictEqual(await facts(), [
+      { name: 'LIVES_IN', episodes: [second.uuid] },
+      { name: 'WORKS_AT', episodes: [first.uuid, second.uuid] },
+    ]);
+  });
+
+  it('should drop knowledge only the removed episode supports', async () => {
+    const first = await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+    const second = await graphzep.addEpisode({
+      content: 'Alice, who works at Acme, lives in Lyon.',
+    });
+
+    await graphzep.removeEpisode(second.uuid);
+
+    assert.deepStrictEqual(await facts(), [{ name: 'WORKS_AT', episodes: [first.uuid] }]);
+    assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice']);
+    assert.strictEqual(await graphzep.getNode(second.uuid), null);
+  });
+
+  it('should reopen the facts the removed episode invalidated', async () => {
+    await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+    const moved = await graphzep.addEpisode({ content: 'Alice moved to Initech.' });
+    const [closed] = await driver.executeQuery<any[]>(
+      "MATCH ()-[r:RELATES_TO]->(:Entity {name: 'Acme'}) RETURN r.invalidatedBy AS invalidatedBy",
+    );
+    assert.strictEqual(closed.invalidatedBy, moved.uuid);
+
+    await graphzep.removeEpisode(moved.uuid);
+
+    const [reopened] = await driver.executeQuery<any[]>(`
+      MATCH ()-[r:RELATES_TO]->(:Entity {name: 'Acme'})
+      RETURN r.invalidAt AS invalidAt, r.expiredAt AS expiredAt, r.invalidatedBy AS invalidatedBy
+    `);
+    assert.deepStrictEqual(reopened, { invalidAt: null, expiredAt: null, invalidatedBy: null });
+    assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice']);
+    const [{ valid }] = await driver.executeQuery<any[]>(
+      'MATCH ()-[r:RELATES_TO]->() WHERE r.expiredAt IS NULL RETURN count(r) AS valid',
+    );
+    assert.strictEqual(valid, 1);
+  });
+
+  it('should delete entities and communities no episode mentions any more', async () => {
+    const episode = await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+    await graphzep.buildCommunities('g');
+
+    await graphzep.removeEpisode(episode.uuid);
+
+    assert.deepStrictEqual(await entityNames(), []);
+    assert.deepStrictEqual(await facts(), []);
+    assert.deepStrictEqual(await driver.executeQuery<any[]>('MATCH (c:Community) RETURN c'), []);
+  });
+
+  it('should reject unknown episodes', async () => {
+    await assert.rejects(graphzep.removeEpisode('missing'), /Episode not found: missing/);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import {
+  EDGE_HYBRID_SEARCH_EPISODE_MENTIONS,
+  EDGE_HYBRID_SEARCH_NODE_DISTANCE,
+  NODE_HYBRID_SEARCH_CROSS_ENCODER,
+  NODE_HYBRID_SEARCH_EPISODE_MENTIONS,
+  NODE_HYBRID_SEARCH_NODE_DISTANCE,
+} from '../search/recipes.js';
+
+const topics = ['coffee', 'tea'];
+const embedCalls: string[] = [];
+
+// One dimension per topic word, so similarity follows the words a text uses
+const embedder = {
+  embed: async (text: string) => {
+    embedCalls.push(text);
+    return topics.map((topic) => (text.toLowerCase().includes(topic) ? 1 : 0));
+  },
+  embedBatch: async (texts: string[]) => Promise.all(texts.map((text) => embedder.embed(text))),
+};
+
+const uuids = (results: { node: { uuid: string } }[]) => results.map((r) => r.node.uuid);
+const edgeUuids = (results: { edge: { uuid: string } }[]) => results.map((r) => r.edge.uuid);
+
+describe('Graphzep.searchWithConfig', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let passages: string[];
+
+  beforeEach(async () => {
+    embedCalls.length = 0;
+    passages = [];
+    driver = new InMemoryDriver();
+    graphzep = new Graphzep({
+      driver,
+      llmClient: {} as any,
+      embedder: embedder as any,
+      crossEncoder: {
+        rerank: async (_query: string, documents: string[]) => {
+          passages.push(...documents);
+          return documents.map((document) => (document.includes('roaster') ? 1 : 0));
+        },
+      },
+      groupId: 'g',
+    });
+
+    // Espresso is mentioned by two episodes, Latte by one; Alice is next to
+    // Latte and two hops away from Espresso
+    await driver.executeQuery(`
+      CREATE (alice:Entity {uuid: 'alice', name: 'Alice', summary: 'Drinks coffee daily',
+                            embedding: [1.0, 0.0], groupId: 'g'}),
+             (espresso:Entity {uuid: 'espresso', name: 'Espresso', summary: 'Strong coffee',
+                               embedding: [1.0, 0.0], groupId: 'g'}),
+             (latte:Entity {uuid: 'latte', name: 'Latte', summary: 'Coffee with milk',
+                            embedding: [1.0, 0.0], groupId: 'g'}),
+             (roaster:Entity {uuid: 'roaster', name: 'Roaster', summary: 'Coffee roaster',
+                              embedding: [1.0, 0.0], groupId: 'g'}),
+             (e1:Episodic {uuid: 'e1', name: 'Morning', content: 'Alice ordered coffee',
+                           embedding: [1.0, 0.0], groupId: 'g'}),
+             (e2:Episodic {uuid: 'e2', name: 'Evening', content: 'Bob drank tea',
+                           embedding: [0.0, 1.0], groupId: 'g'}),
+             (c1:Community {uuid: 'c1', name: 'Coffee', summary: 'Coffee drinks',
+                            embedding: [1.0, 0.0], groupId: 'g'}),
+             (e1)-[:MENTIONS {uuid: 'm1', groupId: 'g'}]->(espresso),
+             (e2)-[:MENTIONS {uuid: 'm2', groupId: 'g'}]->(espresso),
+             (e1)-[:MENTIONS {uuid: 'm3', groupId: 'g'}]->(latte),
+             (alice)-[:RELATES_TO {uuid: 'r1', name: 'LIKES', groupId: 'g', fact: 'Alice likes coffee',
+                                   episodes: ['e1'], factEmbedding: [1.0, 0.0],
+                                   createdAt: datetime('2024-01-01T00:00:00.000Z'),
+                                   validAt: datetime('2024-01-01T00:00:00.000Z')}]->(latte),
+             (latte)-[:RELATES_TO {uuid: 'r2', name: 'MADE_FROM', groupId: 'g',
+                                   fact: 'Latte is made from espresso coffee',
+                                   episodes: ['e1', 'e2'], factEmbedding: [1.0, 0.0],
+                                   createdAt: datetime('2024-01-01T00:00:00.000Z'),
+                                   validAt: datetime('2024-01-01T00:00:00.000Z')}]->(espresso)
+    `);
+  });
+
+  it('should search every layer with the combined recipe', async () => {
+    const results = await graphzep.searchWithConfig({ query: 'coffee' });
+
+    assert.deepStrictEqual(new Set(edgeUuids(results.edges)), new Set(['r1', 'r2']));
+    assert.deepStrictEqual(
+      new Set(uuids(results.nodes)),
+      new Set(['alice', 'espresso', 'latte', 'roaster']),
+    );
+    assert.deepStrictEqual(uuids(results.episodes), ['e1']);
+    assert.deepStrictEqual(uuids(results.communities), ['c1']);
+    // The layers share one query embedding
+    assert.strictEqual(embedCalls.length, 1);
+  });
+
+  it('should only search the configured layers with their methods', async () => {
+    const results = await graphzep.searchWithConfig(
+      { query: 'coffee' },
+      { episodeConfig: { searchMethods: ['cosine_similarity'] }, limit: 1 },
+    );
+
+    assert.deepStrictEqual(results.edges, []);
+    assert.deepStrictEqual(results.nodes, []);
+    assert.deepStrictEqual(results.communities, []);
+    assert.deepStrictEqual(uuids(results.episodes), ['e1']);
+
+    // Keyword search alone does not embed the query
+    embedCalls.length = 0;
+    const keyword = await graphzep.searchWithConfig(
+      { query: 'coffee' },
+      { nodeConfig: { searchMethods: ['bm25'] } },
+    );
+    assert.strictEqual(keyword.nodes.length, 4);
+    assert.strictEqual(embedCalls.length, 0);
+  });
+
+  it('should rerank by distance from the center node', async () => {
+    const results = await graphzep.searchWithConfig(
+      { query: 'coffee', centerNodeUuid: 'alice' },
+      NODE_HYBRID_SEARCH_NODE_DISTANCE,
+    );
+
+    assert.deepStrictEqual(uuids(results.nodes), ['alice', 'latte', 'espresso', 'roaster']);
+    assert.deepStrictEqual(
+      results.nodes.map((r) => r.score),
+      [1, 1 / 2, 1 / 3, 0],
+    );
+
+    const facts = await graphzep.searchWithConfig(
+      { query: 'coffee', centerNodeUuid: 'espresso' },
+      EDGE_HYBRID_SEARCH_NODE_DISTANCE,
+    );
+    // Facts are as close as their source entity
+    assert.deepStrictEqual(edgeUuids(facts.edges), ['r2', 'r1']);
+
+    await assert.rejects(
+      graphzep.searchWithConfig({ query: 'coffee' }, NODE_HYBRID_SEARCH_NODE_DISTANCE),
+      /centerNodeUuid/,
+    );
+  });
+
+  it('should rerank by episode mentions', async () => {
+    const nodes = await graphzep.searchWithConfig(
+      { query: 'coffee' },
+      NODE_HYBRID_SEARCH_EPISODE_MENTIONS,
+    );
+    assert.deepStrictEqual(uuids(nodes.nodes).slice(0, 2), ['espresso', 'latte']);
+    assert.deepStrictEqual(
+      nodes.nodes.map((r) => r.score),
+      [2, 1, 0, 0],
+    );
+
+    const facts = await graphzep.searchWithConfig(
+      { query: 'coffee' },
+      EDGE_HYBRID_SEARCH_EPISODE_MENTIONS,
+    );
+    assert.deepStrictEqual(edgeUuids(facts.edges), ['r2', 'r1']);
+  });
+
+  it('should rerank with the cross-encoder', async () => {
+    const results = await graphzep.searchWithConfig(
+      { query: 'coffee' },
+      { ...NODE_HYBRID_SEARCH_CROSS_ENCODER, limit: 2 },
+    );
+
+    assert.strictEqual(results.nodes[0].node.uuid, 'roaster');
+    assert.strictEqual(results.nodes.length, 2);
+    assert(passages.includes('Roaster: Coffee roaster'));
+  });
+});
@@ -0,0 +1,458 @@
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { Neo4jDriver } from '../drivers/neo4j.js';
+import { FalkorDBDriver } from '../drivers/falkordb.js';
+import { GraphProvider } from '../types/index.js';
+import { EpisodicNodeImpl } from '../core/nodes.js';
+import { EntityEdgeImpl } from '../core/edges.js';
+import { bm25Scores, maximalMarginalRelevance, reciprocalRankFusion } from '../utils/ranking.js';
+import { scriptedLLM } from './helpers.js';
+
+describe('Ranking', () => {
+  it('should score documents by BM25 and leave out non-matching ones', () => {
+    const results = bm25Scores('italian cheese', [
+      { uuid: 'pizza', text: 'Italian dish with cheese' },
+      { uuid: 'pasta', text: 'Italian noodles' },
+      { uuid: 'sport', text: 'Team sport' },
+    ]);
+
+    assert.deepStrictEqual(
+      results.map((r) => r.uuid),
+      ['pizza', 'pasta'],
+    );
+    assert(results[0].score > results[1].score);
+  });
+
+  it('should favour items ranked well by several rankings in RRF', () => {
+    const results = reciprocalRankFusion([
+      ['a', 'b', 'c'],
+      ['b', 'c'],
+    ]);
+
+    assert.deepStrictEqual(
+      results.map((r) => r.uuid),
+      ['b', 'c', 'a'],
+    );
+    assert.strictEqual(results[0].score, 1 / 62 + 1 / 61);
+  });
+
+  it('should trade relevance for diversity in MMR', () => {
+    const candidates = [
+      { uuid: 'pizza', embedding: [1, 0] },
+      { uuid: 'pasta', embedding: [0.95, 0.05] },
+      { uuid: 'code', embedding: [0, 1] },
+      { uuid: 'none' },
+    ];
+
+    assert.deepStrictEqual(
+      maximalMarginalRelevance([1, 0], candidates, 0.3).map((r) => r.uuid),
+      ['pizza', 'code', 'pasta'],
+    );
+    assert.deepStrictEqual(
+      maximalMarginalRelevance([1, 0], candidates, 1).map((r) => r.uuid),
+      ['pizza', 'pasta', 'code'],
+    );
+  });
+});
+
+const topics = ['italian', 'programming', 'sport'];
+const embedCalls: string[] = [];
+
+// One dimension per topic word, so similarity follows the words a text uses
+const embedder = {
+  embed: async (text: string) => {
+    embedCalls.push(text);
+    return topics.map((topic) => (text.toLowerCase().includes(topic) ? 1 : 0));
+  },
+  embedBatch: async (texts: string[]) => Promise.all(texts.map((text) => embedder.embed(text))),
+};
+
+const uuids = (results: { node: { uuid: string } }[]) => results.map((r) => r.node.uuid);
+
+describe('Graphzep.searchNodes', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+
+  beforeEach(async () => {
+    embedCalls.length = 0;
+    driver = new InMemoryDriver();
+    graphzep = new Graphzep({
+      driver,
+      llmClient: {} as any,
+      embedder: embedder as any,
+      groupId: 'g',
+    });
+
+    await driver.executeQuery(`
+      CREATE (alice:Entity {uuid: 'alice', name: 'Alice', summary: 'A cook', groupId: 'g'}),
+             (pizza:Entity {uuid: 'pizza', name: 'Pizza', summary: 'Italian dish with cheese',
+                            embedding: [1.0, 0.0, 0.0], groupId: 'g'}),
+             (pasta:Entity {uuid: 'pasta', name: 'Pasta', summary: 'Italian noodles',
+                            embedding: [0.9, 0.1, 0.0], groupId: 'g'}),
+             (ts:Entity {uuid: 'ts', name: 'TypeScript', summary: 'Typed programming language',
+                         embedding: [0.0, 1.0, 0.0], groupId: 'g'}),
+             (football:Entity {uuid: 'football', name: 'Football', summary: 'Team sport',
+                               embedding: [0.0, 0.0, 1.0], groupId: 'g'}),
+             (episode:Episodic {uuid: 'episode', name: 'Dinner', content: 'Alice cooked pizza',
+                                embedding: [0.5, 0.0, 0.5], groupId: 'g'}),
+             (other:Entity {uuid: 'other', name: 'Lasagne', summary: 'Italian bake',
+                            embedding: [1.0, 0.0, 0.0], groupId: 'other'}),
+             (episode)-[:MENTIONS {uuid: 'm1', groupId: 'g'}]->(alice),
+             (episode)-[:MENTIONS {uuid: 'm2', groupId: 'g'}]->(pizza),
+             (alice)-[:RELATES_TO {uuid: 'r1', name: 'COOKS', groupId: 'g'}]->(pizza),
+             (pizza)-[:RELATES_TO {uuid: 'r2', name: 'SIMILAR_TO', groupId: 'g'}]->(pasta)
+    `);
+  });
+
+  it('should rank by keywords without embedding the query', async () => {
+    const results = await graphzep.searchNodes({ query: 'italian cheese', searchType: 'keyword' });
+
+    assert.deepStrictEqual(uuids(results), ['pizza', 'pasta']);
+    assert(results[0].score > results[1].score);
+    assert.strictEqual(embedCalls.length, 0);
+  });
+
+  it('should rank by normalised cosine similarity', async () => {
+    const results = await graphzep.searchNodes({
+      query: 'programming',
+      searchType: 'semantic',
+      limit: 1,
+    });
+
+    assert.deepStrictEqual(uuids(results), ['ts']);
+  });
+
+  it('should fuse keyword and semantic rankings with RRF scores', async () => {
+    const results = await graphzep.searchNodes({ query: 'Italian cheese', limit: 3 });
+
+    assert.deepStrictEqual(uuids(results), ['pizza', 'pasta', 'episode']);
+    assert.strictEqual(results[0].score, 2 / 61);
+    assert(results.every((r, i) => i === 0 || results[i - 1].score >= r.score));
+  });
+
+  it('should add nodes close to the center node', async () => {
+    const results = await graphzep.searchNodes({
+      query: 'team',
+      searchType: 'keyword',
+      centerNodeUuid: 'alice',
+      maxDepth: 1,
+    });
+
+    assert.deepStrictEqual(new Set(uuids(results)), new Set(['football', 'pizza', 'episode']));
+  });
+
+  it('should diversify results with MMR', async () => {
+    const rrf = await graphzep.searchNodes({ query: 'italian', searchType: 'semantic', limit: 2 });
+    const mmr = await graphzep.searchNodes({
+      query: 'italian',
+      searchType: 'semantic',
+      reranker: 'mmr',
+      mmrLambda: 0.3,
+      limit: 2,
+    });
+
+    assert.deepStrictEqual(uuids(rrf), ['pizza', 'pasta']);
+    assert.strictEqual(mmr[0].node.uuid, 'pizza');
+    assert.notStrictEqual(mmr[1].node.uuid, 'pasta');
+  });
+
+  it('should rescore the best candidates with the cross-encoder', async () => {
+    const passages: string[] = [];
+    graphzep = new Graphzep({
+      driver,
+      llmClient: {} as any,
+      embedder: embedder as any,
+      crossEncoder: {
+        rerank: async (_query: string, documents: string[]) => {
+          passages.push(...documents);
+          return documents.map((document) => (document.includes('noodles') ? 0.9 : 0.1));
+        },
+      },
+      groupId: 'g',
+    });
+
+    const results = await graphzep.searchNodes({
+      query: 'Italian cheese',
+      reranker: 'cross_encoder',
+      limit: 2,
+    });
+
+    assert.deepStrictEqual(uuids(results), ['pasta', 'pizza']);
+    assert.deepStrictEqual(
+      results.map((r) => r.score),
+      [0.9, 0.1],
+    );
+    assert(passages.includes('Pizza: Italian dish with cheese'));
+    assert(passages.includes('Alice cooked pizza'));
+  });
+
+  it('should only return the requested node types', async () => {
+    const results = await graphzep.search({ query: 'pizza', nodeTypes: ['episodic'] });
+
+    assert.strictEqual(results.length, 1);
+    assert(results[0] instanceof EpisodicNodeImpl);
+  });
+});
+
+describe('Graphzep.searchFacts', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+
+  beforeEach(async () => {
+    embedCalls.length = 0;
+    driver = new InMemoryDriver();
+    graphzep = new Graphzep({
+      driver,
+      llmClient: scriptedLLM({
+        extraction: () => ({
+          entities: [
+            { name: 'Carol', entityType: 'Person', summary: 'Carol' },
+            { name: 'Initech', entityType: 'Company', summary: 'Initech' },
+          ],
+          relations: [
+            {
+              sourceName: 'Carol',
+              targetName: 'Initech',
+              relationName: 'WORKS_AT',
+              fact: 'Carol does programming at Initech',
+            },
+          ],
+        }),
+      }).llmClient,
+      embedder: embedder as any,
+      groupId: 'g',
+    });
+
+    await driver.executeQuery(`
+      CREATE (alice:Entity {uuid: 'alice', name: 'Alice', summary: 'Alice', groupId: 'g'}),
+             (bob:Entity {uuid: 'bob', name: 'Bob', summary: 'Bob', groupId: 'g'}),
+             (acme:Entity {uuid: 'acme', name: 'Acme', summary: 'Acme', groupId: 'g'}),
+             (globex:Entity {uuid: 'globex', name: 'Globex', summary: 'Globex', groupId: 'g'}),
+             (football:Entity {uuid: 'football', name: 'Football', summary: 'Football',
+                               groupId: 'g'}),
+             (alice)-[:RELATES_TO {uuid: 'r1', name: 'WORKS_AT', groupId: 'g',
+                                   fact: 'Alice works at Acme as programming lead',
+                                   factEmbedding: [0.0, 1.0, 0.0],
+                                   createdAt: datetime('2020-01-01T00:00:00.000Z'),
+                                   validAt: datetime('2020-01-01T00:00:00.000Z'),
+                                   invalidAt: datetime('2023-01-01T00:00:00.000Z'),
+                                   expiredAt: datetime('2023-01-02T00:00:00.000Z')}]->(acme),
+             (alice)-[:RELATES_TO {uuid: 'r2', name: 'WORKS_AT', groupId: 'g',
+                                   fact: 'Alice works at Globex',
+                                   createdAt: datetime('2023-01-02T00:00:00.000Z'),
+                                   validAt: datetime('2023-01-01T00:00:00.000Z')}]->(globex),
+             (bob)-[:RELATES_TO {uuid: 'r3', name: 'PLAYS', groupId: 'g',
+                                 fact: 'Bob plays sport on weekends',
+                                 factEmbedding: [0.0, 0.0, 1.0],
+                                 createdAt: datetime('2021-01-01T00:00:00.000Z'),
+                                 validAt: datetime('2021-01-01T00:00:00.000Z')}]->(football),
+             (bob)-[:RELATES_TO {uuid: 'r4', name: 'KNOWS', groupId: 'g',
+                                 fact: 'Bob knows Alice',
+                                 createdAt: datetime('2021-01-01T00:00:00.000Z'),
+                                 validAt: datetime('2021-01-01T00:00:00.000Z')}]->(alice)
+    `);
+  });
+
+  const uuids = (results: { edge: { uuid: string } }[]) => results.map((r) => r.edge.uuid);
+
+  it('should return ranked facts with their endpoints', async () => {
+    const results = await graphzep.searchFacts({ query: 'works at', searchType: 'keyword' });
+
+    assert.deepStrictEqual(new Set(uuids(results)), new Set(['r1', 'r2']));
+    const globex = results.find((r) => r.edge.uuid === 'r2')!;
+    assert(globex.edge instanceof EntityEdgeImpl);
+    assert.strictEqual(globex.sourceNode.name, 'Alice');
+    assert.strictEqual(globex.targetNode.name, 'Globex');
+    assert(globex.score > 0);
+  });
+
+  it('should rank facts by their embedding', async () => {
+    const results = await graphzep.searchFacts({ query: 'sport', searchType: 'semantic' });
+
+    assert.strictEqual(results[0].edge.uuid, 'r3');
+  });
+
+  it('should only return facts valid at asOf', async () => {
+    const query = { query: 'works', searchType: 'keyword' as const };
+
+    const before = await graphzep.searchFacts({ ...query, asOf: new Date('2022-06-01') });
+    const after = await graphzep.searchFacts({ ...query, asOf: new Date('2024-06-01') });
+
+    assert.deepStrictEqual(uuids(before), ['r1']);
+    assert.deepStrictEqual(uuids(after), ['r2']);
+  });
+
+  it('should add facts close to the center node', async () => {
+    const results = await graphzep.searchFacts({
+      query: 'programming',
+      searchType: 'keyword',
+      centerNodeUuid: 'bob',
+      maxDepth: 1,
+    });
+
+    assert.deepStrictEqual(new Set(uuids(results)), new Set(['r1', 'r3', 'r4']));
+  });
+
+  it('should convert facts to the FactResult shape', async () => {
+    const [result] = await graphzep.searchFacts({
+      query: 'acme',
+      searchType: 'keyword',
+      limit: 1,
+    });
+
+    assert.deepStrictEqual(result.edge.toFactResult(), {
+      uuid: 'r1',
+      name: 'WORKS_AT',
+      fact: 'Alice works at Acme as programming lead',
+      valid_at: '2020-01-01T00:00:00.000Z',
+      invalid_at: '2023-01-01T00:00:00.000Z',
+      created_at: '2020-01-01T00:00:00.000Z',
+      expired_at: '2023-01-02T00:00:00.000Z',
+    });
+  });
+
+  it('should store the extracted fact and its embedding on new edges', async () => {
+    await graphzep.addEpisode({ content: 'Carol writes code at Initech.' });
+
+    const results = await graphzep.searchFacts({ query: 'programming', searchType: 'semantic' });
+
+    const carol = results.find((r) => r.sourceNode.name === 'Carol')!;
+    assert.strictEqual(carol.edge.fact, 'Carol does programming at Initech');
+    assert.deepStrictEqual(carol.edge.factEmbedding, [0, 1, 0]);
+    assert(embedCalls.includes('Carol does programming at Initech'));
+  });
+});
+
+describe('Full-text indexes', () => {
+  it('should ask the Neo4j index for more hits than the group-filtered limit', async () => {
+    const calls: { query: string; params: Record<string, any> }[] = [];
+    const driver = {
+      provider: GraphProvider.NEO4J,
+      executeQuery: async (query: string, params: Record<string, any> = {}) => {
+        calls.push({ query, params });
+        return [];
+      },
+    };
+    const graphzep = new Graphzep({
+      driver: driver as any,
+      llmClient: {} as any,
+      embedder: embedder as any,
+      groupId: 'g',
+    });
+
+    await graphzep.searchNodes({ query: 'pizza', searchType: 'keyword', limit: 5 });
+    await graphzep.searchFacts({ query: 'pizza', searchType: 'keyword', limit: 5 });
+
+    const fulltext = calls.filter(({ query }) => query.includes('db.index.fulltext'));
+    assert.strictEqual(fulltext.length, 2);
+    for (const { query, params } of fulltext) {
+      assert(query.includes('{limit: $indexLimit}'));
+      assert(query.includes('LIMIT $limit'));
+      // Each retrieval method fetches twice the limit for fusion
+      assert.strictEqual(params.limit, 10);
+      assert.strictEqual(params.indexLimit, 100);
+    }
+  });
+});
+
+describe('Vector indexes', () => {
+  const pizza = {
+    uuid: 'pizza',
+    name: 'Pizza',
+    summary: 'Italian dish',
+    embedding: [1, 0, 0],
+    groupId: 'g',
+  };
+
+  it('should query the native vector index', async () => {
+    const queries: string[] = [];
+    const driver = {
+      provider: GraphProvider.FALKORDB,
+      executeQuery: async (query: string) => {
+        queries.push(query);
+        return query.includes("db.idx.vector.queryNodes('Entity', 'embedding'")
+          ? [{ n: pizza, labels: ['Entity'], similarity: 0.9 }]
+          : [];
+      },
+    };
+    const graphzep = new Graphzep({
+      driver: driver as any,
+      llmClient: {} as any,
+      embedder: embedder as any,
+      groupId: 'g',
+    });
+
+    const results = await graphzep.searchNodes({
+      query: 'italian',
+      searchType: 'semantic',
+      nodeTypes: ['entity'],
+    });
+
+    assert.deepStrictEqual(uuids(results), ['pizza']);
+    assert(queries.some((query) => query.includes('vecf32($embedding)')));
+    assert(!queries.some((query) => query.includes('reduce(')));
+  });
+
+  it('should fall back to a scan when the vector index is missing', async () => {
+    const memory = new InMemoryDriver();
+    await memory.executeQuery('CREATE (n:Entity $props)', { props: pizza });
+    const queries: string[] = [];
+    const driver = {
+      provider: GraphProvider.NEO4J,
+      executeQuery: async (query: string, params?: Record<string, any>) => {
+        queries.push(query);
+        if (query.includes('CALL db.')) {
+          throw new Error('There is no such vector schema index');
+        }
+        return memory.executeQuery(query, params);
+      },
+    };
+    const graphzep = new Graphzep({
+      driver: driver as any,
+      llmClient: {} as any,
+      embedder: embedder as any,
+      groupId: 'g',
+    });
+    const warn = mock.method(console, 'warn', () => {});
+
+    try {
+      const nodes = await graphzep.searchNodes({ query: 'italian', searchType: 'semantic' });
+      const facts = await graphzep.searchFacts({ query: 'italian', searchType: 'semantic' });
+
+      assert.deepStrictEqual(uuids(nodes), ['pizza']);
+      assert.deepStrictEqual(facts, []);
+      assert(queries.some((query) => query.includes("queryNodes('entity_embedding'")));
+      assert(queries.some((query) => query.includes("queryRelationships('fact_embedding'")));
+      assert.strictEqual(warn.mock.callCount(), 2);
+    } finally {
+      warn.mock.restore();
+    }
+  });
+
+  it('should create vector indexes sized by the embedder dimensions', async () => {
+    for (const driver of [
+      new Neo4jDriver('bolt://localhost:7687', 'neo4j', 'password'),
+      new FalkorDBDriver('redis://localhost:6379'),
+    ]) {
+      const queries: string[] = [];
+      driver.executeQuery = async (query: string) => {
+        queries.push(query);
+        return [] as any;
+      };
+
+      await new Graphzep({
+        driver,
+        llmClient: {} as any,
+        embedder: { ...embedder, dimensions: 3 } as any,
+      }).createIndexes();
+      await driver.createIndexes();
+
+      const vectorIndexes = queries.filter((query) => query.includes('CREATE VECTOR INDEX'));
+      assert.strictEqual(vectorIndexes.length, 4);
+      assert(vectorIndexes.every((query) => /dimension(s`)?: 3/.test(query)));
+      await driver.close();
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep, GraphzepConfig } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { episodeText, lengthVector, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+describe('Entity summary refresh', () => {
+  let driver: InMemoryDriver;
+  let mergePrompts: string[];
+
+  const createGraphzep = (config: Partial<GraphzepConfig> = {}) => {
+    const { llmClient, prompts } = scriptedLLM({
+      // Every episode describes Alice with its own text
+      extraction: (prompt) => ({
+        entities: [{ name: 'Alice', entityType: 'Person', summary: episodeText(prompt) }],
+        relations: [],
+      }),
+    });
+    mergePrompts = prompts.merge;
+
+    return new Graphzep({
+      driver,
+      llmClient,
+      embedder: scriptedEmbedder(lengthVector).embedder,
+      groupId: 'g',
+      ...config,
+    });
+  };
+
+  const alice = async () => {
+    const [row] = await driver.executeQuery<any[]>(`
+      MATCH (n:Entity {name: 'Alice'})
+      RETURN n.summary AS summary, n.summaryEmbedding AS embedding,
+             n.pendingSummaries AS pending
+    `);
+    return row;
+  };
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+  });
+
+  it('should refresh and re-embed the summary of an entity seen again', async () => {
+    const graphzep = createGraphzep();
+
+    await graphzep.addEpisode({ content: 'A chemist' });
+    await graphzep.addEpisode({ content: 'Lives in Lyon' });
+
+    const { summary, embedding } = await alice();
+    assert.strictEqual(summary, 'A chemist Lives in Lyon');
+    assert.deepStrictEqual(embedding, [summary.length, 1]);
+  });
+
+  it('should queue descriptions until the entity may be refreshed again', async () => {
+    const graphzep = createGraphzep();
+
+    await graphzep.addEpisode({ content: 'A chemist' });
+    await graphzep.addEpisode({ content: 'Lives in Lyon' });
+    await graphzep.addEpisode({ content: 'Plays chess' });
+
+    assert.strictEqual(mergePrompts.length, 1);
+    assert.strictEqual((await alice()).summary, 'A chemist Lives in Lyon');
+    assert.deepStrictEqual((await alice()).pending, ['Plays chess']);
+
+    // Pretend the last refresh was two minutes ago
+    await driver.executeQuery(
+      `
+      MATCH (n:Entity {name: 'Alice'})
+      SET n.summaryRefreshedAt = datetime($refreshedAt)
+      `,
+      { refreshedAt: new Date(Date.now() - 120_000).toISOString() },
+    );
+    await graphzep.addEpisode({ content: 'Speaks French' });
+
+    assert.strictEqual(mergePrompts.length, 2);
+    const { summary, pending } = await alice();
+    assert.strictEqual(summary, 'A chemist Lives in Lyon Plays chess Speaks French');
+    assert.deepStrictEqual(pending, []);
+  });
+
+  it('should refresh on every mention without a minimum interval', async () => {
+    const graphzep = createGraphzep({ summaryRefresh: { minInterval: 0 } });
+
+    await graphzep.addEpisode({ content: 'A chemist' });
+    await graphzep.addEpisode({ content: 'Lives in Lyon' });
+    await graphzep.addEpisode({ content: 'Plays chess' });
+
+    assert.strictEqual(mergePrompts.length, 2);
+    assert.strictEqual((await alice()).summary, 'A chemist Lives in Lyon Plays chess');
+  });
+});
@@ -0,0 +1,340 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { EntityNodeImpl } from '../core/nodes.js';
+import { EntityEdgeImpl } from '../core/edges.js';
+import { EpisodicNode } from '../types/index.js';
+import { episodeText, lengthVector, scriptedEmbedder, scriptedLLM } from './helpers.js';
+
+interface ScriptedRelation {
+  sourceName: string;
+  targetName: string;
+  relationName: string;
+  validAt?: string;
+  invalidAt?: string;
+}
+
+/**
+ * LLM stub that extracts the relations scripted for each episode and flags
+ * existing facts as contradicted when they share the new fact's relation name.
+ */
+function createScriptedLLM(episodes: Record<string, ScriptedRelation[]>) {
+  const { llmClient, prompts } = scriptedLLM({
+    contradiction: (prompt) => {
+      const newFact = prompt.match(/New fact: (.*)/)![1];
+      const relationName = Object.values(episodes)
+        .flat()
+        .find((r) => newFact === `${r.sourceName} ${r.relationName} ${r.targetName}`)!.relationName;
+      const ids = [...prompt.matchAll(/^(\d+): \S+ (\S+) \S+$/gm)]
+        .filter((m) => m[2] === relationName)
+        .map((m) => Number(m[1]));
+      return { contradictedFactIds: ids };
+    },
+    extraction: (prompt) => {
+      const relations = episodes[episodeText(prompt)] ?? [];
+      const names = new Set(relations.flatMap((r) => [r.sourceName, r.targetName]));
+      return {
+        entities: [...names].map((name) => ({ name, entityType: 'Thing', summary: name })),
+        relations,
+      };
+    },
+  });
+
+  return {
+    client: llmClient,
+    contradictionPrompts: prompts.contradiction,
+    extractionPrompts: prompts.extraction,
+  };
+}
+
+const embedder = scriptedEmbedder(lengthVector).embedder;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function getRelation(driver: InMemoryDriver, name: string, target: string) {
+  const result = await driver.executeQuery<any[]>(
+    `
+    MATCH (s:Entity)-[r:RELATES_TO {name: $name}]->(t:Entity {name: $target})
+    RETURN r
+    `,
+    { name, target },
+  );
+  assert.strictEqual(result.length, 1);
+  return result[0].r;
+}
+
+describe('Temporal edges', () => {
+  let driver: InMemoryDriver;
+
+  beforeEach(() => {
+    driver = new InMemoryDriver();
+  });
+
+  describe('contradiction handling', () => {
+    it('should invalidate superseded edges and record the invalidating episode', async () => {
+      const { client, contradictionPrompts } = createScriptedLLM({
+        'Alice works at Acme.': [
+          { sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT' },
+        ],
+        'Alice lives in Paris.': [
+          { sourceName: 'Alice', targetName: 'Paris', relationName: 'LIVES_IN' },
+        ],
+        'Alice left Acme for Globex.': [
+          { sourceName: 'Alice', targetName: 'Globex', relationName: 'WORKS_AT' },
+        ],
+      });
+      const graphzep = new Graphzep({
+        driver,
+        llmClient: client,
+        embedder,
+      });
+
+      await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+      await graphzep.addEpisode({ content: 'Alice lives in Paris.' });
+      const episode = await graphzep.addEpisode({ content: 'Alice left Acme for Globex.' });
+
+      assert.strictEqual(contradictionPrompts.length, 2);
+
+      const acme = await getRelation(driver, 'WORKS_AT', 'Acme');
+      const globex = await getRelation(driver, 'WORKS_AT', 'Globex');
+      const paris = await getRelation(driver, 'LIVES_IN', 'Paris');
+
+      assert.strictEqual(acme.invalidatedBy, episode.uuid);
+      assert(acme.expiredAt instanceof Date);
+      assert.strictEqual(acme.invalidAt.getTime(), globex.validAt.getTime());
+
+      assert.strictEqual(globex.invalidAt, undefined);
+      assert.strictEqual(paris.invalidAt, undefined);
+      assert.strictEqual(paris.expiredAt, undefined);
+    });
+
+    it('should skip the contradiction check when no related facts exist', async () => {
+      const { client, contradictionPrompts } = createScriptedLLM({
+        'Alice works at Acme.': [
+          { sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT' },
+        ],
+      });
+      const graphzep = new Graphzep({
+        driver,
+        llmClient: client,
+        embedder,
+      });
+
+      await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+
+      assert.strictEqual(contradictionPrompts.length, 0);
+    });
+
+    it('should record a new edge when an invalidated fact is asserted again', async () => {
+      const { client } = createScriptedLLM({
+        'Alice works at Acme.': [
+          { sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT' },
+        ],
+        'Alice joined Globex.': [
+          { sourceName: 'Alice', targetName: 'Globex', relationName: 'WORKS_AT' },
+        ],
+        'Alice returned to Acme.': [
+          { sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT' },
+        ],
+      });
+      const graphzep = new Graphzep({
+        driver,
+        llmClient: client,
+        embedder,
+      });
+
+      await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+      await graphzep.addEpisode({ content: 'Alice joined Globex.' });
+      await graphzep.addEpisode({ content: 'Alice returned to Acme.' });
+
+      const acme = await driver.executeQuery<any[]>(`
+        MATCH (:Entity)-[r:RELATES_TO]->(:Entity {name: 'Acme'})
+        RETURN r.expiredAt IS NULL AS current
+        ORDER BY current
+      `);
+
+      assert.deepStrictEqual(
+        acme.map((row) => row.current),
+        [false, true],
+      );
+    });
+  });
+
+  describe('asOf queries', () => {
+    let graphzep: Graphzep;
+    let before: Date;
+    let between: Date;
+    let firstEpisode: EpisodicNode;
+    let secondEpisode: EpisodicNode;
+
+    beforeEach(async () => {
+      const { client } = createScriptedLLM({
+        'Alice works at Acme.': [
+          { sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT' },
+        ],
+        'Alice left Acme for Globex.': [
+          { sourceName: 'Alice', targetName: 'Globex', relationName: 'WORKS_AT' },
+        ],
+      });
+      graphzep = new Graphzep({
+        driver,
+        llmClient: client,
+        embedder,
+      });
+
+      before = new Date();
+      await sleep(5);
+      firstEpisode = await graphzep.addEpisode({ content: 'Alice works at Acme.' });
+      await sleep(5);
+      between = new Date();
+      await sleep(5);
+      secondEpisode = await graphzep.addEpisode({ content: 'Alice left Acme for Globex.' });
+    });
+
+    it('should return edges only while they were valid', async () => {
+      const acme = await getRelation(driver, 'WORKS_AT', 'Acme');
+      const globex = await getRelation(driver, 'WORKS_AT', 'Globex');
+
+      const acmeThen = await graphzep.getEdge(acme.uuid, between);
+      assert(acmeThen instanceof EntityEdgeImpl);
+      assert.strictEqual(acmeThen.sourceNodeUuid.length > 0, true);
+
+      assert.strictEqual(await graphzep.getEdge(acme.uuid, new Date()), null);
+      assert.strictEqual(await graphzep.getEdge(globex.uuid, between), null);
+      assert(await graphzep.getEdge(globex.uuid, new Date()));
+      assert(await graphzep.getEdge(acme.uuid));
+    });
+
+    it('should return nodes only once they were known', async () => {
+      const [alice] = await driver.executeQuery<any[]>(
+        "MATCH (n:Entity {name: 'Alice'}) RETURN n.uuid AS uuid",
+      );
+      const [globex] = await driver.executeQuery<any[]>(
+        "MATCH (n:Entity {name: 'Globex'}) RETURN n.uuid AS uuid",
+      );
+
+      assert.strictEqual(await graphzep.getNode(alice.uuid, before), null);
+      assert(await graphzep.getNode(alice.uuid, between));
+      assert.strictEqual(await graphzep.getNode(globex.uuid, between), null);
+      assert.strictEqual(await graphzep.getNode(secondEpisode.uuid, between), null);
+      assert(await graphzep.getNode(firstEpisode.uuid, between));
+    });
+
+    it('should restrict search results to the asOf view', async () => {
+      const then = await graphzep.search({ query: 'Alice', asOf: between });
+      const names = then
+        .filter((node): node is EntityNodeImpl => node instanceof EntityNodeImpl)
+        .map((node) => node.name)
+        .sort();
+
+      assert.deepStrictEqual(names, ['Acme', 'Alice']);
+      assert(then.some((node) => node.uuid === firstEpisode.uuid));
+      assert(!then.some((node) => node.uuid === secondEpisode.uuid));
+
+      const now = await graphzep.search({ query: 'Alice' });
+      assert.strictEqual(now.length, 5);
+    });
+  });
+
+  describe('referenceTime', () => {
+    it('should use the reference time for episode and edge validity', async () => {
+      const { client, extractionPrompts } = createScriptedLLM({
+        'Alice works at Acme.': [
+          { sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT' },
+        ],
+      });
+      const graphzep = new Graphzep({
+        driver,
+        llmClient: client,
+        embedder,
+      });
+      const referenceTime = new Date('2021-03-01T09:00:00Z');
+
+      const episode = await graphzep.addEpisode({ content: 'Alice works at Acme.', referenceTime });
+
+      assert.strictEqual(episode.validAt.getTime(), referenceTime.getTime());
+      assert(extractionPrompts[0].includes('Reference time: 2021-03-01T09:00:00.000Z'));
+
+      const edge = await getRelation(driver, 'WORKS_AT', 'Acme');
+      assert.strictEqual(edge.validAt.getTime(), referenceTime.getTime());
+      assert(edge.createdAt.getTime() > referenceTime.getTime());
+    });
+
+    it('should prefer dates the LLM resolved from the text', async () => {
+      const { client } = createScriptedLLM({
+        'Last Tuesday Alice joined Acme; she left Initech in 2019.': [
+          {
+            sourceName: 'Alice',
+            targetName: 'Acme',
+            relationName: 'WORKS_AT',
+            validAt: '2021-02-23T00:00:00Z',
+          },
+          {
+            sourceName: 'Alice',
+            targetName: 'Initech',
+            relationName: 'WORKED_AT',
+            invalidAt: '2019-01-01T00:00:00Z',
+          },
+        ],
+      });
+      const graphzep = new Graphzep({
+        driver,
+        llmClient: client,
+        embedder,
+      });
+      const referenceTime = new Date('2021-03-01T09:00:00Z');
+
+      await graphzep.addEpisode({
+        content: 'Last Tuesday Alice joined Acme; she left Initech in 2019.',
+        referenceTime,
+      });
+
+      const acme = await getRelation(driver, 'WORKS_AT', 'Acme');
+      const initech = await getRelation(driver, 'WORKED_AT', 'Initech');
+
+      assert.strictEqual(acme.validAt.toISOString(), '2021-02-23T00:00:00.000Z');
+      assert.strictEqual(initech.validAt.getTime(), referenceTime.getTime());
+      assert.strictEqual(initech.invalidAt.toISOString(), '2019-01-01T00:00:00.000Z');
+    });
+
+    it('should close an older backfilled fact at the start of a newer contradicting one', async () => {
+      const { client } = createScriptedLLM({
+        'Alice works at Globex.': [
+          { sourceName: 'Alice', targetName: 'Globex', relationName: 'WORKS_AT' },
+        ],
+        'Alice works at Acme.': [
+          { sourceName: 'Alice', targetName: 'Acme', relationName: 'WORKS_AT' },
+        ],
+      });
+      const graphzep = new Graphzep({
+        driver,
+        llmClient: client,
+        embedder,
+      });
+
+      await graphzep.addEpisode({
+        content: 'Alice works at Globex.',
+        referenceTime: new Date('2023-01-01T00:00:00Z'),
+      });
+      await graphzep.addEpisode({
+        content: 'Alice works at Acme.',
+        referenceTime: new Date('2020-01-01T00:00:00Z'),
+      });
+
+      const acme = await getRelation(driver, 'WORKS_AT', 'Acme');
+      const globex = await getRelation(driver, 'WORKS_AT', 'Globex');
+
+      assert.strictEqual(acme.invalidAt.toISOString(), '2023-01-01T00:00:00.000Z');
+      assert.strictEqual(acme.invalidatedBy, undefined);
+      assert.strictEqual(globex.invalidAt, undefined);
+      assert.strictEqual(globex.expiredAt, undefined);
+
+      assert(await graphzep.getEdge(acme.uuid, new Date('2021-06-01T00:00:00Z')));
+      assert.strictEqual(
+        await graphzep.getEdge(globex.uuid, new Date('2021-06-01T00:00:00Z')),
+        null,
+      );
+    });
+  });
+});
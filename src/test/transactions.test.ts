@@ -0,0 +1,295 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { Graphzep } from '../graphzep.js';
+import { InMemoryDriver } from '../drivers/memory.js';
+import { FalkorDBDriver } from '../drivers/falkordb.js';
+import { GraphDriver } from '../types/index.js';
+import {
+  PromptKind,
+  extractionOf,
+  lengthVector,
+  scriptedEmbedder,
+  scriptedLLM,
+} from './helpers.js';
+
+const WRITE_CLAUSE = /\b(CREATE|MERGE|SET|DELETE|REMOVE)\b/i;
+
+// A driver with write batches and no transactions, like FalkorDB: writes are
+// queued until commit, and reads do not see them. Records the writes sent
+// outside a batch.
+function batchOnly(driver: InMemoryDriver): { driver: GraphDriver; unbatched: string[] } {
+  const unbatched: string[] = [];
+  return {
+    unbatched,
+    driver: {
+      provider: driver.provider,
+      executeQuery: async (query, params) => {
+        if (WRITE_CLAUSE.test(query)) unbatched.push(query);
+        return driver.executeQuery(query, params);
+      },
+      close: () => driver.close(),
+      createIndexes: () => driver.createIndexes(),
+      beginWriteBatch: async () => {
+        let writes: [string, Record<string, any> | undefined][] = [];
+        return {
+          executeQuery: async (query, params) => {
+            if (!WRITE_CLAUSE.test(query)) return driver.executeQuery(query, params);
+            writes.push([query, params]);
+            return [] as any;
+          },
+          commit: async () => {
+            const transaction = await driver.beginTransaction();
+            for (const [query, params] of writes) {
+              await transaction.executeQuery(query, params);
+            }
+            await transaction.commit();
+          },
+          rollback: async () => {
+            writes = [];
+          },
+        };
+      },
+    },
+  };
+}
+
+describe('Graphzep transactions', () => {
+  let driver: InMemoryDriver;
+  let graphzep: Graphzep;
+  let llmClient: ReturnType<typeof scriptedLLM>['llmClient'];
+  let embedder: ReturnType<typeof scriptedEmbedder>['embedder'];
+  let prompts: Record<PromptKind, string[]>;
+  // Whether a transaction was open at each LLM or embedder call
+  let callsInTransaction: boolean[];
+
+  beforeEach(async () => {
+    driver = new InMemoryDriver();
+    callsInTransaction = [];
+
+    let open = false;
+    const begin = driver.beginTransaction.bind(driver);
+    driver.beginTransaction = async () => {
+      const transaction = await begin();
+      open = true;
+      const end = (finish: () => Promise<void>) => async () => {
+        open = false;
+        await finish();
+      };
+      return {
+        executeQuery: transaction.executeQuery,
+        commit: end(transaction.commit),
+        rollback: end(transaction.rollback),
+      };
+    };
+
+    const observed =
+      <A extends unknown[], R>(fn: (...args: A) => R) =>
+      (...args: A): R => {
+        callsInTransaction.push(open);
+        return fn(...args);
+      };
+    const scripted = scriptedLLM({
+      extraction: observed(() =>
+        extractionOf({
+          entities: ['Alice', 'Initech'],
+          relations: [['Alice', 'WORKS_AT', 'Initech']],
+        }),
+      ),
+      contradiction: observed(() => ({ contradictedFactIds: [0] })),
+      merge: observed(() => ({ summary: 'Alice moved from Acme to Initech' })),
+      community: observed(() => ({ name: 'Work', summary: 'Alice and her employers' })),
+    });
+    prompts = scripted.prompts;
+    llmClient = scripted.llmClient;
+    embedder = scriptedEmbedder(observed(lengthVector)).embedder;
+
+    graphzep = new Graphzep({ driver, llmClient, embedder, groupId: 'g' });
+
+    await driver.executeQuery(`
+      CREATE (alice:Entity {uuid: 'alice', name: 'Alice', entityType: 'Entity',
+                            summary: 'Alice works at Acme', groupId: 'g'}),
+             (acme:Entity {uuid: 'acme', name: 'Acme', entityType: 'Entity', summary: 'Acme',
+                           groupId: 'g'}),
+             (c:Community {uuid: 'c', name: 'Acme staff', summary: 'Alice at Acme', groupId: 'g'}),
+             (c)-[:HAS_MEMBER {uuid: 'm1', groupId: 'g'}]->(alice),
+             (c)-[:HAS_MEMBER {uuid: 'm2', groupId: 'g'}]->(acme),
+             (alice)-[:RELATES_TO {uuid: 'r1', name: 'WORKS_AT', groupId: 'g',
+                                   fact: 'Alice WORKS_AT Acme', episodes: ['e0'],
+                                   createdAt: datetime('2024-01-01T00:00:00.000Z'),
+                                   validAt: datetime('2024-01-01T00:00:00.000Z')}]->(acme)
+    `);
+  });
+
+  it('should call the LLM and embedder before the episode transaction opens', async () => {
+    const episode = await graphzep.addEpisode({ content: 'Alice now works at Initech.' });
+
+    assert.strictEqual(prompts.merge.length, 1);
+    assert.strictEqual(prompts.contradiction.length, 1);
+    assert.strictEqual(prompts.community.length, 1);
+    assert(callsInTransaction.length > 4);
+    assert(callsInTransaction.every((inTransaction) => !inTransaction));
+
+    // The planned writes are all applied
+    const [alice] = await driver.executeQuery<any[]>(
+      "MATCH (n:Entity {uuid: 'alice'}) RETURN n.summary AS summary",
+    );
+    assert.strictEqual(alice.summary, 'Alice moved from Acme to Initech');
+    const [acme] = await driver.executeQuery<any[]>(
+      "MATCH ()-[r:RELATES_TO {uuid: 'r1'}]->() RETURN r.invalidatedBy AS invalidatedBy",
+    );
+    assert.strictEqual(acme.invalidatedBy, episode.uuid);
+    const members = await driver.executeQuery<any[]>(
+      "MATCH (c:Community {uuid: 'c'})-[:HAS_MEMBER]->(n:Entity) RETURN n.name AS name ORDER BY name",
+    );
+    assert.deepStrictEqual(
+      members.map((row) => row.name),
+      ['Acme', 'Alice', 'Initech'],
+    );
+  });
+
+  describe('on a driver with write batches only', () => {
+    let unbatched: string[];
+
+    beforeEach(async () => {
+      // An earlier episode keeps Alice and Acme when later ones are removed
+      await driver.executeQuery(`
+        MATCH (alice:Entity {uuid: 'alice'}), (acme:Entity {uuid: 'acme'})
+        CREATE (e:Episodic {uuid: 'e0', name: 'e0', content: 'Alice works at Acme.',
+                            episodeType: 'text', groupId: 'g',
+                            validAt: datetime('2024-01-01T00:00:00.000Z'),
+                            createdAt: datetime('2024-01-01T00:00:00.000Z')}),
+               (e)-[:MENTIONS {uuid: 'e0-alice', groupId: 'g'}]->(alice),
+               (e)-[:MENTIONS {uuid: 'e0-acme', groupId: 'g'}]->(acme)
+      `);
+      const batched = batchOnly(driver);
+      unbatched = batched.unbatched;
+      graphzep = new Graphzep({ driver: batched.driver, llmClient, embedder, groupId: 'g' });
+    });
+
+    const invalidatedBy = async () =>
+      (
+        await driver.executeQuery<any[]>(
+          "MATCH ()-[r:RELATES_TO {uuid: 'r1'}]->() RETURN r.invalidatedBy AS invalidatedBy",
+        )
+      )[0].invalidatedBy;
+    const entityNames = async () =>
+      (
+        await driver.executeQuery<any[]>('MATCH (n:Entity) RETURN n.name AS name ORDER BY name')
+      ).map((row) => row.name);
+
+    it('should write, update and remove an episode in one batch each', async () => {
+      const params = { content: 'Alice now works at Initech.', referenceId: 'message-1' };
+      const episode = await graphzep.addEpisode(params);
+      assert.strictEqual(await invalidatedBy(), episode.uuid);
+      assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice', 'Initech']);
+
+      // The update restores the fact and closes it again within its batch
+      await graphzep.addEpisode({ ...params, content: 'Alice works at Initech now.' });
+      assert.strictEqual(await invalidatedBy(), episode.uuid);
+      assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice', 'Initech']);
+      const [community] = await driver.executeQuery<any[]>(
+        "MATCH (c:Community {uuid: 'c'}) RETURN c.uuid AS uuid",
+      );
+      assert(community);
+
+      await graphzep.removeEpisode(episode.uuid);
+      assert.strictEqual(await invalidatedBy(), null);
+      assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice']);
+
+      assert.deepStrictEqual(unbatched, []);
+    });
+
+    it('should write nothing when the batch fails', async () => {
+      graphzep.use({
+        stage: 'persist',
+        after: () => {
+          throw new Error('Hook failed');
+        },
+      });
+
+      await assert.rejects(
+        graphzep.addEpisode({ content: 'Alice now works at Initech.' }),
+        /Hook failed/,
+      );
+
+      assert.strictEqual(await invalidatedBy(), null);
+      assert.deepStrictEqual(await entityNames(), ['Acme', 'Alice']);
+      const episodes = await driver.executeQuery<any[]>('MATCH (e:Episodic) RETURN e.uuid AS uuid');
+      assert.deepStrictEqual(episodes, [{ uuid: 'e0' }]);
+    });
+  });
+});
+
+describe('FalkorDBDriver write batches', () => {
+  let driver: FalkorDBDriver;
+  let commands: string[][];
+  let reads: string[];
+  let replies: unknown[];
+
+  beforeEach(() => {
+    driver = new FalkorDBDriver('redis://localhost:6379');
+    commands = [];
+    reads = [];
+    replies = [];
+    Object.assign(driver as any, {
+      client: {
+        isOpen: true,
+        multi: () => {
+          const queued: string[][] = [];
+          return {
+            addCommand: (args: string[]) => queued.push(args),
+            exec: async () => {
+              commands.push(...queued);
+              return replies.length > 0 ? replies : queued.map(() => 'OK');
+            },
+          };
+        },
+      },
+      graph: {
+        query: async (query: string) => {
+          reads.push(query);
+          return { headers: ['uuid'], data: [['a']] };
+        },
+      },
+    });
+  });
+
+  it('should run reads at once and send writes in one MULTI/EXEC on commit', async () => {
+    const batch = await driver.beginWriteBatch();
+
+    assert.deepStrictEqual(
+      await batch.executeQuery('CREATE (:Entity {uuid: $uuid})', { uuid: 'a' }),
+      [],
+    );
+    await batch.executeQuery("MATCH (n:Entity {uuid: 'a'}) SET n.name = $name", { name: 'Alice' });
+    assert.deepStrictEqual(await batch.executeQuery('MATCH (n:Entity) RETURN n.uuid AS uuid'), [
+      { uuid: 'a' },
+    ]);
+    assert.deepStrictEqual(reads, ['MATCH (n:Entity) RETURN n.uuid AS uuid']);
+    assert.deepStrictEqual(commands, []);
+
+    await batch.commit();
+    assert.deepStrictEqual(commands, [
+      ['GRAPH.QUERY', 'default_db', "CREATE (:Entity {uuid: 'a'})"],
+      ['GRAPH.QUERY', 'default_db', "MATCH (n:Entity {uuid: 'a'}) SET n.name = 'Alice'"],
+    ]);
+  });
+
+  it('should drop the queued writes on rollback', async () => {
+    const batch = await driver.beginWriteBatch();
+    await batch.executeQuery('CREATE (:Entity {uuid: $uuid})', { uuid: 'a' });
+
+    await batch.rollback();
+    await batch.commit();
+
+    assert.deepStrictEqual(commands, []);
+  });
+
+  it('should reject the commit when a queued write fails', async () => {
+    replies = [new Error('Invalid query')];
+    const batch = await driver.beginWriteBatch();
+    await batch.executeQuery('CREATE (:Entity {uuid: $uuid})', { uuid: 'a' });
+
+    await assert.rejects(batch.commit(), /Invalid query/);
+  });
+});
@@ -12,6 +12,12 @@ import {
   startOfDay,
   endOfDay,
 } from '../utils/datetime.js';
+import {
+  cosineSimilarity,
+  normalizeName,
+  nameTokens,
+  nameSimilarity,
+} from '../utils/similarity.js';
 
 describe('DateTime Utilities', () => {
   describe('utcNow', () => {
@@ -213,3 +219,38 @@ describe('DateTime Utilities', () => {
     });
   });
 });
+
+describe('Similarity Utilities', () => {
+  describe('cosineSimilarity', () => {
+    it('should return 1 for parallel vectors', () => {
+      assert(Math.abs(cosineSimilarity([1, 2, 3], [2, 4, 6]) - 1) < 1e-9);
+    });
+
+    it('should return 0 for orthogonal or zero vectors', () => {
+      assert.strictEqual(cosineSimilarity([1, 0], [0, 1]), 0);
+      assert.strictEqual(cosineSimilarity([0, 0], [1, 1]), 0);
+    });
+  });
+
+  describe('normalizeName', () => {
+    it('should lowercase, strip punctuation and collapse whitespace', () => {
+      assert.strictEqual(normalizeName('  Acme,  Inc. '), 'acme inc');
+      assert.deepStrictEqual(nameTokens("O'Brien & Sons"), ['o', 'brien', 'sons']);
+    });
+  });
+
+  describe('nameSimilarity', () => {
+    it('should score contained names as fully similar', () => {
+      assert.strictEqual(nameSimilarity('Bob', 'Bob Smith'), 1);
+    });
+
+    it('should score spelling variants highly', () => {
+      assert(nameSimilarity('ACME Corp', 'Acme Corporation') > 0.5);
+    });
+
+    it('should score unrelated names low', () => {
+      assert(nameSimilarity('Paris', 'France') < 0.2);
+      assert.strictEqual(nameSimilarity('', 'France'), 0);
+    });
+  });
+});
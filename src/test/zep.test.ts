@@ -9,6 +9,7 @@ import { ZepMemoryManager } from '../zep/memory.js';
 import { ZepSessionManager } from '../zep/session.js';
 import { ZepRetrieval } from '../zep/retrieval.js';
 import { MemoryType } from '../zep/types.js';
+import { LLMRerankerClient } from '../cross-encoder/llm-reranker.js';
 
 // Load environment variables
 dotenv.config();
@@ -52,7 +53,7 @@ describe('Zep Memory System Tests', { skip: skipTests }, () => {
 
     memoryManager = new ZepMemoryManager(graphzep, llmClient, embedder, driver);
     sessionManager = new ZepSessionManager(driver, llmClient, memoryManager);
-    retrieval = new ZepRetrieval(embedder, driver);
+    retrieval = new ZepRetrieval(embedder, driver, new LLMRerankerClient(llmClient));
 
     await driver.verifyConnectivity();
   });
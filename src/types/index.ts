@@ -10,7 +10,26 @@ export interface GraphDriver {
   provider: GraphProvider;
   executeQuery<T = any>(query: string, params?: Record<string, any>): Promise<T>;
   close(): Promise<void>;
-  createIndexes(): Promise<void>;
+  createIndexes(options?: IndexOptions): Promise<void>;
+  /** Start a unit of writes applied together on commit; not every driver supports it */
+  beginTransaction?(): Promise<GraphTransaction>;
+  /**
+   * Start a batch of writes sent together on commit, for drivers without
+   * transactions. Writes in the batch return no rows, and reads run at once
+   * without seeing them.
+   */
+  beginWriteBatch?(): Promise<GraphTransaction>;
+}
+
+export interface GraphTransaction {
+  executeQuery<T = any>(query: string, params?: Record<string, any>): Promise<T>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+}
+
+export interface IndexOptions {
+  /** Length of stored embeddings; vector indexes are only created when it is known */
+  embeddingDimensions?: number;
 }
 
 export enum GraphProvider {
@@ -18,6 +37,7 @@ export enum GraphProvider {
   FALKORDB = 'falkordb',
   NEPTUNE = 'neptune',
   RDF = 'rdf',
+  MEMORY = 'memory',
 }
 
 export interface LLMClient {
@@ -56,11 +76,14 @@ export interface BaseEdge {
   createdAt: Date;
 }
 
+export type EntityAttributeValue = string | number | boolean | string[];
+
 export interface EntityNode extends BaseNode {
   entityType: string;
   summary: string;
   summaryEmbedding?: number[];
   factIds?: string[];
+  attributes?: Record<string, EntityAttributeValue>;
 }
 
 export interface EpisodicNode extends BaseNode {
@@ -82,11 +105,30 @@ export interface CommunityNode extends BaseNode {
 
 export interface EntityEdge extends BaseEdge {
   name: string;
+  fact?: string;
+  factEmbedding?: number[];
   factIds: string[];
   episodes: string[];
   expiredAt?: Date;
   validAt: Date;
   invalidAt?: Date;
+  invalidatedBy?: string;
+  attributes?: Record<string, EntityAttributeValue>;
+  /** Sentence each supporting episode states the fact in, by episode uuid */
+  episodeQuotes?: Record<string, string>;
+}
+
+/**
+ * An entity edge as returned to API clients (the server's FactResult DTO)
+ */
+export interface FactResult {
+  uuid: string;
+  name: string;
+  fact: string;
+  valid_at: string | null;
+  invalid_at: string | null;
+  created_at: string;
+  expired_at: string | null;
 }
 
 export interface EpisodicEdge extends BaseEdge {}
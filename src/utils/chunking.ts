@@ -0,0 +1,99 @@
+/**
+ * How a long text is split. Tokens are approximated by whitespace-separated
+ * words, so chunk sizes are a rough guide to LLM token counts.
+ */
+export interface ChunkingOptions {
+  /**
+   * 'sections' (the default) ends chunks at headings and blank lines where
+   * possible and falls back to cutting long sections; 'tokens' cuts fixed-size
+   * windows
+   */
+  chunkBy?: 'tokens' | 'sections';
+  /** Maximum tokens per chunk; defaults to 800 */
+  chunkSize?: number;
+  /** Tokens a chunk repeats from the end of the previous one; defaults to 100 */
+  chunkOverlap?: number;
+}
+
+export interface TextChunk {
+  content: string;
+  /** Offsets of the chunk in the original text */
+  start: number;
+  end: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 800;
+const DEFAULT_CHUNK_OVERLAP = 100;
+
+// A heading line, in Markdown or as a numbered title such as "2.1 Results"
+const HEADING = /^(#{1,6}\s|\d+(\.\d+)*\.?\s+[A-Z])/;
+
+/**
+ * Split `text` into overlapping chunks of at most `chunkSize` tokens. Chunks
+ * keep the original text between their first and last token, line breaks
+ * included.
+ */
+export function chunkText(text: string, options: ChunkingOptions = {}): TextChunk[] {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = options.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP;
+  if (chunkSize < 1 || overlap < 0 || overlap >= chunkSize) {
+    throw new Error('chunkOverlap must be at least 0 and less than chunkSize');
+  }
+
+  const tokens = [...text.matchAll(/\S+/g)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+  // Token indices a section starts at: after a blank line or at a heading
+  const sectionStarts = new Set<number>([tokens.length]);
+  if ((options.chunkBy ?? 'sections') === 'sections') {
+    tokens.forEach((token, i) => {
+      if (i === 0) return;
+      const gap = text.slice(tokens[i - 1].end, token.start);
+      const lineStart = gap.includes('\n');
+      if (/\n\s*\n/.test(gap) || (lineStart && HEADING.test(text.slice(token.start)))) {
+        sectionStarts.add(i);
+      }
+    });
+  }
+
+  // End at the last section start that fits, or cut the section
+  const chunkEnd = (start: number) => {
+    const limit = Math.min(start + chunkSize, tokens.length);
+    for (let i = limit; i > start; i--) {
+      if (sectionStarts.has(i)) return i;
+    }
+    return limit;
+  };
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  let covered = 0;
+  while (covered < tokens.length) {
+    let end = chunkEnd(start);
+    // The overlap leaves no room for the next section, so it is dropped
+    if (end <= covered) {
+      start = covered;
+      end = chunkEnd(start);
+    }
+    chunks.push({
+      content: text.slice(tokens[start].start, tokens[end - 1].end),
+      start: tokens[start].start,
+      end: tokens[end - 1].end,
+    });
+    covered = end;
+
+    // Start the next chunk `overlap` tokens back, at a section start if one is
+    // that close
+    start = Math.max(end - overlap, start + 1);
+    for (let i = start; i < end; i++) {
+      if (sectionStarts.has(i)) {
+        start = i;
+        break;
+      }
+    }
+  }
+
+  return chunks;
+}
@@ -2,12 +2,18 @@ export function utcNow(): Date {
   return new Date();
 }
 
-export function parseDbDate(dateStr: string | Date | null | undefined): Date | null {
+/**
+ * Parse a date read back from a driver: ISO strings, Dates, or temporal values
+ * such as Neo4j's DateTime whose toString() yields ISO 8601.
+ */
+export function parseDbDate(
+  dateStr: string | Date | { toString(): string } | null | undefined,
+): Date | null {
   if (!dateStr) return null;
   if (dateStr instanceof Date) return dateStr;
 
   try {
-    const date = new Date(dateStr);
+    const date = new Date(dateStr.toString());
     if (isNaN(date.getTime())) return null;
     return date;
   } catch {
@@ -0,0 +1,197 @@
+import { EntityAttributeValue } from '../types/index.js';
+
+export type JsonAttributeType = 'string' | 'number' | 'boolean' | 'date' | 'string[]';
+
+/**
+ * Where mapped values are read from. Paths are dotted field names relative to
+ * the document root, with `[]` after a field to step into each array element,
+ * e.g. `products[]` or `products[].variants[]`.
+ */
+export interface JsonEntityMapping {
+  /** Path to the objects that each become one entity */
+  path: string;
+  entityType: string;
+  /** Field of each object holding the entity name */
+  nameField: string;
+  /** Field holding the summary; defaults to the name */
+  summaryField?: string;
+  /** Attribute name to the field it is read from and the type it is stored as */
+  attributes?: Record<string, { field: string; type: JsonAttributeType }>;
+}
+
+export interface JsonRelationMapping {
+  /** Key of the source entity mapping */
+  source: string;
+  /** Key of the target entity mapping */
+  target: string;
+  relationName: string;
+}
+
+/**
+ * Declarative mapping of a JSON episode onto the graph. Source and target
+ * entities of a relation are paired when they come from the same object or
+ * one is nested inside the other.
+ */
+export interface JsonEpisodeMapping {
+  /** Entity mappings by key */
+  entities: Record<string, JsonEntityMapping>;
+  relations?: JsonRelationMapping[];
+  /**
+   * Paths to free-text fields handed to the LLM for further entities and
+   * relations; without them no LLM call is made
+   */
+  textFields?: string[];
+}
+
+export interface MappedEntity {
+  name: string;
+  entityType: string;
+  summary: string;
+  attributes: Record<string, EntityAttributeValue>;
+}
+
+export interface MappedRelation {
+  sourceName: string;
+  targetName: string;
+  relationName: string;
+}
+
+export interface MappedJsonEpisode {
+  entities: MappedEntity[];
+  relations: MappedRelation[];
+  /** Free-text values, each prefixed with the name of the entity it belongs to */
+  texts: string[];
+}
+
+interface PathMatch {
+  value: any;
+  /** Objects and arrays the value is nested in, outermost first */
+  ancestors: object[];
+}
+
+function resolvePath(root: unknown, path: string): PathMatch[] {
+  let matches: PathMatch[] = [{ value: root, ancestors: [] }];
+
+  for (const segment of path.split('.').filter(Boolean)) {
+    const iterate = segment.endsWith('[]');
+    const field = iterate ? segment.slice(0, -2) : segment;
+
+    matches = matches.flatMap(({ value, ancestors }) => {
+      if (value === null || typeof value !== 'object') return [];
+      const child = field ? value[field] : value;
+      const childAncestors = [...ancestors, value];
+      if (!iterate) return child === undefined ? [] : [{ value: child, ancestors: childAncestors }];
+      if (!Array.isArray(child)) return [];
+      return child.map((element) => ({ value: element, ancestors: [...childAncestors, child] }));
+    });
+  }
+
+  return matches;
+}
+
+function convertAttribute(value: unknown, type: JsonAttributeType): EntityAttributeValue | null {
+  if (value === null || value === undefined) return null;
+
+  switch (type) {
+    case 'string':
+      return String(value);
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      return value === true || value === 'true';
+    case 'date': {
+      const date = new Date(value as string | number);
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+    case 'string[]':
+      return Array.isArray(value) ? value.map(String) : [String(value)];
+  }
+}
+
+/**
+ * Apply a mapping to a parsed JSON document. Objects without a usable name
+ * are skipped, as are attributes whose value is missing or does not convert.
+ */
+export function mapJsonEpisode(data: unknown, mapping: JsonEpisodeMapping): MappedJsonEpisode {
+  const entities = new Map<string, MappedEntity>();
+  const sources = new Map<string, { name: string; item: object; ancestors: object[] }[]>();
+
+  for (const [key, entityMapping] of Object.entries(mapping.entities)) {
+    const mapped: { name: string; item: object; ancestors: object[] }[] = [];
+
+    for (const { value: item, ancestors } of resolvePath(data, entityMapping.path)) {
+      if (item === null || typeof item !== 'object') continue;
+      const name = item[entityMapping.nameField];
+      if (name === null || name === undefined || String(name).trim() === '') continue;
+
+      const attributes: Record<string, EntityAttributeValue> = {};
+      for (const [attribute, { field, type }] of Object.entries(entityMapping.attributes ?? {})) {
+        const converted = convertAttribute(item[field], type);
+        if (converted !== null) attributes[attribute] = converted;
+      }
+
+      // Objects repeating an entity, like the vendor of every product, add to it
+      const entityKey = `${entityMapping.entityType}\u0000${name}`;
+      const existing = entities.get(entityKey);
+      if (existing) {
+        Object.assign(existing.attributes, attributes);
+      } else {
+        const summary = entityMapping.summaryField && item[entityMapping.summaryField];
+        entities.set(entityKey, {
+          name: String(name),
+          entityType: entityMapping.entityType,
+          summary: summary ? String(summary) : String(name),
+          attributes,
+        });
+      }
+      mapped.push({ name: String(name), item, ancestors });
+    }
+
+    sources.set(key, mapped);
+  }
+
+  const relations: MappedRelation[] = [];
+  for (const relationMapping of mapping.relations ?? []) {
+    const sourceEntities = sources.get(relationMapping.source);
+    const targetEntities = sources.get(relationMapping.target);
+    if (!sourceEntities || !targetEntities) {
+      throw new Error(
+        `Relation ${relationMapping.relationName} refers to an unknown entity mapping`,
+      );
+    }
+
+    for (const source of sourceEntities) {
+      for (const target of targetEntities) {
+        const related =
+          source.item === target.item ||
+          source.ancestors.includes(target.item) ||
+          target.ancestors.includes(source.item);
+        if (related && source.name !== target.name) {
+          relations.push({
+            sourceName: source.name,
+            targetName: target.name,
+            relationName: relationMapping.relationName,
+          });
+        }
+      }
+    }
+  }
+
+  // Name free text after the innermost mapped entity it is nested in
+  const owners = [...sources.values()].flat();
+  const texts = (mapping.textFields ?? []).flatMap((path) =>
+    resolvePath(data, path)
+      .filter(({ value }) => typeof value === 'string' && value.trim() !== '')
+      .map(({ value, ancestors }) => {
+        const owner = [...ancestors]
+          .reverse()
+          .map((ancestor) => owners.find((entity) => entity.item === ancestor))
+          .find(Boolean);
+        return owner ? `${owner.name}: ${value}` : value;
+      }),
+  );
+
+  return { entities: [...entities.values()], relations, texts };
+}
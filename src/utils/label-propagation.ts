@@ -0,0 +1,66 @@
+/**
+ * Weighted, undirected adjacency: node id -> neighbour id -> edge weight
+ */
+export type WeightedGraph = Map<string, Map<string, number>>;
+
+export function addWeightedEdge(graph: WeightedGraph, a: string, b: string, weight = 1): void {
+  if (a === b) return;
+  for (const [from, to] of [
+    [a, b],
+    [b, a],
+  ]) {
+    let neighbours = graph.get(from);
+    if (!neighbours) {
+      neighbours = new Map();
+      graph.set(from, neighbours);
+    }
+    neighbours.set(to, (neighbours.get(to) ?? 0) + weight);
+  }
+}
+
+/**
+ * Cluster a graph by label propagation: every node starts in its own community
+ * and repeatedly adopts the label with the highest total edge weight among its
+ * neighbours until no label changes. Nodes are visited in sorted order and ties
+ * keep the current label or otherwise go to the smallest one, so the result is
+ * deterministic.
+ *
+ * Returns the clusters, each sorted, largest first.
+ */
+export function labelPropagation(graph: WeightedGraph, maxIterations = 100): string[][] {
+  const nodes = [...graph.keys()].sort();
+  const labels = new Map(nodes.map((node) => [node, node]));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+
+    for (const node of nodes) {
+      const weights = new Map<string, number>();
+      for (const [neighbour, weight] of graph.get(node)!) {
+        const label = labels.get(neighbour)!;
+        weights.set(label, (weights.get(label) ?? 0) + weight);
+      }
+      if (weights.size === 0) continue;
+
+      const current = labels.get(node)!;
+      const bestWeight = Math.max(...weights.values());
+      const candidates = [...weights.keys()].filter((label) => weights.get(label) === bestWeight);
+      const best = candidates.includes(current) ? current : candidates.sort()[0];
+
+      if (best !== current) {
+        labels.set(node, best);
+        changed = true;
+      }
+    }
+
+    if (!changed) break;
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const node of nodes) {
+    const label = labels.get(node)!;
+    clusters.set(label, [...(clusters.get(label) ?? []), node]);
+  }
+
+  return [...clusters.values()].sort((a, b) => b.length - a.length || (a[0] < b[0] ? -1 : 1));
+}
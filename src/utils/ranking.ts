@@ -0,0 +1,110 @@
+import { cosineSimilarity, nameTokens } from './similarity.js';
+
+export interface RankedItem {
+  uuid: string;
+  score: number;
+}
+
+/**
+ * Okapi BM25 scores of `query` against each document, highest first.
+ * Documents without any query term are left out.
+ */
+export function bm25Scores(
+  query: string,
+  documents: { uuid: string; text: string }[],
+  k1 = 1.2,
+  b = 0.75,
+): RankedItem[] {
+  const queryTerms = [...new Set(nameTokens(query))];
+  if (queryTerms.length === 0 || documents.length === 0) return [];
+
+  const tokenized = documents.map((doc) => ({ uuid: doc.uuid, tokens: nameTokens(doc.text) }));
+  const averageLength =
+    tokenized.reduce((total, doc) => total + doc.tokens.length, 0) / tokenized.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of tokenized) {
+    for (const term of new Set(doc.tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const results: RankedItem[] = [];
+  for (const doc of tokenized) {
+    const termFrequency = new Map<string, number>();
+    for (const token of doc.tokens) {
+      termFrequency.set(token, (termFrequency.get(token) ?? 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFrequency.get(term);
+      if (!tf) continue;
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (tokenized.length - df + 0.5) / (df + 0.5));
+      score +=
+        (idf * tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * doc.tokens.length) / averageLength));
+    }
+
+    if (score > 0) results.push({ uuid: doc.uuid, score });
+  }
+
+  return results.sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Fuse several rankings (uuids, best first) by Reciprocal Rank Fusion:
+ * each item scores the sum of 1 / (k + rank) over the rankings it appears in.
+ */
+export function reciprocalRankFusion(rankings: string[][], k = 60): RankedItem[] {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((uuid, index) => {
+      scores.set(uuid, (scores.get(uuid) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return [...scores.entries()]
+    .map(([uuid, score]) => ({ uuid, score }))
+    .sort((x, y) => y.score - x.score);
+}
+
+/**
+ * Order candidates by Maximal Marginal Relevance: repeatedly pick the candidate
+ * maximising lambda * sim(query, c) - (1 - lambda) * max sim(c, already picked).
+ * Candidates without an embedding are left out.
+ */
+export function maximalMarginalRelevance(
+  queryEmbedding: number[],
+  candidates: { uuid: string; embedding?: number[] | null }[],
+  lambda = 0.5,
+  limit = candidates.length,
+): RankedItem[] {
+  const remaining = candidates.filter((c) => c.embedding && c.embedding.length > 0);
+  const relevance = new Map(
+    remaining.map((c) => [c.uuid, cosineSimilarity(queryEmbedding, c.embedding!)]),
+  );
+  const selected: { uuid: string; embedding: number[]; score: number }[] = [];
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const redundancy = Math.max(
+        0,
+        ...selected.map((s) => cosineSimilarity(candidate.embedding!, s.embedding)),
+      );
+      const score = lambda * relevance.get(candidate.uuid)! - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    const [best] = remaining.splice(bestIndex, 1);
+    selected.push({ uuid: best.uuid, embedding: best.embedding!, score: bestScore });
+  }
+
+  return selected.map(({ uuid, score }) => ({ uuid, score }));
+}
@@ -0,0 +1,68 @@
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function nameTokens(name: string): string[] {
+  const normalized = normalizeName(name);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Fuzzy name similarity in [0, 1]: the higher of the token overlap coefficient
+ * ("Bob" vs "Bob Smith" = 1) and the character bigram Dice coefficient
+ * ("Acme Corp" vs "ACME Corporation").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = new Set(nameTokens(a));
+  const tokensB = new Set(nameTokens(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const sharedTokens = [...tokensA].filter((token) => tokensB.has(token)).length;
+  const overlap = sharedTokens / Math.min(tokensA.size, tokensB.size);
+
+  const bigramsA = bigrams(normalizeName(a).replace(/ /g, ''));
+  const bigramsB = bigrams(normalizeName(b).replace(/ /g, ''));
+  let sharedBigrams = 0;
+  const remaining = [...bigramsB];
+  for (const bigram of bigramsA) {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      sharedBigrams++;
+      remaining.splice(index, 1);
+    }
+  }
+  const dice =
+    bigramsA.length + bigramsB.length === 0
+      ? 0
+      : (2 * sharedBigrams) / (bigramsA.length + bigramsB.length);
+
+  return Math.max(overlap, dice);
+}
+
+function bigrams(value: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) {
+    result.push(value.slice(i, i + 2));
+  }
+  return result;
+}
@@ -6,15 +6,22 @@ import {
   RerankingConfig,
 } from './types.js';
 import { BaseEmbedderClient } from '../embedders/client.js';
-import { GraphDriver } from '../types/index.js';
+import { CrossEncoderClient, GraphDriver } from '../types/index.js';
 
 export class ZepRetrieval {
   private embedder: BaseEmbedderClient;
   private driver: GraphDriver;
+  private crossEncoder: CrossEncoderClient;
 
-  constructor(embedder: BaseEmbedderClient, driver: GraphDriver) {
+  /**
+   * Graphzep does not build a ZepRetrieval, so its `crossEncoder` config does
+   * not apply here: `crossEncoder` scores results for
+   * `RerankingStrategy.CROSS_ENCODER`, e.g. an `LLMRerankerClient`
+   */
+  constructor(embedder: BaseEmbedderClient, driver: GraphDriver, crossEncoder: CrossEncoderClient) {
     this.embedder = embedder;
     this.driver = driver;
+    this.crossEncoder = crossEncoder;
   }
 
   /**
@@ -41,7 +48,7 @@ export class ZepRetrieval {
 
     // Apply reranking if requested
     if (params.rerank) {
-      results = await this.rerankResults(results, params.query);
+      results = await this.rerankResults(results, params.query, params.reranking);
     }
 
     // Filter by minimum relevance
@@ -302,9 +309,8 @@ export class ZepRetrieval {
         return this.graphBasedReranking(results);
 
       case RerankingStrategy.CROSS_ENCODER:
-        // Would require additional model for cross-encoding
-        console.warn('Cross-encoder reranking not implemented yet');
-        return results;
+        // Rescore the top results against the query
+        return this.crossEncoderReranking(results, query, config?.topK);
 
       default:
         return results;
@@ -363,6 +369,27 @@ export class ZepRetrieval {
     return reranked;
   }
 
+  /**
+   * Cross-encoder reranking of the first topK results; the rest are dropped,
+   * as their scores are not comparable
+   */
+  private async crossEncoderReranking(
+    results: ZepSearchResult[],
+    query: string,
+    topK: number = results.length,
+  ): Promise<ZepSearchResult[]> {
+    const head = results.slice(0, topK);
+    const scores = await this.crossEncoder.rerank(
+      query,
+      head.map((result) => result.memory.content),
+    );
+
+    const reranked = head
+      .map((result, i) => ({ ...result, score: scores[i] }))
+      .sort((a, b) => b.score - a.score);
+    return reranked;
+  }
+
   /**
    * Graph-based reranking using graph connections
    */
@@ -86,6 +86,7 @@ export interface ZepSearchParams {
   };
   includeMetadata?: boolean;
   rerank?: boolean;
+  reranking?: RerankingConfig; // Applied when rerank is set; defaults to RRF
 }
 
 export interface ZepSearchResult {
@@ -106,7 +107,7 @@ export enum RerankingStrategy {
 
 export interface RerankingConfig {
   strategy: RerankingStrategy;
-  topK?: number;
+  topK?: number; // For cross-encoder, results rescored and kept
   diversityLambda?: number; // For MMR
   fusionK?: number; // For RRF
   modelName?: string; // For cross-encoder
@@ -167,4 +168,13 @@ export const ZepSearchParamsSchema = z.object({
     .optional(),
   includeMetadata: z.boolean().optional(),
   rerank: z.boolean().optional(),
+  reranking: z
+    .object({
+      strategy: z.nativeEnum(RerankingStrategy),
+      topK: z.number().positive().optional(),
+      diversityLambda: z.number().min(0).max(1).optional(),
+      fusionK: z.number().positive().optional(),
+      modelName: z.string().optional(),
+    })
+    .optional(),
 });